@@ -1,20 +1,46 @@
 import { useEffect, useState, useRef } from "react";
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import {
+  BrowserRouter,
+  Routes,
+  Route,
+  Navigate,
+  useLocation,
+  useNavigate,
+} from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { useAuthStore } from "@/stores/auth";
+import { useConfigStore } from "@/stores/config";
 import { motion, AnimatePresence } from "framer-motion";
-import { Toaster } from "react-hot-toast";
-import LoginPage from "@/pages/login";
+import toast, { Toaster } from "react-hot-toast";
+import LoginPage, { type LoginLocationState } from "@/pages/login";
 import QrScannerPage from "@/pages/qr-scanner";
 import ProductsPage from "@/pages/products";
 import PaymentPage from "@/pages/payment";
 import PaymentCompletePage from "@/pages/payment-complete";
+import KitchenPage from "@/pages/kitchen";
+import PickupBoardPage from "@/pages/pickup-board";
 import NotFoundPage from "@/pages/not-found";
 import Providers from "@/components/providers";
+import IdleWatcher from "@/components/idle-watcher";
+import KioskDisconnected from "@/components/kiosk-disconnected";
+import { recoverPersistedPayment } from "@/libs/order-recovery";
+import useTranslation from "@/hooks/use-translation";
+
+const DISPLAY_ROUTES = ["/pickup-board"];
 
 function AppRoutes() {
-  const { authenticated, initialized } = useAuthStore();
+  const { authenticated, initialized, activeProfileId } = useAuthStore();
   const [isLoading, setIsLoading] = useState(true);
+  const [isRecovering, setIsRecovering] = useState(true);
   const isMounted = useRef<boolean>(true);
+  const recoveryStarted = useRef<boolean>(false);
+  const lastProfileId = useRef<string | null>(null);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+  const isAddingProfile =
+    (location.state as LoginLocationState | null)?.addProfile === true;
 
   useEffect(() => {
     isMounted.current = true;
@@ -29,7 +55,41 @@ function AppRoutes() {
     }
   }, [initialized]);
 
-  if (isLoading) {
+  useEffect(() => {
+    if (!activeProfileId) return;
+
+    if (lastProfileId.current && lastProfileId.current !== activeProfileId) {
+      queryClient.resetQueries();
+    }
+    lastProfileId.current = activeProfileId;
+  }, [activeProfileId, queryClient]);
+
+  useEffect(() => {
+    if (!initialized || recoveryStarted.current) return;
+    recoveryStarted.current = true;
+
+    if (!authenticated) {
+      setIsRecovering(false);
+      return;
+    }
+
+    recoverPersistedPayment().then((outcome) => {
+      if (!isMounted.current) return;
+
+      if (outcome === "resume") {
+        navigate("/payment", { replace: true });
+      } else if (outcome === "completed") {
+        navigate("/payment-complete", { replace: true });
+      } else if (outcome === "cancelled") {
+        toast.error(t("payment.previousOrderCancelled"));
+        navigate("/products", { replace: true });
+      }
+
+      setIsRecovering(false);
+    });
+  }, [initialized, authenticated, navigate, t]);
+
+  if (isLoading || isRecovering) {
     return (
       <div className="flex items-center justify-center h-screen bg-white">
         <motion.div
@@ -58,7 +118,11 @@ function AppRoutes() {
         <Route
           path="/login"
           element={
-            !authenticated ? <LoginPage /> : <Navigate to="/products" replace />
+            !authenticated || isAddingProfile ? (
+              <LoginPage />
+            ) : (
+              <Navigate to="/products" replace />
+            )
           }
         />
 
@@ -95,6 +159,22 @@ function AppRoutes() {
             )
           }
         />
+        <Route
+          path="/kitchen"
+          element={
+            authenticated ? <KitchenPage /> : <Navigate to="/login" replace />
+          }
+        />
+        <Route
+          path="/pickup-board"
+          element={
+            authenticated ? (
+              <PickupBoardPage />
+            ) : (
+              <Navigate to="/login" replace />
+            )
+          }
+        />
 
         <Route path="*" element={<NotFoundPage />} />
       </Routes>
@@ -102,37 +182,65 @@ function AppRoutes() {
   );
 }
 
+function AppToaster() {
+  const { pathname } = useLocation();
+
+  if (DISPLAY_ROUTES.some((route) => pathname.startsWith(route))) {
+    return null;
+  }
+
+  return (
+    <Toaster
+      position="top-center"
+      toastOptions={{
+        duration: 3000,
+        style: {
+          background: "#FFFFFF",
+          color: "#333333",
+          boxShadow: "0 3px 10px rgba(0, 0, 0, 0.1)",
+          borderRadius: "8px",
+          padding: "12px 20px",
+        },
+        success: {
+          iconTheme: {
+            primary: "#10B981",
+            secondary: "#FFFFFF",
+          },
+        },
+        error: {
+          iconTheme: {
+            primary: "#EF4444",
+            secondary: "#FFFFFF",
+          },
+        },
+      }}
+    />
+  );
+}
+
+function DemoModeBadge() {
+  const { config } = useConfigStore();
+  const { t } = useTranslation();
+
+  if (!config.demoMode) return null;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 z-[90] -translate-x-1/2 px-4 py-2 text-sm font-semibold text-[#92400E] bg-[#FEF3C7] rounded-full pointer-events-none">
+      {t("common.demoMode")}
+    </div>
+  );
+}
+
 export default function App() {
   return (
     <BrowserRouter>
       <Providers>
         <div className="flex flex-col min-h-screen bg-white">
           <AppRoutes />
-          <Toaster
-            position="top-center"
-            toastOptions={{
-              duration: 3000,
-              style: {
-                background: "#FFFFFF",
-                color: "#333333",
-                boxShadow: "0 3px 10px rgba(0, 0, 0, 0.1)",
-                borderRadius: "8px",
-                padding: "12px 20px",
-              },
-              success: {
-                iconTheme: {
-                  primary: "#10B981",
-                  secondary: "#FFFFFF",
-                },
-              },
-              error: {
-                iconTheme: {
-                  primary: "#EF4444",
-                  secondary: "#FFFFFF",
-                },
-              },
-            }}
-          />
+          <IdleWatcher />
+          <KioskDisconnected />
+          <DemoModeBadge />
+          <AppToaster />
         </div>
       </Providers>
     </BrowserRouter>
@@ -0,0 +1,105 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { useQueryClient } from "@tanstack/react-query";
+import type { ProductResponse } from "@/types/product";
+import useTranslation from "@/hooks/use-translation";
+import LanguagePicker from "@/components/language-picker";
+
+interface AttractScreenProps {
+  onDismiss: () => void;
+}
+
+const SLIDE_DURATION = 5000;
+
+export default function AttractScreen({
+  onDismiss,
+}: AttractScreenProps): React.ReactElement {
+  const queryClient = useQueryClient();
+  const [index, setIndex] = useState(0);
+  const { t, formatPrice } = useTranslation();
+
+  const slides = useMemo(() => {
+    const products =
+      queryClient.getQueryData<ProductResponse[]>(["products"]) ?? [];
+
+    return products.filter(
+      (product) => product.imageUrl && product.status !== "HIDDEN"
+    );
+  }, [queryClient]);
+
+  useEffect(() => {
+    if (slides.length <= 1) return;
+
+    const interval = window.setInterval(() => {
+      setIndex((prev) => (prev + 1) % slides.length);
+    }, SLIDE_DURATION);
+
+    return () => clearInterval(interval);
+  }, [slides.length]);
+
+  const current = slides[index];
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-[100] flex flex-col bg-[#0F172A] cursor-pointer"
+      onClick={onDismiss}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.5 }}
+    >
+      <AnimatePresence mode="wait">
+        {current ? (
+          <motion.div
+            key={current.id}
+            className="absolute inset-0"
+            initial={{ opacity: 0, scale: 1.05 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 1 }}
+          >
+            <img
+              src={current.imageUrl ?? undefined}
+              alt={current.name}
+              className="object-cover w-full h-full opacity-80"
+            />
+            <div className="absolute bottom-40 left-0 right-0 flex flex-col items-center">
+              <h2 className="text-5xl font-bold text-[#FFFFFF]">
+                {current.name}
+              </h2>
+              <p className="mt-4 text-3xl font-semibold text-[#C7D2FE]">
+                {formatPrice(current.price)}
+              </p>
+            </div>
+          </motion.div>
+        ) : (
+          <motion.div
+            key="logo"
+            className="absolute inset-0 flex items-center justify-center"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <img
+              src="/assets/images/logo.png"
+              alt="Logo"
+              className="w-40 h-40"
+            />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <LanguagePicker className="absolute top-8 right-8 z-10" />
+
+      <div className="absolute bottom-0 left-0 right-0 flex justify-center pb-16">
+        <motion.p
+          className="px-8 py-4 text-2xl font-semibold text-[#FFFFFF] bg-[#4F46E5] rounded-full"
+          animate={{ scale: [1, 1.05, 1] }}
+          transition={{ duration: 2, repeat: Infinity }}
+        >
+          {t("idle.touchToStart")}
+        </motion.p>
+      </div>
+    </motion.div>
+  );
+}
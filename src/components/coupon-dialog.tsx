@@ -0,0 +1,172 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { motion } from "framer-motion";
+import { useMutation } from "@tanstack/react-query";
+import { toApiError } from "@/libs/api";
+import { fetchCoupon } from "@/libs/endpoints";
+import { useCartStore } from "@/stores/cart";
+import useTranslation from "@/hooks/use-translation";
+
+interface CouponDialogProps {
+  onApplied: () => void;
+  onClose: () => void;
+}
+
+const COUPON_CODE_MIN_LENGTH = 4;
+const COUPON_CODE_MAX_LENGTH = 8;
+
+export default function CouponDialog({
+  onApplied,
+  onClose,
+}: CouponDialogProps): React.ReactElement {
+  const { t } = useTranslation();
+  const { applyCoupon } = useCartStore();
+  const [code, setCode] = useState("");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const isMounted = useRef<boolean>(true);
+
+  useEffect(() => {
+    isMounted.current = true;
+    return () => {
+      isMounted.current = false;
+    };
+  }, []);
+
+  const couponMutation = useMutation({
+    mutationFn: fetchCoupon,
+    onSuccess: (coupon) => {
+      applyCoupon(coupon);
+      onApplied();
+    },
+    onError: (error) => {
+      if (!isMounted.current) return;
+
+      const apiError = toApiError(error);
+      setCode("");
+      setErrorMessage(t(apiError.getMessageKey("errors.COUPON_NOT_FOUND")));
+    },
+  });
+
+  const handleKeypadPress = useCallback(
+    (value: string) => {
+      if (!isMounted.current || couponMutation.isPending) return;
+
+      setErrorMessage(null);
+      if (value === "delete") {
+        setCode((prev) => prev.slice(0, -1));
+      } else if (value === "clear") {
+        setCode("");
+      } else {
+        setCode((prev) =>
+          prev.length < COUPON_CODE_MAX_LENGTH ? prev + value : prev
+        );
+      }
+    },
+    [couponMutation.isPending]
+  );
+
+  const handleSubmit = useCallback(() => {
+    if (code.length < COUPON_CODE_MIN_LENGTH) return;
+    couponMutation.mutate(code);
+  }, [code, couponMutation]);
+
+  const keypadButtons = useMemo(() => {
+    return [
+      ["1", "2", "3"],
+      ["4", "5", "6"],
+      ["7", "8", "9"],
+      ["clear", "0", "delete"],
+    ];
+  }, []);
+
+  const canSubmit =
+    code.length >= COUPON_CODE_MIN_LENGTH && !couponMutation.isPending;
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-[100] flex items-center justify-center bg-[#000000]/50"
+      onClick={onClose}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+    >
+      <motion.div
+        className="flex flex-col items-center w-80 px-6 py-8 bg-[#FFFFFF] rounded-2xl"
+        onClick={(event) => event.stopPropagation()}
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 20 }}
+        transition={{ duration: 0.2 }}
+      >
+        <h2 className="text-xl font-bold text-[#1E293B]">
+          {t("promotions.couponTitle")}
+        </h2>
+        <p className="mt-1 mb-5 text-sm text-[#64748B]">
+          {t("promotions.couponHint")}
+        </p>
+
+        <div className="flex items-center justify-center w-full h-12 mb-3 text-2xl font-semibold tracking-[0.3em] text-[#1E293B] bg-[#F8FAFC] border border-[#E2E8F0] rounded-lg">
+          {code}
+        </div>
+
+        <p className="h-5 mb-4 text-sm font-medium text-[#DC2626]">
+          {errorMessage}
+        </p>
+
+        <div>
+          {keypadButtons.map((row, rowIndex) => (
+            <div
+              key={`row-${rowIndex}`}
+              className="flex justify-center gap-3.5 mb-2.5"
+            >
+              {row.map((key) => (
+                <motion.button
+                  key={`key-${key}`}
+                  className={`w-16 h-16 flex items-center justify-center rounded-lg ${
+                    key === "delete" || key === "clear"
+                      ? "bg-[#E2E8F0]"
+                      : "bg-[#F8FAFC]"
+                  }`}
+                  onClick={() => handleKeypadPress(key)}
+                  whileTap={{ scale: 0.95 }}
+                >
+                  <span className="text-[#1E293B] text-xl">
+                    {key === "delete" ? "←" : key === "clear" ? "C" : key}
+                  </span>
+                </motion.button>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <motion.button
+          className={`flex items-center justify-center w-full py-3 mt-3 text-base font-semibold text-[#FFFFFF] rounded-xl ${
+            canSubmit ? "bg-[#4F46E5]" : "bg-[#CBD5E1]"
+          }`}
+          onClick={handleSubmit}
+          disabled={!canSubmit}
+          whileTap={canSubmit ? { scale: 0.98 } : {}}
+        >
+          {couponMutation.isPending ? (
+            <div className="w-5 h-5 border-2 border-[#FFFFFF] border-t-transparent rounded-full animate-spin"></div>
+          ) : (
+            t("promotions.couponApply")
+          )}
+        </motion.button>
+        <motion.button
+          className="w-full py-3 mt-2 text-base font-medium text-[#475569] bg-[#F1F5F9] rounded-xl"
+          onClick={onClose}
+          whileTap={{ scale: 0.98 }}
+        >
+          {t("promotions.close")}
+        </motion.button>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,131 @@
+import React, { useCallback } from "react";
+import { motion } from "framer-motion";
+import { useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import type { MessageKey } from "@/libs/i18n";
+import useTranslation from "@/hooks/use-translation";
+import { useDemoStore, type DemoPaymentOutcome } from "@/stores/demo";
+import type { SettledPaymentRequestStatus } from "@/types/payment";
+
+const OUTCOME_LABELS: Record<DemoPaymentOutcome, MessageKey> = {
+  COMPLETED: "demo.outcomes.COMPLETED",
+  FAILED: "demo.outcomes.FAILED",
+  EXPIRED: "demo.outcomes.EXPIRED",
+  MANUAL: "demo.outcomes.MANUAL",
+};
+
+const SETTLE_LABELS: Record<SettledPaymentRequestStatus, MessageKey> = {
+  COMPLETED: "demo.settleStatus.COMPLETED",
+  FAILED: "demo.settleStatus.FAILED",
+  EXPIRED: "demo.settleStatus.EXPIRED",
+};
+
+export default function DemoControls(): React.ReactElement {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+  const { paymentOutcome, paymentDelay, setPaymentOutcome, setPaymentDelay } =
+    useDemoStore();
+
+  const handleSettle = useCallback(
+    async (status: SettledPaymentRequestStatus) => {
+      const { settleMockPayments } = await import("@/mocks/backend");
+      const count = settleMockPayments(status);
+
+      if (count > 0) {
+        toast.success(
+          t("demo.settled", { count, status: t(SETTLE_LABELS[status]) })
+        );
+      } else {
+        toast.error(t("demo.nothingToSettle"));
+      }
+    },
+    [t]
+  );
+
+  const handleDropSockets = useCallback(async () => {
+    const { dropMockSockets } = await import("@/mocks/socket");
+    const count = dropMockSockets();
+    toast.success(t("demo.socketsDropped", { count }));
+  }, [t]);
+
+  const handleResetData = useCallback(async () => {
+    const { resetMockBackend } = await import("@/mocks/backend");
+    resetMockBackend();
+    queryClient.resetQueries();
+    toast.success(t("demo.dataReset"));
+  }, [queryClient, t]);
+
+  return (
+    <div className="p-4 mt-6 rounded-xl bg-[#F8FAFC]">
+      <h3 className="mb-1 text-base font-semibold text-[#1E293B]">
+        {t("demo.title")}
+      </h3>
+      <p className="mb-3 text-sm text-[#64748B]">{t("demo.description")}</p>
+
+      <div className="grid grid-cols-4 gap-2 mb-3">
+        {(Object.keys(OUTCOME_LABELS) as DemoPaymentOutcome[]).map(
+          (outcome) => (
+            <button
+              key={outcome}
+              className={`py-2 text-sm font-medium rounded-lg border ${
+                paymentOutcome === outcome
+                  ? "text-[#4F46E5] bg-[#EEF2FF] border-[#C7D2FE]"
+                  : "text-[#64748B] bg-[#FFFFFF] border-[#E2E8F0]"
+              }`}
+              onClick={() => setPaymentOutcome(outcome)}
+            >
+              {t(OUTCOME_LABELS[outcome])}
+            </button>
+          )
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 mb-4">
+        <span className="text-sm text-[#64748B]">{t("demo.delay")}</span>
+        <input
+          type="text"
+          inputMode="numeric"
+          value={paymentDelay}
+          onChange={(event) =>
+            setPaymentDelay(Number(event.target.value.replace(/\D/g, "")))
+          }
+          disabled={paymentOutcome === "MANUAL"}
+          className="w-20 px-3 py-2 text-sm text-right border border-[#E2E8F0] rounded-lg outline-none focus:border-[#4F46E5]"
+        />
+        <span className="text-sm text-[#64748B]">{t("demo.seconds")}</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-2">
+        {(Object.keys(SETTLE_LABELS) as SettledPaymentRequestStatus[]).map(
+          (status) => (
+            <motion.button
+              key={status}
+              className="py-3 text-sm font-semibold text-[#4F46E5] bg-[#FFFFFF] border border-[#C7D2FE] rounded-xl"
+              onClick={() => handleSettle(status)}
+              whileTap={{ scale: 0.98 }}
+            >
+              {t("demo.settle", { status: t(SETTLE_LABELS[status]) })}
+            </motion.button>
+          )
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <motion.button
+          className="py-3 text-sm font-semibold text-[#475569] bg-[#FFFFFF] border border-[#E2E8F0] rounded-xl"
+          onClick={handleDropSockets}
+          whileTap={{ scale: 0.98 }}
+        >
+          {t("demo.dropSockets")}
+        </motion.button>
+        <motion.button
+          className="py-3 text-sm font-semibold text-[#DC2626] bg-[#FEF2F2] rounded-xl"
+          onClick={handleResetData}
+          whileTap={{ scale: 0.98 }}
+        >
+          {t("demo.resetData")}
+        </motion.button>
+      </div>
+    </div>
+  );
+}
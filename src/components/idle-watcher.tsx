@@ -0,0 +1,185 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { motion, AnimatePresence } from "framer-motion";
+import { useAuthStore } from "@/stores/auth";
+import { useCartStore } from "@/stores/cart";
+import { useConfigStore } from "@/stores/config";
+import { useLocaleStore } from "@/stores/locale";
+import { usePaymentStore } from "@/stores/payment";
+import { cancelOrder } from "@/libs/endpoints";
+import { isPaymentInProgress } from "@/libs/payment-machine";
+import AttractScreen from "@/components/attract-screen";
+import useTranslation from "@/hooks/use-translation";
+
+type IdlePhase = "ACTIVE" | "WARNING" | "ATTRACT";
+
+const WARNING_DURATION = 15;
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "touchstart", "wheel"];
+const STAFF_ROUTES = ["/kitchen", "/pickup-board"];
+
+export default function IdleWatcher(): React.ReactElement {
+  const { authenticated } = useAuthStore();
+  const { clearCart } = useCartStore();
+  const { phase: paymentPhase, resetPayment } = usePaymentStore();
+  const { resetLocale } = useLocaleStore();
+  const { config } = useConfigStore();
+  const { idleTimeout, features } = config;
+  const { t } = useTranslation();
+  const [phase, setPhase] = useState<IdlePhase>("ACTIVE");
+  const [countdown, setCountdown] = useState(WARNING_DURATION);
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
+
+  const lastActivityRef = useRef<number>(Date.now());
+  const phaseRef = useRef<IdlePhase>("ACTIVE");
+
+  // The payment page runs its own countdown; a payment left behind on any
+  // other screen is abandoned once the kiosk goes idle.
+  const isPaymentPending =
+    pathname === "/payment" && isPaymentInProgress(paymentPhase);
+  const isWatching =
+    authenticated && !STAFF_ROUTES.some((route) => pathname.startsWith(route));
+
+  const changePhase = useCallback((next: IdlePhase) => {
+    phaseRef.current = next;
+    setPhase(next);
+  }, []);
+
+  const enterAttractMode = useCallback(() => {
+    const { phase: currentPhase, orderId } = usePaymentStore.getState();
+    if (isPaymentInProgress(currentPhase) && orderId !== null) {
+      cancelOrder(orderId).catch((error) => {
+        console.error("Failed to cancel abandoned order:", error);
+      });
+    }
+
+    clearCart();
+    resetPayment();
+    resetLocale();
+    navigate("/products");
+
+    if (features.attractScreen) {
+      changePhase("ATTRACT");
+    } else {
+      lastActivityRef.current = Date.now();
+      changePhase("ACTIVE");
+    }
+  }, [
+    clearCart,
+    resetPayment,
+    resetLocale,
+    navigate,
+    features.attractScreen,
+    changePhase,
+  ]);
+
+  const handleDismissAttract = useCallback(() => {
+    lastActivityRef.current = Date.now();
+    changePhase("ACTIVE");
+  }, [changePhase]);
+
+  useEffect(() => {
+    const handleActivity = () => {
+      lastActivityRef.current = Date.now();
+
+      if (phaseRef.current === "WARNING") {
+        changePhase("ACTIVE");
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true })
+    );
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, handleActivity)
+      );
+    };
+  }, [changePhase]);
+
+  useEffect(() => {
+    if (!isWatching || isPaymentPending) {
+      lastActivityRef.current = Date.now();
+      if (phaseRef.current === "WARNING") {
+        changePhase("ACTIVE");
+      }
+      return;
+    }
+
+    const interval = window.setInterval(() => {
+      if (phaseRef.current === "ATTRACT") return;
+
+      const idleSeconds = Math.floor(
+        (Date.now() - lastActivityRef.current) / 1000
+      );
+      const remaining = idleTimeout + WARNING_DURATION - idleSeconds;
+
+      if (remaining <= 0) {
+        enterAttractMode();
+      } else if (idleSeconds >= idleTimeout) {
+        if (phaseRef.current !== "WARNING") {
+          changePhase("WARNING");
+        }
+        setCountdown(remaining);
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [
+    isWatching,
+    isPaymentPending,
+    idleTimeout,
+    enterAttractMode,
+    changePhase,
+  ]);
+
+  return (
+    <AnimatePresence>
+      {isWatching && phase === "WARNING" && (
+        <motion.div
+          key="idle-warning"
+          className="fixed inset-0 z-[90] flex items-center justify-center bg-[#000000]/50"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.3 }}
+        >
+          <motion.div
+            className="flex flex-col items-center w-96 px-8 py-10 bg-[#FFFFFF] rounded-2xl shadow-md"
+            initial={{ scale: 0.9 }}
+            animate={{ scale: 1 }}
+            transition={{ duration: 0.2 }}
+          >
+            <h2 className="text-2xl font-bold text-[#1E293B]">
+              {t("idle.title")}
+            </h2>
+            <p className="mt-3 text-base font-medium text-[#64748B] text-center">
+              {t("idle.countdown", { seconds: countdown })}
+            </p>
+            <motion.span
+              className="mt-6 text-5xl font-bold text-[#4F46E5]"
+              key={countdown}
+              initial={{ scale: 1.2 }}
+              animate={{ scale: 1 }}
+              transition={{ duration: 0.2 }}
+            >
+              {countdown}
+            </motion.span>
+            <motion.button
+              className="w-full py-4 mt-8 text-base font-semibold text-[#FFFFFF] bg-[#4F46E5] rounded-xl"
+              onClick={() => changePhase("ACTIVE")}
+              whileHover={{ backgroundColor: "#4338CA" }}
+              whileTap={{ scale: 0.98 }}
+            >
+              {t("idle.continue")}
+            </motion.button>
+          </motion.div>
+        </motion.div>
+      )}
+      {isWatching && phase === "ATTRACT" && (
+        <AttractScreen key="idle-attract" onDismiss={handleDismissAttract} />
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,105 @@
+import React, { useCallback, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion, AnimatePresence } from "framer-motion";
+import { useAuthStore } from "@/stores/auth";
+import { usePaymentStore } from "@/stores/payment";
+import { isPaymentInProgress } from "@/libs/payment-machine";
+import useTranslation from "@/hooks/use-translation";
+
+export default function KioskDisconnected(): React.ReactElement {
+  const { authenticated, disconnected, refresh, detach } = useAuthStore();
+  const { phase } = usePaymentStore();
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [reconnectFailed, setReconnectFailed] = useState(false);
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+
+  const isPaymentPending = isPaymentInProgress(phase);
+
+  const handleReconnect = useCallback(async () => {
+    setIsReconnecting(true);
+    setReconnectFailed(false);
+
+    const result = await refresh();
+
+    setIsReconnecting(false);
+    setReconnectFailed(result !== "REFRESHED");
+  }, [refresh]);
+
+  const handleSignInAgain = useCallback(() => {
+    detach();
+    navigate("/login");
+  }, [detach, navigate]);
+
+  return (
+    <AnimatePresence>
+      {authenticated && disconnected && (
+        <motion.div
+          key="kiosk-disconnected"
+          className="fixed inset-0 z-[110] flex items-center justify-center bg-[#0F172A]/80"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.3 }}
+        >
+          <motion.div
+            className="flex flex-col items-center w-[28rem] px-8 py-10 bg-[#FFFFFF] rounded-2xl shadow-md"
+            initial={{ scale: 0.9 }}
+            animate={{ scale: 1 }}
+            transition={{ duration: 0.2 }}
+          >
+            <svg
+              className="w-16 h-16 mb-4 text-[#EF4444]"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+              />
+            </svg>
+            <h2 className="text-2xl font-bold text-[#1E293B]">
+              {t("disconnected.title")}
+            </h2>
+            <p className="mt-3 text-base font-medium text-[#64748B] text-center">
+              {t("disconnected.description")}
+            </p>
+            {isPaymentPending && (
+              <p className="mt-3 px-4 py-2 text-sm font-medium text-[#4F46E5] bg-[#EEF2FF] rounded-lg text-center">
+                {t("disconnected.paymentPreserved")}
+              </p>
+            )}
+            {reconnectFailed && (
+              <p className="mt-3 text-sm font-medium text-[#DC2626]">
+                {t("disconnected.reconnectFailed")}
+              </p>
+            )}
+            <motion.button
+              className={`w-full py-4 mt-8 text-base font-semibold text-[#FFFFFF] rounded-xl ${
+                isReconnecting ? "bg-[#CBD5E1]" : "bg-[#4F46E5]"
+              }`}
+              onClick={handleReconnect}
+              disabled={isReconnecting}
+              whileHover={!isReconnecting ? { backgroundColor: "#4338CA" } : {}}
+              whileTap={!isReconnecting ? { scale: 0.98 } : {}}
+            >
+              {isReconnecting
+                ? t("disconnected.reconnecting")
+                : t("disconnected.reconnect")}
+            </motion.button>
+            <motion.button
+              className="w-full py-4 mt-3 text-base font-semibold text-[#475569] bg-[#F1F5F9] rounded-xl"
+              onClick={handleSignInAgain}
+              whileTap={{ scale: 0.98 }}
+            >
+              {t("disconnected.signInAgain")}
+            </motion.button>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,42 @@
+import React from "react";
+import { motion } from "framer-motion";
+import { LOCALES, type Locale } from "@/libs/i18n";
+import { useConfigStore } from "@/stores/config";
+import { useLocaleStore } from "@/stores/locale";
+
+interface LanguagePickerProps {
+  className?: string;
+}
+
+export default function LanguagePicker({
+  className = "",
+}: LanguagePickerProps): React.ReactElement | null {
+  const { locale, setLocale } = useLocaleStore();
+  const { config } = useConfigStore();
+
+  if (!config.features.languagePicker) return null;
+
+  return (
+    <div
+      className={`flex items-center gap-1 p-1 bg-[#F1F5F9] rounded-lg ${className}`}
+    >
+      {(Object.keys(LOCALES) as Locale[]).map((code) => (
+        <motion.button
+          key={code}
+          className={`px-3 py-1.5 text-sm font-medium rounded-md ${
+            locale === code
+              ? "text-[#FFFFFF] bg-[#4F46E5]"
+              : "text-[#475569] bg-transparent"
+          }`}
+          onClick={(event) => {
+            event.stopPropagation();
+            setLocale(code);
+          }}
+          whileTap={{ scale: 0.95 }}
+        >
+          {LOCALES[code].label}
+        </motion.button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import React from "react";
+import { QRCodeSVG } from "qrcode.react";
+import type { ReceiptLine } from "@/types/order";
+import useTranslation from "@/hooks/use-translation";
+import { LOCALES } from "@/libs/i18n";
+
+interface PickupReceiptProps {
+  pickupNumber: string;
+  lines: ReceiptLine[];
+  totalAmount: number;
+  discountAmount?: number;
+  paidAt: Date;
+  receiptUrl?: string | null;
+}
+
+export default function PickupReceipt({
+  pickupNumber,
+  lines,
+  totalAmount,
+  discountAmount = 0,
+  paidAt,
+  receiptUrl,
+}: PickupReceiptProps): React.ReactElement {
+  const { locale, t, formatPrice } = useTranslation();
+
+  return (
+    <div className="w-full text-[#000000] font-mono text-xs">
+      <div className="text-center pb-2 border-b border-dashed border-[#000000]">
+        <p className="text-base font-bold">Flick Place</p>
+        <p>
+          {paidAt.toLocaleString(LOCALES[locale].intlLocale, {
+            year: "numeric",
+            month: "2-digit",
+            day: "2-digit",
+            hour: "2-digit",
+            minute: "2-digit",
+          })}
+        </p>
+      </div>
+
+      <div className="py-3 text-center border-b border-dashed border-[#000000]">
+        <p>{t("common.pickupNumber")}</p>
+        <p className="text-5xl font-bold">{pickupNumber}</p>
+      </div>
+
+      <div className="py-2 border-b border-dashed border-[#000000]">
+        {lines.map((line) => (
+          <div key={line.key} className="py-1">
+            <div className="flex justify-between">
+              <span>
+                {line.name} x{line.quantity}
+              </span>
+              <span>{formatPrice(line.linePrice)}</span>
+            </div>
+            {line.options.length > 0 && (
+              <p className="pl-2">+ {line.options.join(", ")}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {discountAmount > 0 && (
+        <div className="flex justify-between pt-2">
+          <span>{t("receipt.discount")}</span>
+          <span>-{formatPrice(discountAmount)}</span>
+        </div>
+      )}
+
+      <div className="flex justify-between py-2 text-sm font-bold">
+        <span>{t("receipt.total")}</span>
+        <span>{formatPrice(totalAmount)}</span>
+      </div>
+
+      {receiptUrl && (
+        <div className="flex flex-col items-center pt-2">
+          <QRCodeSVG
+            value={receiptUrl}
+            size={96}
+            bgColor="#FFFFFF"
+            fgColor="#000000"
+            level="M"
+          />
+          <p className="mt-1">{t("receipt.scanHint")}</p>
+        </div>
+      )}
+
+      <p className="pt-3 text-center">{t("common.pickupGuide")}</p>
+    </div>
+  );
+}
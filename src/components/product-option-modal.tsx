@@ -0,0 +1,314 @@
+import React, { useCallback, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { getUnitPrice } from "@/domain/cart";
+import {
+  getDefaultComponents,
+  getRemainingStock,
+  getSlotChoices,
+} from "@/domain/stock";
+import type {
+  ProductComponentResponse,
+  ProductOptionGroupResponse,
+  ProductResponse,
+  SelectedComponent,
+  SelectedOption,
+} from "@/types/product";
+import { useCartStore } from "@/stores/cart";
+import useTranslation from "@/hooks/use-translation";
+
+interface ProductOptionModalProps {
+  product: ProductResponse;
+  catalog: ProductResponse[];
+  onConfirm: (
+    options: SelectedOption[],
+    components: SelectedComponent[]
+  ) => void;
+  onClose: () => void;
+}
+
+const getInitialSelections = (
+  groups: ProductOptionGroupResponse[]
+): Record<number, number[]> =>
+  groups.reduce<Record<number, number[]>>((acc, group) => {
+    acc[group.id] =
+      group.required && !group.multiple && group.options.length > 0
+        ? [group.options[0].id]
+        : [];
+    return acc;
+  }, {});
+
+export default function ProductOptionModal({
+  product,
+  catalog,
+  onConfirm,
+  onClose,
+}: ProductOptionModalProps): React.ReactElement {
+  const { t, formatPrice } = useTranslation();
+  const { items } = useCartStore();
+  const groups = useMemo(() => product.optionGroups ?? [], [product]);
+  const slots = useMemo(() => product.components ?? [], [product]);
+  const [selections, setSelections] = useState<Record<number, number[]>>(() =>
+    getInitialSelections(groups)
+  );
+  const [components, setComponents] = useState<SelectedComponent[]>(() =>
+    getDefaultComponents(product, catalog, items)
+  );
+
+  const isChoiceAvailable = useCallback(
+    (slot: ProductComponentResponse, productId: number) => {
+      const choice = catalog.find((p) => p.id === productId);
+      return !!choice && getRemainingStock(choice, items) >= slot.quantity;
+    },
+    [catalog, items]
+  );
+
+  const handleSwap = useCallback(
+    (slot: ProductComponentResponse, productId: number) => {
+      setComponents((prev) =>
+        prev.map((component) =>
+          component.slotId === slot.id
+            ? {
+                ...component,
+                productId,
+                productName:
+                  catalog.find((p) => p.id === productId)?.name ?? "",
+                priceDelta:
+                  slot.swaps?.find((swap) => swap.productId === productId)
+                    ?.priceDelta ?? 0,
+              }
+            : component
+        )
+      );
+    },
+    [catalog]
+  );
+
+  const handleToggle = useCallback(
+    (group: ProductOptionGroupResponse, optionId: number) => {
+      setSelections((prev) => {
+        const current = prev[group.id] ?? [];
+
+        if (!group.multiple) {
+          if (current.includes(optionId) && !group.required) {
+            return { ...prev, [group.id]: [] };
+          }
+          return { ...prev, [group.id]: [optionId] };
+        }
+
+        if (current.includes(optionId)) {
+          return {
+            ...prev,
+            [group.id]: current.filter((id) => id !== optionId),
+          };
+        }
+
+        if (group.maxSelections && current.length >= group.maxSelections) {
+          return prev;
+        }
+
+        return { ...prev, [group.id]: [...current, optionId] };
+      });
+    },
+    []
+  );
+
+  const selectedOptions = useMemo<SelectedOption[]>(
+    () =>
+      groups.flatMap((group) =>
+        group.options
+          .filter((option) => selections[group.id]?.includes(option.id))
+          .map((option) => ({
+            groupId: group.id,
+            groupName: group.name,
+            optionId: option.id,
+            optionName: option.name,
+            priceDelta: option.priceDelta,
+          }))
+      ),
+    [groups, selections]
+  );
+
+  const isValid =
+    groups.every(
+      (group) => !group.required || (selections[group.id]?.length ?? 0) > 0
+    ) &&
+    slots.every((slot) =>
+      components.some(
+        (component) =>
+          component.slotId === slot.id &&
+          isChoiceAvailable(slot, component.productId)
+      )
+    );
+
+  const unitPrice = getUnitPrice(product.price, selectedOptions, components);
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-[#000000]/50"
+      onClick={onClose}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+    >
+      <motion.div
+        className="flex flex-col w-full max-w-lg max-h-[85vh] bg-[#FFFFFF] rounded-2xl overflow-hidden"
+        onClick={(event) => event.stopPropagation()}
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 20 }}
+        transition={{ duration: 0.2 }}
+      >
+        <div className="flex items-center p-5 border-b border-[#F1F5F9]">
+          <img
+            src={product.imageUrl || "/assets/images/placeholder.png"}
+            alt={product.name}
+            className="object-cover w-16 h-16 mr-4 rounded-lg bg-[#E2E8F0]"
+          />
+          <div className="flex-1">
+            <h2 className="text-xl font-bold text-[#1E293B]">{product.name}</h2>
+            <p className="text-base font-semibold text-[#4F46E5]">
+              {formatPrice(product.price)}
+            </p>
+          </div>
+          <motion.button
+            className="w-8 h-8 flex items-center justify-center"
+            onClick={onClose}
+            whileTap={{ scale: 0.9 }}
+          >
+            <span className="text-2xl text-[#475569]">&times;</span>
+          </motion.button>
+        </div>
+
+        <div className="flex-1 overflow-auto px-5">
+          {slots.map((slot) => (
+            <div key={slot.id} className="py-4 border-b border-[#F1F5F9]">
+              <div className="flex items-center mb-3">
+                <h3 className="text-base font-semibold text-[#1E293B]">
+                  {slot.name}
+                </h3>
+                <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full text-[#DC2626] bg-[#FEF2F2]">
+                  {t("options.required")}
+                </span>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {getSlotChoices(slot).map((productId) => {
+                  const isSelected = components.some(
+                    (component) =>
+                      component.slotId === slot.id &&
+                      component.productId === productId
+                  );
+                  const isAvailable = isChoiceAvailable(slot, productId);
+                  const priceDelta =
+                    slot.swaps?.find((swap) => swap.productId === productId)
+                      ?.priceDelta ?? 0;
+
+                  return (
+                    <motion.button
+                      key={productId}
+                      className={`flex justify-between items-center px-4 py-3 text-sm rounded-xl border ${
+                        isSelected
+                          ? "border-2 border-[#4F46E5] bg-[#EEF2FF]"
+                          : "border-[#E2E8F0]"
+                      } ${isAvailable ? "" : "opacity-50"}`}
+                      onClick={() => isAvailable && handleSwap(slot, productId)}
+                      disabled={!isAvailable}
+                      whileTap={isAvailable ? { scale: 0.97 } : {}}
+                    >
+                      <span className="font-medium text-[#1E293B]">
+                        {catalog.find((p) => p.id === productId)?.name}
+                        {slot.quantity > 1 && ` x${slot.quantity}`}
+                      </span>
+                      {!isAvailable ? (
+                        <span className="text-[#64748B]">
+                          {t("products.soldOut")}
+                        </span>
+                      ) : (
+                        priceDelta !== 0 && (
+                          <span className="text-[#64748B]">
+                            {priceDelta > 0 ? "+" : ""}
+                            {formatPrice(priceDelta)}
+                          </span>
+                        )
+                      )}
+                    </motion.button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+          {groups.map((group) => (
+            <div key={group.id} className="py-4 border-b border-[#F1F5F9]">
+              <div className="flex items-center mb-3">
+                <h3 className="text-base font-semibold text-[#1E293B]">
+                  {group.name}
+                </h3>
+                <span
+                  className={`ml-2 px-2 py-0.5 text-xs font-medium rounded-full ${
+                    group.required
+                      ? "text-[#DC2626] bg-[#FEF2F2]"
+                      : "text-[#64748B] bg-[#F1F5F9]"
+                  }`}
+                >
+                  {group.required
+                    ? t("options.required")
+                    : t("options.optional")}
+                </span>
+                {group.multiple && group.maxSelections != null && (
+                  <span className="ml-2 text-xs text-[#64748B]">
+                    {t("options.maxSelections", {
+                      count: group.maxSelections,
+                    })}
+                  </span>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {group.options.map((option) => {
+                  const isSelected =
+                    selections[group.id]?.includes(option.id) ?? false;
+
+                  return (
+                    <motion.button
+                      key={option.id}
+                      className={`flex justify-between items-center px-4 py-3 text-sm rounded-xl border ${
+                        isSelected
+                          ? "border-2 border-[#4F46E5] bg-[#EEF2FF]"
+                          : "border-[#E2E8F0]"
+                      }`}
+                      onClick={() => handleToggle(group, option.id)}
+                      whileTap={{ scale: 0.97 }}
+                    >
+                      <span className="font-medium text-[#1E293B]">
+                        {option.name}
+                      </span>
+                      {option.priceDelta !== 0 && (
+                        <span className="text-[#64748B]">
+                          {option.priceDelta > 0 ? "+" : ""}
+                          {formatPrice(option.priceDelta)}
+                        </span>
+                      )}
+                    </motion.button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-5 border-t border-[#F1F5F9]">
+          <motion.button
+            className={`flex items-center justify-center w-full py-4 text-base font-semibold text-[#FFFFFF] rounded-xl ${
+              isValid ? "bg-[#4F46E5]" : "bg-[#CBD5E1]"
+            }`}
+            onClick={() => isValid && onConfirm(selectedOptions, components)}
+            disabled={!isValid}
+            whileHover={isValid ? { backgroundColor: "#4338CA" } : {}}
+            whileTap={isValid ? { scale: 0.98 } : {}}
+          >
+            {t("options.addToCart", { price: formatPrice(unitPrice) })}
+          </motion.button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
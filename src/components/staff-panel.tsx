@@ -0,0 +1,629 @@
+import React, { useCallback, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import {
+  useIsFetching,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import { getLocalDateString } from "@/domain/timer";
+import { cancelOrder, fetchOrders } from "@/libs/endpoints";
+import type { MessageKey } from "@/libs/i18n";
+import {
+  canTransition,
+  isPaymentInProgress,
+  type PaymentPhase,
+} from "@/libs/payment-machine";
+import type { RealtimeStatus } from "@/libs/realtime";
+import StaffSettings from "@/components/staff-settings";
+import useOnlineStatus from "@/hooks/use-online-status";
+import useTranslation from "@/hooks/use-translation";
+import type { LoginLocationState } from "@/pages/login";
+import { useAuthStore } from "@/stores/auth";
+import { useCartStore } from "@/stores/cart";
+import { usePaymentStore } from "@/stores/payment";
+import { useSoldOutStore } from "@/stores/sold-out";
+import { useStaffStore } from "@/stores/staff";
+import type { OrderResponse } from "@/types/order";
+import type { ProductResponse } from "@/types/product";
+
+type StaffTab =
+  "products" | "orders" | "payment" | "booths" | "settings" | "system";
+
+interface StaffPanelProps {
+  products: ProductResponse[];
+  stockStatus: RealtimeStatus;
+  onClose: () => void;
+}
+
+const STAFF_TABS: { id: StaffTab; label: MessageKey }[] = [
+  { id: "products", label: "staff.tabs.products" },
+  { id: "orders", label: "staff.tabs.orders" },
+  { id: "payment", label: "staff.tabs.payment" },
+  { id: "booths", label: "staff.tabs.booths" },
+  { id: "settings", label: "staff.tabs.settings" },
+  { id: "system", label: "staff.tabs.system" },
+];
+
+const PAYMENT_PHASE_LABELS: Record<PaymentPhase, MessageKey> = {
+  idle: "staff.phases.idle",
+  "order-created": "staff.phases.orderCreated",
+  "request-pending": "staff.phases.requestPending",
+  completed: "staff.phases.completed",
+  failed: "staff.phases.failed",
+  expired: "staff.phases.expired",
+  cancelled: "staff.phases.cancelled",
+};
+
+const ORDER_STATUS_LABELS: Record<OrderResponse["status"], MessageKey> = {
+  PENDING: "staff.orderStatus.PENDING",
+  PAID: "staff.orderStatus.PAID",
+  CANCELLED: "staff.orderStatus.CANCELLED",
+};
+
+const REALTIME_STATUS_LABELS: Record<RealtimeStatus, MessageKey> = {
+  CONNECTED: "staff.realtimeStatus.CONNECTED",
+  CONNECTING: "staff.realtimeStatus.CONNECTING",
+  DISCONNECTED: "staff.realtimeStatus.DISCONNECTED",
+  FAILED: "staff.realtimeStatus.FAILED",
+};
+
+export default function StaffPanel({
+  products,
+  stockStatus,
+  onClose,
+}: StaffPanelProps): React.ReactElement {
+  const [activeTab, setActiveTab] = useState<StaffTab>("products");
+  const [newPin, setNewPin] = useState("");
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const isOnline = useOnlineStatus();
+  const { t, formatPrice, formatTime } = useTranslation();
+  const isCatalogFetching = useIsFetching({ queryKey: ["products"] }) > 0;
+
+  const { profiles, activeProfileId, signOut, switchProfile, removeProfile } =
+    useAuthStore();
+  const { clearCart, clampProductQuantity } = useCartStore();
+  const {
+    phase,
+    orderId,
+    requestMethod,
+    timer,
+    dispatch: dispatchPayment,
+    resetPayment,
+  } = usePaymentStore();
+  const { soldOutProductIds, toggleSoldOut } = useSoldOutStore();
+  const { changePin } = useStaffStore();
+
+  const catalogState = queryClient.getQueryState(["products"]);
+
+  const {
+    data: todayOrders,
+    isLoading: isOrdersLoading,
+    isError: isOrdersError,
+    refetch: refetchOrders,
+  } = useQuery({
+    queryKey: ["orders", "today"],
+    queryFn: async () => {
+      return await fetchOrders({ date: getLocalDateString() });
+    },
+    enabled: activeTab === "orders",
+  });
+
+  const paidOrders = (todayOrders ?? []).filter(
+    (order) => order.status === "PAID"
+  );
+  const paidTotal = paidOrders.reduce(
+    (sum, order) => sum + order.totalAmount,
+    0
+  );
+
+  const forceCancelMutation = useMutation({
+    // A completed payment has already been charged, so only the local state
+    // is reset and the order is left alone.
+    mutationFn: async () => {
+      if (phase === "completed") return false;
+      if (orderId) {
+        await cancelOrder(orderId);
+      }
+      return true;
+    },
+    onSuccess: (cancelled) => {
+      toast.success(
+        t(cancelled ? "staff.paymentCancelled" : "staff.paymentResetOnly")
+      );
+    },
+    onError: (error) => {
+      console.error("Force cancel error:", error);
+      toast.error(t("staff.forceCancelFailed"));
+    },
+    onSettled: () => {
+      if (canTransition(usePaymentStore.getState().phase, "CANCELLED")) {
+        dispatchPayment({ type: "CANCELLED" });
+      } else {
+        resetPayment();
+      }
+      clearCart();
+    },
+  });
+
+  const handleToggleSoldOut = useCallback(
+    (product: ProductResponse) => {
+      if (toggleSoldOut(product.id)) {
+        clampProductQuantity(product.id, 0);
+      }
+    },
+    [toggleSoldOut, clampProductQuantity]
+  );
+
+  const handleResync = useCallback(async () => {
+    await queryClient.refetchQueries({ queryKey: ["products"] });
+
+    if (queryClient.getQueryState(["products"])?.status === "error") {
+      toast.error(t("staff.resyncFailed"));
+    } else {
+      toast.success(t("staff.resynced"));
+    }
+  }, [queryClient, t]);
+
+  const handleChangePin = useCallback(async () => {
+    if (!/^\d{4}$/.test(newPin)) {
+      toast.error(t("login.staffPinInvalid"));
+      return;
+    }
+
+    try {
+      await changePin(newPin);
+      setNewPin("");
+      toast.success(t("staff.pinChanged"));
+    } catch (error) {
+      console.error("Failed to change staff PIN:", error);
+      toast.error(t("staff.pinChangeFailed"));
+    }
+  }, [newPin, changePin, t]);
+
+  const handleSwitchProfile = useCallback(
+    async (profileId: string) => {
+      if (await switchProfile(profileId)) {
+        onClose();
+        navigate("/products");
+      } else {
+        toast.error(t("staff.switchFailed"));
+      }
+    },
+    [switchProfile, onClose, navigate, t]
+  );
+
+  const handleAddProfile = useCallback(() => {
+    onClose();
+    navigate("/login", {
+      state: { addProfile: true } satisfies LoginLocationState,
+    });
+  }, [onClose, navigate]);
+
+  const handleRemoveProfile = useCallback(
+    (profileId: string, name: string) => {
+      if (!confirm(t("staff.confirmRemoveBooth", { name }))) return;
+      removeProfile(profileId);
+    },
+    [removeProfile, t]
+  );
+
+  const handleSignOut = useCallback(() => {
+    if (!confirm(t("staff.confirmSignOut"))) return;
+
+    clearCart();
+    resetPayment();
+    signOut();
+    onClose();
+    navigate("/login");
+  }, [signOut, clearCart, resetPayment, onClose, navigate, t]);
+
+  const renderProductsTab = useCallback(
+    () => (
+      <div>
+        <p className="mb-3 text-sm text-[#64748B]">
+          {t("staff.soldOutNotice")}
+        </p>
+        {products.map((product) => {
+          const isLocalSoldOut = soldOutProductIds.includes(product.id);
+
+          return (
+            <div
+              key={product.id}
+              className="flex items-center justify-between py-3 border-b border-[#F1F5F9]"
+            >
+              <div>
+                <p className="text-base font-medium text-[#1E293B]">
+                  {product.name}
+                </p>
+                <p className="text-sm text-[#64748B]">
+                  {t("staff.stock", { count: product.stock })}
+                  {product.status === "SOLD_OUT" &&
+                    ` · ${t("staff.serverSoldOut")}`}
+                </p>
+              </div>
+              <motion.button
+                className={`px-4 py-2 text-sm font-semibold rounded-lg ${
+                  isLocalSoldOut
+                    ? "text-[#FFFFFF] bg-[#DC2626]"
+                    : "text-[#166534] bg-[#DCFCE7]"
+                }`}
+                onClick={() => handleToggleSoldOut(product)}
+                whileTap={{ scale: 0.95 }}
+              >
+                {t(isLocalSoldOut ? "staff.soldOut" : "staff.onSale")}
+              </motion.button>
+            </div>
+          );
+        })}
+      </div>
+    ),
+    [products, soldOutProductIds, handleToggleSoldOut, t]
+  );
+
+  const renderOrdersTab = useCallback(() => {
+    if (isOrdersLoading) {
+      return (
+        <p className="py-10 text-center text-[#64748B]">{t("staff.loading")}</p>
+      );
+    }
+
+    if (isOrdersError) {
+      return (
+        <div className="flex flex-col items-center py-10">
+          <p className="mb-4 text-[#475569]">{t("staff.ordersLoadFailed")}</p>
+          <motion.button
+            className="px-5 py-2.5 text-sm font-semibold text-[#FFFFFF] bg-[#4F46E5] rounded-lg"
+            onClick={() => refetchOrders()}
+            whileTap={{ scale: 0.98 }}
+          >
+            {t("common.retry")}
+          </motion.button>
+        </div>
+      );
+    }
+
+    return (
+      <div>
+        <div className="flex justify-between p-4 mb-3 rounded-xl bg-[#F8FAFC]">
+          <span className="text-base font-medium text-[#475569]">
+            {t("staff.paidCount", { count: paidOrders.length })}
+          </span>
+          <span className="text-base font-bold text-[#1E293B]">
+            {formatPrice(paidTotal)}
+          </span>
+        </div>
+        {(todayOrders ?? []).map((order) => (
+          <div
+            key={order.id}
+            className="flex items-center justify-between py-3 border-b border-[#F1F5F9]"
+          >
+            <div className="flex items-center">
+              <span className="w-16 text-base font-bold text-[#1E293B]">
+                #{order.pickupNumber ?? order.id}
+              </span>
+              <span className="text-sm text-[#64748B]">
+                {formatTime(order.createdAt)}
+              </span>
+            </div>
+            <div className="flex items-center">
+              <span
+                className={`mr-4 text-sm font-medium ${
+                  order.status === "CANCELLED"
+                    ? "text-[#DC2626]"
+                    : "text-[#475569]"
+                }`}
+              >
+                {t(ORDER_STATUS_LABELS[order.status])}
+              </span>
+              <span className="text-base font-semibold text-[#1E293B]">
+                {formatPrice(order.totalAmount)}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  }, [
+    isOrdersLoading,
+    isOrdersError,
+    refetchOrders,
+    todayOrders,
+    paidOrders.length,
+    paidTotal,
+    t,
+    formatPrice,
+    formatTime,
+  ]);
+
+  const renderPaymentTab = useCallback(
+    () => (
+      <div>
+        <div className="p-4 mb-4 rounded-xl bg-[#F8FAFC]">
+          <div className="flex justify-between py-1">
+            <span className="text-[#64748B]">{t("staff.paymentStatus")}</span>
+            <span className="font-semibold text-[#1E293B]">
+              {t(PAYMENT_PHASE_LABELS[phase])}
+            </span>
+          </div>
+          <div className="flex justify-between py-1">
+            <span className="text-[#64748B]">{t("staff.orderNumber")}</span>
+            <span className="font-semibold text-[#1E293B]">
+              {orderId ?? "-"}
+            </span>
+          </div>
+          <div className="flex justify-between py-1">
+            <span className="text-[#64748B]">{t("staff.paymentMethod")}</span>
+            <span className="font-semibold text-[#1E293B]">
+              {requestMethod === "QR_CODE"
+                ? t("payment.qrMethod")
+                : requestMethod === "STUDENT_ID"
+                ? t("payment.studentIdMethod")
+                : "-"}
+            </span>
+          </div>
+          <div className="flex justify-between py-1">
+            <span className="text-[#64748B]">{t("staff.remainingTime")}</span>
+            <span className="font-semibold text-[#1E293B]">
+              {t("staff.seconds", { seconds: timer })}
+            </span>
+          </div>
+        </div>
+        <motion.button
+          className={`w-full py-4 text-base font-semibold text-[#FFFFFF] rounded-xl ${
+            phase !== "idle" && !forceCancelMutation.isPending
+              ? "bg-[#DC2626]"
+              : "bg-[#CBD5E1]"
+          }`}
+          onClick={() => forceCancelMutation.mutate()}
+          disabled={phase === "idle" || forceCancelMutation.isPending}
+          whileTap={phase !== "idle" ? { scale: 0.98 } : {}}
+        >
+          {t(
+            forceCancelMutation.isPending
+              ? "staff.forceCancelling"
+              : "staff.forceCancel"
+          )}
+        </motion.button>
+      </div>
+    ),
+    [phase, orderId, requestMethod, timer, forceCancelMutation, t]
+  );
+
+  const renderBoothsTab = useCallback(() => {
+    const isSwitchLocked = isPaymentInProgress(phase);
+
+    return (
+      <div>
+        {isSwitchLocked && (
+          <p className="px-4 py-3 mb-3 text-sm font-medium text-[#B45309] bg-[#FFFBEB] rounded-xl">
+            {t("staff.switchLocked")}
+          </p>
+        )}
+        {profiles.map((profile) => {
+          const isActive = profile.id === activeProfileId;
+
+          return (
+            <div
+              key={profile.id}
+              className="flex items-center justify-between py-3 border-b border-[#F1F5F9]"
+            >
+              <div className="flex items-center">
+                <span className="text-base font-medium text-[#1E293B]">
+                  {profile.name}
+                </span>
+                {isActive && (
+                  <span className="ml-2 px-2 py-0.5 text-xs font-medium text-[#4F46E5] bg-[#EEF2FF] rounded-full">
+                    {t("staff.activeBooth")}
+                  </span>
+                )}
+              </div>
+              {!isActive && (
+                <div className="flex gap-2">
+                  <motion.button
+                    className="px-3 py-2 text-sm font-medium text-[#DC2626] bg-[#FEF2F2] rounded-lg"
+                    onClick={() =>
+                      handleRemoveProfile(profile.id, profile.name)
+                    }
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    {t("staff.removeBooth")}
+                  </motion.button>
+                  <motion.button
+                    className={`px-4 py-2 text-sm font-semibold text-[#FFFFFF] rounded-lg ${
+                      isSwitchLocked ? "bg-[#CBD5E1]" : "bg-[#4F46E5]"
+                    }`}
+                    onClick={() => handleSwitchProfile(profile.id)}
+                    disabled={isSwitchLocked}
+                    whileTap={!isSwitchLocked ? { scale: 0.95 } : {}}
+                  >
+                    {t("staff.switchBooth")}
+                  </motion.button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+        <motion.button
+          className={`w-full py-3 mt-4 text-base font-semibold border rounded-xl ${
+            isSwitchLocked
+              ? "text-[#94A3B8] border-[#E2E8F0]"
+              : "text-[#4F46E5] border-[#C7D2FE]"
+          }`}
+          onClick={handleAddProfile}
+          disabled={isSwitchLocked}
+          whileTap={!isSwitchLocked ? { scale: 0.98 } : {}}
+        >
+          {t("staff.addBooth")}
+        </motion.button>
+      </div>
+    );
+  }, [
+    phase,
+    profiles,
+    activeProfileId,
+    handleRemoveProfile,
+    handleSwitchProfile,
+    handleAddProfile,
+    t,
+  ]);
+
+  const renderSystemTab = useCallback(
+    () => (
+      <div>
+        <div className="p-4 mb-4 rounded-xl bg-[#F8FAFC]">
+          <div className="flex justify-between py-1">
+            <span className="text-[#64748B]">{t("staff.network")}</span>
+            <span
+              className={`font-semibold ${
+                isOnline ? "text-[#16A34A]" : "text-[#DC2626]"
+              }`}
+            >
+              {t(isOnline ? "staff.online" : "staff.offline")}
+            </span>
+          </div>
+          <div className="flex justify-between py-1">
+            <span className="text-[#64748B]">{t("staff.catalogSync")}</span>
+            <span
+              className={`font-semibold ${
+                catalogState?.status === "error"
+                  ? "text-[#DC2626]"
+                  : "text-[#1E293B]"
+              }`}
+            >
+              {catalogState?.status === "error"
+                ? t("staff.catalogSyncFailed")
+                : catalogState?.dataUpdatedAt
+                ? formatTime(catalogState.dataUpdatedAt)
+                : "-"}
+            </span>
+          </div>
+          <div className="flex justify-between py-1">
+            <span className="text-[#64748B]">{t("staff.realtimeStock")}</span>
+            <span
+              className={`font-semibold ${
+                stockStatus === "CONNECTED"
+                  ? "text-[#16A34A]"
+                  : "text-[#DC2626]"
+              }`}
+            >
+              {t(REALTIME_STATUS_LABELS[stockStatus])}
+            </span>
+          </div>
+        </div>
+
+        <motion.button
+          className="w-full py-3 mb-6 text-base font-semibold text-[#4F46E5] border border-[#C7D2FE] rounded-xl"
+          onClick={handleResync}
+          disabled={isCatalogFetching}
+          whileTap={{ scale: 0.98 }}
+        >
+          {t(isCatalogFetching ? "staff.resyncing" : "staff.resync")}
+        </motion.button>
+
+        <h3 className="mb-2 text-base font-semibold text-[#1E293B]">
+          {t("staff.changePin")}
+        </h3>
+        <div className="flex gap-2 mb-6">
+          <input
+            type="password"
+            inputMode="numeric"
+            maxLength={4}
+            value={newPin}
+            onChange={(event) =>
+              setNewPin(event.target.value.replace(/\D/g, ""))
+            }
+            placeholder={t("staff.newPinPlaceholder")}
+            className="flex-1 px-4 py-3 text-base border border-[#E2E8F0] rounded-xl outline-none focus:border-[#4F46E5]"
+          />
+          <motion.button
+            className="px-5 py-3 text-base font-semibold text-[#FFFFFF] bg-[#4F46E5] rounded-xl"
+            onClick={handleChangePin}
+            whileTap={{ scale: 0.98 }}
+          >
+            {t("staff.change")}
+          </motion.button>
+        </div>
+
+        <motion.button
+          className="w-full py-4 text-base font-semibold text-[#DC2626] bg-[#FEF2F2] rounded-xl"
+          onClick={handleSignOut}
+          whileTap={{ scale: 0.98 }}
+        >
+          {t("staff.signOut")}
+        </motion.button>
+      </div>
+    ),
+    [
+      isOnline,
+      catalogState,
+      stockStatus,
+      isCatalogFetching,
+      handleResync,
+      newPin,
+      handleChangePin,
+      handleSignOut,
+      t,
+      formatTime,
+    ]
+  );
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-[100] flex items-center justify-center bg-[#000000]/50"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+    >
+      <motion.div
+        className="flex flex-col w-full max-w-2xl h-[85vh] bg-[#FFFFFF] rounded-2xl overflow-hidden"
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 20 }}
+        transition={{ duration: 0.2 }}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-[#F1F5F9]">
+          <h2 className="text-xl font-bold text-[#1E293B]">
+            {t("staff.title")}
+          </h2>
+          <motion.button
+            className="px-4 py-2 text-sm font-medium text-[#475569] bg-[#F1F5F9] rounded-lg"
+            onClick={onClose}
+            whileTap={{ scale: 0.95 }}
+          >
+            {t("staff.close")}
+          </motion.button>
+        </div>
+
+        <div className="flex px-6 border-b border-[#F1F5F9]">
+          {STAFF_TABS.map((tab) => (
+            <button
+              key={tab.id}
+              className={`px-4 py-3 text-base font-medium border-b-2 ${
+                activeTab === tab.id
+                  ? "text-[#4F46E5] border-[#4F46E5]"
+                  : "text-[#64748B] border-transparent"
+              }`}
+              onClick={() => setActiveTab(tab.id)}
+            >
+              {t(tab.label)}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 px-6 py-4 overflow-auto">
+          {activeTab === "products" && renderProductsTab()}
+          {activeTab === "orders" && renderOrdersTab()}
+          {activeTab === "payment" && renderPaymentTab()}
+          {activeTab === "booths" && renderBoothsTab()}
+          {activeTab === "settings" && <StaffSettings />}
+          {activeTab === "system" && renderSystemTab()}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,209 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { motion } from "framer-motion";
+import useTranslation from "@/hooks/use-translation";
+import { useStaffStore } from "@/stores/staff";
+
+interface StaffPinDialogProps {
+  description?: string;
+  onVerified: () => void;
+  onClose: () => void;
+}
+
+const PIN_LENGTH = 4;
+
+export default function StaffPinDialog({
+  description,
+  onVerified,
+  onClose,
+}: StaffPinDialogProps): React.ReactElement {
+  const { verifyPin, hasPin, getLockRemaining } = useStaffStore();
+  const { t } = useTranslation();
+  // A missing PIN is chosen on the login screen, never from here: this dialog
+  // opens from the customer-facing menu.
+  const [canEnter] = useState(hasPin);
+  const [pin, setPin] = useState("");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [lockRemaining, setLockRemaining] = useState<number>(getLockRemaining);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const isMounted = useRef<boolean>(true);
+
+  useEffect(() => {
+    isMounted.current = true;
+    return () => {
+      isMounted.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (lockRemaining <= 0) return;
+
+    const interval = window.setInterval(() => {
+      if (isMounted.current) {
+        setLockRemaining(getLockRemaining());
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [lockRemaining, getLockRemaining]);
+
+  const submitPin = useCallback(
+    async (value: string) => {
+      setIsVerifying(true);
+      try {
+        const result = await verifyPin(value);
+        if (!isMounted.current) return;
+
+        if (result === "OK") {
+          onVerified();
+        } else if (result === "LOCKED") {
+          setErrorMessage(null);
+          setLockRemaining(getLockRemaining());
+        } else if (result === "NOT_SET") {
+          setErrorMessage(t("staffPin.notSet"));
+        } else {
+          setErrorMessage(t("staffPin.incorrect"));
+        }
+      } catch (error) {
+        console.error("Failed to verify staff PIN:", error);
+        if (isMounted.current) {
+          setErrorMessage(t("staffPin.verifyFailed"));
+        }
+      } finally {
+        if (isMounted.current) {
+          setIsVerifying(false);
+          setPin("");
+        }
+      }
+    },
+    [verifyPin, getLockRemaining, onVerified, t]
+  );
+
+  const handleKeypadPress = useCallback(
+    (value: string) => {
+      if (!isMounted.current || isVerifying || lockRemaining > 0 || !canEnter) {
+        return;
+      }
+
+      if (value === "delete") {
+        setPin((prev) => prev.slice(0, -1));
+      } else if (value === "clear") {
+        setPin("");
+      } else if (pin.length < PIN_LENGTH) {
+        const next = pin + value;
+        setPin(next);
+        setErrorMessage(null);
+
+        if (next.length === PIN_LENGTH) {
+          submitPin(next);
+        }
+      }
+    },
+    [pin, isVerifying, lockRemaining, canEnter, submitPin]
+  );
+
+  const keypadButtons = useMemo(() => {
+    return [
+      ["1", "2", "3"],
+      ["4", "5", "6"],
+      ["7", "8", "9"],
+      ["clear", "0", "delete"],
+    ];
+  }, []);
+
+  const isLocked = lockRemaining > 0 || !canEnter;
+
+  const hint = canEnter
+    ? t("staffPin.enterPin", { length: PIN_LENGTH })
+    : t("staffPin.notSetHint");
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-[100] flex items-center justify-center bg-[#000000]/50"
+      onClick={onClose}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+    >
+      <motion.div
+        className="flex flex-col items-center w-80 px-6 py-8 bg-[#FFFFFF] rounded-2xl"
+        onClick={(event) => event.stopPropagation()}
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 20 }}
+        transition={{ duration: 0.2 }}
+      >
+        <h2 className="text-xl font-bold text-[#1E293B]">
+          {t("staffPin.title")}
+        </h2>
+        {description && (
+          <p className="mt-2 text-sm font-medium text-center text-[#B45309]">
+            {description}
+          </p>
+        )}
+        <p className="mt-1 mb-5 text-sm text-center text-[#64748B]">{hint}</p>
+
+        <div className="flex gap-3 mb-3">
+          {Array.from({ length: PIN_LENGTH }).map((_, index) => (
+            <span
+              key={`pin-${index}`}
+              className={`w-4 h-4 rounded-full ${
+                index < pin.length ? "bg-[#4F46E5]" : "bg-[#E2E8F0]"
+              }`}
+            />
+          ))}
+        </div>
+
+        <p className="h-5 mb-4 text-sm font-medium text-[#DC2626]">
+          {lockRemaining > 0
+            ? t("staffPin.locked", {
+                minutes: Math.floor(lockRemaining / 60),
+                seconds: lockRemaining % 60,
+              })
+            : errorMessage}
+        </p>
+
+        <div className={isLocked ? "opacity-40" : ""}>
+          {keypadButtons.map((row, rowIndex) => (
+            <div
+              key={`row-${rowIndex}`}
+              className="flex justify-center gap-3.5 mb-2.5"
+            >
+              {row.map((key) => (
+                <motion.button
+                  key={`key-${key}`}
+                  className={`w-16 h-16 flex items-center justify-center rounded-lg ${
+                    key === "delete" || key === "clear"
+                      ? "bg-[#E2E8F0]"
+                      : "bg-[#F8FAFC]"
+                  }`}
+                  onClick={() => handleKeypadPress(key)}
+                  disabled={isLocked}
+                  whileTap={!isLocked ? { scale: 0.95 } : {}}
+                >
+                  <span className="text-[#1E293B] text-xl">
+                    {key === "delete" ? "←" : key === "clear" ? "C" : key}
+                  </span>
+                </motion.button>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <motion.button
+          className="w-full py-3 mt-3 text-base font-medium text-[#475569] bg-[#F1F5F9] rounded-xl"
+          onClick={onClose}
+          whileTap={{ scale: 0.98 }}
+        >
+          {t("staffPin.close")}
+        </motion.button>
+      </motion.div>
+    </motion.div>
+  );
+}
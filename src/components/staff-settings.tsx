@@ -0,0 +1,223 @@
+import React, { useCallback, useState } from "react";
+import { motion } from "framer-motion";
+import { useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import { KIOSK_FEATURES, type KioskFeature } from "@/constants/config";
+import type { MessageKey } from "@/libs/i18n";
+import { useConfigStore, type KioskConfigOverrides } from "@/stores/config";
+import DemoControls from "@/components/demo-controls";
+import useTranslation from "@/hooks/use-translation";
+
+const FEATURE_LABELS: Record<KioskFeature, MessageKey> = {
+  qrPayment: "staffSettings.featureLabels.qrPayment",
+  studentIdPayment: "staffSettings.featureLabels.studentIdPayment",
+  attractScreen: "staffSettings.featureLabels.attractScreen",
+  languagePicker: "staffSettings.featureLabels.languagePicker",
+};
+
+const parseNumber = (value: string) =>
+  value.trim() === "" ? undefined : Number(value);
+
+export default function StaffSettings(): React.ReactElement {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+  const { defaults, overrides, config, setOverrides, resetOverrides } =
+    useConfigStore();
+
+  const [apiUrl, setApiUrl] = useState(overrides.apiUrl ?? "");
+  const [wsUrl, setWsUrl] = useState(overrides.wsUrl ?? "");
+  const [paymentTimeout, setPaymentTimeout] = useState(
+    overrides.paymentTimeout?.toString() ?? ""
+  );
+  const [idleTimeout, setIdleTimeout] = useState(
+    overrides.idleTimeout?.toString() ?? ""
+  );
+  const [maxOrderQuantity, setMaxOrderQuantity] = useState(
+    overrides.maxOrderQuantity?.toString() ?? ""
+  );
+  const [features, setFeatures] = useState(config.features);
+  const [demoMode, setDemoMode] = useState(config.demoMode);
+
+  const handleToggleFeature = useCallback((feature: KioskFeature) => {
+    setFeatures((current) => ({ ...current, [feature]: !current[feature] }));
+  }, []);
+
+  const handleSave = useCallback(() => {
+    const changedFeatures = Object.fromEntries(
+      KIOSK_FEATURES.filter(
+        (feature) => features[feature] !== defaults.features[feature]
+      ).map((feature) => [feature, features[feature]])
+    );
+
+    const nextOverrides: KioskConfigOverrides = {
+      apiUrl: apiUrl.trim() || undefined,
+      wsUrl: wsUrl.trim() || undefined,
+      paymentTimeout: parseNumber(paymentTimeout),
+      idleTimeout: parseNumber(idleTimeout),
+      maxOrderQuantity: parseNumber(maxOrderQuantity),
+      demoMode: demoMode !== defaults.demoMode ? demoMode : undefined,
+      features: changedFeatures,
+    };
+
+    if (!setOverrides(nextOverrides)) {
+      toast.error(t("staffSettings.invalid"));
+      return;
+    }
+
+    setFeatures(useConfigStore.getState().config.features);
+    setDemoMode(useConfigStore.getState().config.demoMode);
+    queryClient.resetQueries();
+    toast.success(t("staffSettings.saved"));
+  }, [
+    apiUrl,
+    wsUrl,
+    paymentTimeout,
+    idleTimeout,
+    maxOrderQuantity,
+    features,
+    demoMode,
+    defaults,
+    setOverrides,
+    queryClient,
+    t,
+  ]);
+
+  const handleReset = useCallback(() => {
+    resetOverrides();
+    setApiUrl("");
+    setWsUrl("");
+    setPaymentTimeout("");
+    setIdleTimeout("");
+    setMaxOrderQuantity("");
+    setFeatures(defaults.features);
+    setDemoMode(defaults.demoMode);
+    queryClient.resetQueries();
+    toast.success(t("staffSettings.resetDone"));
+  }, [defaults, resetOverrides, queryClient, t]);
+
+  const inputClassName =
+    "w-full px-4 py-3 mb-4 text-base border border-[#E2E8F0] rounded-xl outline-none focus:border-[#4F46E5]";
+
+  return (
+    <div>
+      <h3 className="mb-2 text-base font-semibold text-[#1E293B]">
+        {t("staffSettings.apiUrl")}
+      </h3>
+      <input
+        type="url"
+        value={apiUrl}
+        onChange={(event) => setApiUrl(event.target.value)}
+        placeholder={defaults.apiUrl}
+        className={inputClassName}
+      />
+
+      <h3 className="mb-2 text-base font-semibold text-[#1E293B]">
+        {t("staffSettings.wsUrl")}
+      </h3>
+      <input
+        type="url"
+        value={wsUrl}
+        onChange={(event) => setWsUrl(event.target.value)}
+        placeholder={defaults.wsUrl ?? t("staffSettings.wsUrlPlaceholder")}
+        className={inputClassName}
+      />
+
+      <div className="flex gap-4">
+        <div className="flex-1">
+          <h3 className="mb-2 text-base font-semibold text-[#1E293B]">
+            {t("staffSettings.paymentTimeout")}
+          </h3>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={paymentTimeout}
+            onChange={(event) =>
+              setPaymentTimeout(event.target.value.replace(/\D/g, ""))
+            }
+            placeholder={String(defaults.paymentTimeout)}
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex-1">
+          <h3 className="mb-2 text-base font-semibold text-[#1E293B]">
+            {t("staffSettings.idleTimeout")}
+          </h3>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={idleTimeout}
+            onChange={(event) =>
+              setIdleTimeout(event.target.value.replace(/\D/g, ""))
+            }
+            placeholder={String(defaults.idleTimeout)}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <h3 className="mb-2 text-base font-semibold text-[#1E293B]">
+        {t("staffSettings.maxOrderQuantity")}
+      </h3>
+      <input
+        type="text"
+        inputMode="numeric"
+        value={maxOrderQuantity}
+        onChange={(event) =>
+          setMaxOrderQuantity(event.target.value.replace(/\D/g, ""))
+        }
+        placeholder={String(defaults.maxOrderQuantity)}
+        className={inputClassName}
+      />
+
+      <h3 className="mb-2 text-base font-semibold text-[#1E293B]">
+        {t("staffSettings.features")}
+      </h3>
+      <div className="grid grid-cols-2 gap-2 mb-6">
+        {KIOSK_FEATURES.map((feature) => (
+          <button
+            key={feature}
+            className={`px-4 py-3 text-base font-medium rounded-xl border ${
+              features[feature]
+                ? "text-[#4F46E5] bg-[#EEF2FF] border-[#C7D2FE]"
+                : "text-[#64748B] bg-[#FFFFFF] border-[#E2E8F0]"
+            }`}
+            onClick={() => handleToggleFeature(feature)}
+          >
+            {t(FEATURE_LABELS[feature])}{" "}
+            {t(features[feature] ? "staffSettings.on" : "staffSettings.off")}
+          </button>
+        ))}
+        <button
+          className={`px-4 py-3 text-base font-medium rounded-xl border ${
+            demoMode
+              ? "text-[#4F46E5] bg-[#EEF2FF] border-[#C7D2FE]"
+              : "text-[#64748B] bg-[#FFFFFF] border-[#E2E8F0]"
+          }`}
+          onClick={() => setDemoMode((current) => !current)}
+        >
+          {t("staffSettings.demoMode")}{" "}
+          {t(demoMode ? "staffSettings.on" : "staffSettings.off")}
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <motion.button
+          className="flex-1 py-3 text-base font-semibold text-[#4F46E5] border border-[#C7D2FE] rounded-xl"
+          onClick={handleReset}
+          whileTap={{ scale: 0.98 }}
+        >
+          {t("staffSettings.reset")}
+        </motion.button>
+        <motion.button
+          className="flex-1 py-3 text-base font-semibold text-[#FFFFFF] bg-[#4F46E5] rounded-xl"
+          onClick={handleSave}
+          whileTap={{ scale: 0.98 }}
+        >
+          {t("staffSettings.save")}
+        </motion.button>
+      </div>
+
+      {config.demoMode && <DemoControls />}
+    </div>
+  );
+}
@@ -1 +0,0 @@
-export const API_URL = "https://flickplaceapi.proxia.kr";
@@ -0,0 +1,63 @@
+export interface KioskFeatures {
+  qrPayment: boolean;
+  studentIdPayment: boolean;
+  attractScreen: boolean;
+  languagePicker: boolean;
+}
+
+export type KioskFeature = keyof KioskFeatures;
+
+export interface KioskConfig {
+  apiUrl: string;
+  wsUrl: string | null;
+  paymentTimeout: number;
+  idleTimeout: number;
+  maxOrderQuantity: number;
+  demoMode: boolean;
+  features: KioskFeatures;
+}
+
+export const KIOSK_FEATURES: KioskFeature[] = [
+  "qrPayment",
+  "studentIdPayment",
+  "attractScreen",
+  "languagePicker",
+];
+
+const DEFAULT_API_URL = "https://flickplaceapi.proxia.kr";
+const DEFAULT_PAYMENT_TIMEOUT = 900;
+const DEFAULT_IDLE_TIMEOUT = 60;
+const DEFAULT_MAX_ORDER_QUANTITY = 20;
+
+const parsePositive = (value: string | undefined, fallback: number) => {
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : fallback;
+};
+
+const disabledFeatures = (import.meta.env.VITE_DISABLED_FEATURES ?? "")
+  .split(",")
+  .map((feature) => feature.trim());
+
+export const BUILD_CONFIG: KioskConfig = {
+  apiUrl: import.meta.env.VITE_API_URL || DEFAULT_API_URL,
+  wsUrl: import.meta.env.VITE_WS_URL || null,
+  paymentTimeout: parsePositive(
+    import.meta.env.VITE_PAYMENT_TIMEOUT,
+    DEFAULT_PAYMENT_TIMEOUT
+  ),
+  idleTimeout: parsePositive(
+    import.meta.env.VITE_IDLE_TIMEOUT,
+    DEFAULT_IDLE_TIMEOUT
+  ),
+  maxOrderQuantity: parsePositive(
+    import.meta.env.VITE_MAX_ORDER_QUANTITY,
+    DEFAULT_MAX_ORDER_QUANTITY
+  ),
+  demoMode: import.meta.env.VITE_DEMO_MODE === "true",
+  features: {
+    qrPayment: !disabledFeatures.includes("qrPayment"),
+    studentIdPayment: !disabledFeatures.includes("studentIdPayment"),
+    attractScreen: !disabledFeatures.includes("attractScreen"),
+    languagePicker: !disabledFeatures.includes("languagePicker"),
+  },
+};
@@ -0,0 +1,130 @@
+import type { MessageKey } from "../libs/i18n";
+
+export type ErrorSeverity = "info" | "warning" | "error";
+
+export type ErrorAction =
+  | "RETRY"
+  | "FIX_INPUT"
+  | "REFRESH_PRODUCTS"
+  | "BACK_TO_PRODUCTS"
+  | "CONTACT_STAFF";
+
+export interface ErrorDefinition {
+  message: MessageKey;
+  severity: ErrorSeverity;
+  action: ErrorAction;
+}
+
+export const ERROR_CODES = {
+  INSUFFICIENT_STOCK: {
+    message: "errors.INSUFFICIENT_STOCK",
+    severity: "warning",
+    action: "REFRESH_PRODUCTS",
+  },
+  PRODUCT_NOT_FOUND: {
+    message: "errors.PRODUCT_NOT_FOUND",
+    severity: "warning",
+    action: "REFRESH_PRODUCTS",
+  },
+  PRODUCT_UNAVAILABLE: {
+    message: "errors.PRODUCT_UNAVAILABLE",
+    severity: "warning",
+    action: "REFRESH_PRODUCTS",
+  },
+  ORDER_NOT_FOUND: {
+    message: "errors.ORDER_NOT_FOUND",
+    severity: "error",
+    action: "BACK_TO_PRODUCTS",
+  },
+  ORDER_NOT_PENDING: {
+    message: "errors.ORDER_NOT_PENDING",
+    severity: "warning",
+    action: "BACK_TO_PRODUCTS",
+  },
+  COUPON_NOT_FOUND: {
+    message: "errors.COUPON_NOT_FOUND",
+    severity: "warning",
+    action: "FIX_INPUT",
+  },
+  PROMOTION_CHANGED: {
+    message: "errors.PROMOTION_CHANGED",
+    severity: "warning",
+    action: "REFRESH_PRODUCTS",
+  },
+  PURCHASE_LIMIT_EXCEEDED: {
+    message: "errors.PURCHASE_LIMIT_EXCEEDED",
+    severity: "warning",
+    action: "REFRESH_PRODUCTS",
+  },
+  DAILY_LIMIT_EXCEEDED: {
+    message: "errors.DAILY_LIMIT_EXCEEDED",
+    severity: "warning",
+    action: "BACK_TO_PRODUCTS",
+  },
+  STAFF_CONFIRMATION_REQUIRED: {
+    message: "errors.STAFF_CONFIRMATION_REQUIRED",
+    severity: "warning",
+    action: "CONTACT_STAFF",
+  },
+  USER_NOT_FOUND: {
+    message: "errors.USER_NOT_FOUND",
+    severity: "warning",
+    action: "FIX_INPUT",
+  },
+  BOOTH_NOT_FOUND: {
+    message: "errors.BOOTH_NOT_FOUND",
+    severity: "error",
+    action: "CONTACT_STAFF",
+  },
+  BOOTH_NOT_APPROVED: {
+    message: "errors.BOOTH_NOT_APPROVED",
+    severity: "error",
+    action: "CONTACT_STAFF",
+  },
+  BOOTH_REJECTED: {
+    message: "errors.BOOTH_REJECTED",
+    severity: "error",
+    action: "CONTACT_STAFF",
+  },
+  BOOTH_INACTIVE: {
+    message: "errors.BOOTH_INACTIVE",
+    severity: "error",
+    action: "CONTACT_STAFF",
+  },
+  BOOTH_PASSWORD_NOT_MATCH: {
+    message: "errors.BOOTH_PASSWORD_NOT_MATCH",
+    severity: "warning",
+    action: "FIX_INPUT",
+  },
+  INVALID_REQUEST: {
+    message: "errors.INVALID_REQUEST",
+    severity: "error",
+    action: "CONTACT_STAFF",
+  },
+  INVALID_RESPONSE: {
+    message: "errors.INVALID_RESPONSE",
+    severity: "error",
+    action: "CONTACT_STAFF",
+  },
+  NETWORK_ERROR: {
+    message: "errors.NETWORK_ERROR",
+    severity: "error",
+    action: "RETRY",
+  },
+  TIMEOUT: {
+    message: "errors.TIMEOUT",
+    severity: "warning",
+    action: "RETRY",
+  },
+  UNKNOWN: {
+    message: "errors.UNKNOWN",
+    severity: "error",
+    action: "RETRY",
+  },
+} satisfies Record<string, ErrorDefinition>;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+export const isErrorCode = (code: unknown): code is ErrorCode =>
+  typeof code === "string" &&
+  Object.prototype.hasOwnProperty.call(ERROR_CODES, code);
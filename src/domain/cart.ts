@@ -0,0 +1,200 @@
+import type { CreateOrderItemRequest } from "@/types/order";
+import type { SelectedComponent, SelectedOption } from "@/types/product";
+
+export interface CartItem {
+  key: string;
+  id: number;
+  name: string;
+  basePrice: number;
+  price: number;
+  options: SelectedOption[];
+  components?: SelectedComponent[];
+  quantity: number;
+}
+
+export interface CartProduct {
+  id: number;
+  name: string;
+  price: number;
+}
+
+export interface LineUnit {
+  productId: number;
+  quantity: number;
+}
+
+interface StockLine {
+  id: number;
+  components?: LineUnit[] | null;
+}
+
+export const getCartItemKey = (
+  id: number,
+  options: SelectedOption[] = [],
+  components: SelectedComponent[] = []
+) =>
+  [
+    [
+      id,
+      ...[...options]
+        .sort((a, b) => a.groupId - b.groupId || a.optionId - b.optionId)
+        .map((option) => `${option.groupId}.${option.optionId}`),
+    ].join(":"),
+    ...components.map(
+      (component) => `${component.slotId}=${component.productId}`
+    ),
+  ].join("|");
+
+export const getUnitPrice = (
+  basePrice: number,
+  options: SelectedOption[] = [],
+  components: SelectedComponent[] = []
+): number =>
+  basePrice +
+  options.reduce((sum, option) => sum + option.priceDelta, 0) +
+  components.reduce((sum, component) => sum + component.priceDelta, 0);
+
+export const getLineTotal = (item: Pick<CartItem, "price" | "quantity">) =>
+  item.price * item.quantity;
+
+export const getCartTotal = (items: CartItem[]): number =>
+  items.reduce((total, item) => total + getLineTotal(item), 0);
+
+export const getCartItemCount = (items: CartItem[]): number =>
+  items.reduce((total, item) => total + item.quantity, 0);
+
+export const getProductQuantity = (items: CartItem[], id: number): number =>
+  items
+    .filter((item) => item.id === id)
+    .reduce((total, item) => total + item.quantity, 0);
+
+// A set takes stock from its components only; anything else from itself.
+export const getLineUnits = (item: StockLine): LineUnit[] =>
+  item.components && item.components.length > 0
+    ? item.components.map((component) => ({
+        productId: component.productId,
+        quantity: component.quantity,
+      }))
+    : [{ productId: item.id, quantity: 1 }];
+
+export const getUnitUsage = (item: StockLine, productId: number): number =>
+  getLineUnits(item)
+    .filter((unit) => unit.productId === productId)
+    .reduce((total, unit) => total + unit.quantity, 0);
+
+export const getStockUsage = (items: CartItem[], productId: number): number =>
+  items.reduce(
+    (total, item) => total + getUnitUsage(item, productId) * item.quantity,
+    0
+  );
+
+// Units of a product one unit of the line buys: the product itself, or the
+// times it comes in a set.
+export const getPurchaseUsage = (item: StockLine, productId: number): number =>
+  item.id === productId ? 1 : getUnitUsage(item, productId);
+
+export const getPurchasedQuantity = (
+  items: CartItem[],
+  productId: number
+): number =>
+  items.reduce(
+    (total, item) => total + getPurchaseUsage(item, productId) * item.quantity,
+    0
+  );
+
+// Set components and options of a cart line or an order item, as shown
+// under its name in the cart, on receipts and in the kitchen.
+export const getItemDetails = (item: {
+  options?: { optionName: string }[] | null;
+  components?: { productName: string; quantity: number }[] | null;
+}): string[] => [
+  ...(item.components ?? []).map((component) =>
+    component.quantity > 1
+      ? `${component.productName} x${component.quantity}`
+      : component.productName
+  ),
+  ...(item.options ?? []).map((option) => option.optionName),
+];
+
+export const addToCart = (
+  items: CartItem[],
+  product: CartProduct,
+  options: SelectedOption[] = [],
+  components: SelectedComponent[] = []
+): CartItem[] => {
+  const key = getCartItemKey(product.id, options, components);
+
+  if (items.some((item) => item.key === key)) {
+    return items.map((item) =>
+      item.key === key ? { ...item, quantity: item.quantity + 1 } : item
+    );
+  }
+
+  return [
+    ...items,
+    {
+      key,
+      id: product.id,
+      name: product.name,
+      basePrice: product.price,
+      price: getUnitPrice(product.price, options, components),
+      options,
+      ...(components.length > 0 && { components }),
+      quantity: 1,
+    },
+  ];
+};
+
+export const setCartItemQuantity = (
+  items: CartItem[],
+  key: string,
+  quantity: number
+): CartItem[] => {
+  if (quantity <= 0) {
+    return items.filter((item) => item.key !== key);
+  }
+
+  return items.map((item) => (item.key === key ? { ...item, quantity } : item));
+};
+
+// Lines keep their order; the earliest ones keep their quantity and later
+// lines using the same product, sets included, are trimmed or dropped first.
+export const clampProductQuantity = (
+  items: CartItem[],
+  id: number,
+  max: number
+): { items: CartItem[]; changed: boolean } => {
+  let remaining = Math.max(0, max);
+  let changed = false;
+
+  const clamped = items.flatMap((item) => {
+    const perUnit = getPurchaseUsage(item, id);
+    if (perUnit === 0) return [item];
+
+    const quantity = Math.min(item.quantity, Math.floor(remaining / perUnit));
+    remaining -= quantity * perUnit;
+
+    if (quantity !== item.quantity) changed = true;
+    return quantity > 0 ? [{ ...item, quantity }] : [];
+  });
+
+  return { items: changed ? clamped : items, changed };
+};
+
+export const toOrderItems = (items: CartItem[]): CreateOrderItemRequest[] =>
+  items.map((item) => ({
+    productId: item.id,
+    quantity: item.quantity,
+    options: item.options.map((option) => ({
+      groupId: option.groupId,
+      optionId: option.optionId,
+    })),
+    ...(item.components && {
+      components: item.components.map((component) => ({
+        slotId: component.slotId,
+        productId: component.productId,
+      })),
+    }),
+    unitPrice: item.price,
+    linePrice: getLineTotal(item),
+  }));
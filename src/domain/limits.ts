@@ -0,0 +1,75 @@
+import type { ProductResponse } from "@/types/product";
+import {
+  getCartItemCount,
+  getLineUnits,
+  getPurchaseUsage,
+  getPurchasedQuantity,
+  type CartItem,
+} from "./cart";
+
+type LimitedProduct = Pick<
+  ProductResponse,
+  "id" | "name" | "maxPerOrder" | "dailyLimitPerStudent"
+>;
+
+type PurchaseLine = Pick<CartItem, "id" | "components">;
+
+export type LimitViolation =
+  | { type: "PRODUCT_LIMIT"; productName: string; limit: number }
+  | { type: "ORDER_LIMIT"; limit: number };
+
+// The product itself and, for a set, every component it is made of.
+const getLineProductIds = (line: PurchaseLine): number[] => [
+  ...new Set([line.id, ...getLineUnits(line).map((unit) => unit.productId)]),
+];
+
+export const requiresStaffConfirmation = (
+  items: PurchaseLine[],
+  catalog: Pick<ProductResponse, "id" | "requiresStaffConfirmation">[]
+): boolean =>
+  items.some((item) =>
+    getLineProductIds(item).some(
+      (productId) =>
+        catalog.find((product) => product.id === productId)
+          ?.requiresStaffConfirmation
+    )
+  );
+
+export const getStudentLimitedProducts = <T extends LimitedProduct>(
+  items: PurchaseLine[],
+  catalog: T[]
+): T[] =>
+  catalog.filter(
+    (product) =>
+      product.dailyLimitPerStudent != null &&
+      items.some((item) => getLineProductIds(item).includes(product.id))
+  );
+
+export const checkPurchaseLimit = (
+  line: PurchaseLine,
+  items: CartItem[],
+  catalog: LimitedProduct[],
+  added: number,
+  maxOrderQuantity: number
+): LimitViolation | null => {
+  if (added <= 0) return null;
+
+  if (getCartItemCount(items) + added > maxOrderQuantity) {
+    return { type: "ORDER_LIMIT", limit: maxOrderQuantity };
+  }
+
+  for (const productId of getLineProductIds(line)) {
+    const product = catalog.find((p) => p.id === productId);
+    const limit = product?.maxPerOrder;
+    if (
+      product &&
+      limit != null &&
+      getPurchasedQuantity(items, productId) +
+        added * getPurchaseUsage(line, productId) >
+        limit
+    ) {
+      return { type: "PRODUCT_LIMIT", productName: product.name, limit };
+    }
+  }
+  return null;
+};
@@ -0,0 +1,223 @@
+import type { CreateOrderRequest } from "@/types/order";
+import type { BundlePromotion, PromotionResponse } from "@/types/promotion";
+import {
+  getCartTotal,
+  getLineTotal,
+  toOrderItems,
+  type CartItem,
+} from "./cart";
+
+export interface AppliedDiscount {
+  promotionId: number;
+  name: string;
+  amount: number;
+}
+
+export interface LinePricing {
+  key: string;
+  subtotal: number;
+  discount: AppliedDiscount | null;
+  total: number;
+}
+
+export interface CartPricing {
+  lines: LinePricing[];
+  subtotal: number;
+  lineDiscount: number;
+  orderDiscount: AppliedDiscount | null;
+  discountTotal: number;
+  total: number;
+  promotionIds: number[];
+}
+
+export interface PricingContext {
+  now?: Date;
+  couponCode?: string | null;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+// Windows are [start, end) in local time; an end before the start runs past
+// midnight, so "22:00"-"02:00" covers late night.
+export const isWithinTimeWindow = (
+  startTime: string,
+  endTime: string,
+  now: Date
+): boolean => {
+  const start = toMinutes(startTime);
+  const end = toMinutes(endTime);
+  const current = (now.getHours() * 60 + now.getMinutes()) % MINUTES_PER_DAY;
+
+  if (start === end) return true;
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+};
+
+export const isPromotionActive = (
+  promotion: PromotionResponse,
+  { now = new Date(), couponCode = null }: PricingContext = {}
+): boolean => {
+  if (promotion.code && promotion.code !== couponCode) return false;
+  if (promotion.type === "TIME_WINDOW") {
+    return isWithinTimeWindow(promotion.startTime, promotion.endTime, now);
+  }
+  return true;
+};
+
+// Bundles and product-scoped rules discount individual lines; the rest
+// discount the order as a whole.
+export const isLinePromotion = (promotion: PromotionResponse): boolean =>
+  promotion.type === "BUNDLE" || (promotion.productIds?.length ?? 0) > 0;
+
+const appliesToProduct = (promotion: PromotionResponse, productId: number) =>
+  !promotion.productIds?.length || promotion.productIds.includes(productId);
+
+const percentOf = (amount: number, percentOff: number) =>
+  Math.floor((amount * Math.min(100, Math.max(0, percentOff))) / 100);
+
+// A bundle counts every unit of a product, even when options split it over
+// several lines, and hands its free units to the cheapest of those lines first.
+const getBundleFreeUnits = (
+  promotion: BundlePromotion,
+  item: CartItem,
+  items: CartItem[]
+): number => {
+  const lines = items
+    .filter((line) => line.id === item.id)
+    .sort((a, b) => a.price - b.price);
+  const quantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+  let free =
+    Math.floor(quantity / promotion.buyQuantity) *
+    Math.max(0, promotion.buyQuantity - promotion.payQuantity);
+
+  for (const line of lines) {
+    const units = Math.min(free, line.quantity);
+    if (line.key === item.key) return units;
+    free -= units;
+  }
+  return 0;
+};
+
+export const getLineDiscount = (
+  promotion: PromotionResponse,
+  item: CartItem,
+  items: CartItem[] = [item]
+): number => {
+  if (!appliesToProduct(promotion, item.id)) return 0;
+
+  switch (promotion.type) {
+    case "BUNDLE":
+      return getBundleFreeUnits(promotion, item, items) * item.price;
+    case "TIME_WINDOW":
+    case "PERCENTAGE":
+      return percentOf(getLineTotal(item), promotion.percentOff);
+    case "FIXED":
+      return Math.min(promotion.amountOff, item.price) * item.quantity;
+  }
+};
+
+export const getOrderDiscount = (
+  promotion: PromotionResponse,
+  amount: number
+): number => {
+  switch (promotion.type) {
+    case "BUNDLE":
+      return 0;
+    case "TIME_WINDOW":
+    case "PERCENTAGE":
+      return percentOf(amount, promotion.percentOff);
+    case "FIXED":
+      return Math.min(promotion.amountOff, amount);
+  }
+};
+
+const pickBest = (
+  promotions: PromotionResponse[],
+  getAmount: (promotion: PromotionResponse) => number
+): AppliedDiscount | null =>
+  promotions.reduce<AppliedDiscount | null>((best, promotion) => {
+    const amount = getAmount(promotion);
+    if (amount <= 0 || (best && best.amount >= amount)) return best;
+    return { promotionId: promotion.id, name: promotion.name, amount };
+  }, null);
+
+// Discounts never stack: each line takes its single best line promotion and
+// the order takes its single best order promotion on what is left.
+export const priceCart = (
+  items: CartItem[],
+  promotions: PromotionResponse[],
+  context: PricingContext = {}
+): CartPricing => {
+  const subtotal = getCartTotal(items);
+  const eligible = promotions.filter(
+    (promotion) =>
+      isPromotionActive(promotion, context) &&
+      subtotal >= (promotion.minOrderAmount ?? 0)
+  );
+  const linePromotions = eligible.filter(isLinePromotion);
+  const orderPromotions = eligible.filter(
+    (promotion) => !isLinePromotion(promotion)
+  );
+
+  const lines = items.map((item): LinePricing => {
+    const lineSubtotal = getLineTotal(item);
+    const discount = pickBest(linePromotions, (promotion) =>
+      Math.min(lineSubtotal, getLineDiscount(promotion, item, items))
+    );
+    return {
+      key: item.key,
+      subtotal: lineSubtotal,
+      discount,
+      total: lineSubtotal - (discount?.amount ?? 0),
+    };
+  });
+
+  const lineDiscount = lines.reduce(
+    (sum, line) => sum + (line.discount?.amount ?? 0),
+    0
+  );
+  const afterLines = subtotal - lineDiscount;
+  const orderDiscount = pickBest(orderPromotions, (promotion) =>
+    Math.min(afterLines, getOrderDiscount(promotion, afterLines))
+  );
+  const discountTotal = lineDiscount + (orderDiscount?.amount ?? 0);
+
+  const applied = [
+    ...lines.flatMap((line) => (line.discount ? [line.discount] : [])),
+    ...(orderDiscount ? [orderDiscount] : []),
+  ];
+
+  return {
+    lines,
+    subtotal,
+    lineDiscount,
+    orderDiscount,
+    discountTotal,
+    total: subtotal - discountTotal,
+    promotionIds: [...new Set(applied.map((discount) => discount.promotionId))],
+  };
+};
+
+export const toOrderRequest = (
+  items: CartItem[],
+  pricing: CartPricing,
+  couponCode: string | null = null
+): CreateOrderRequest => ({
+  items: toOrderItems(items).map((item, index) => {
+    const discount = pricing.lines[index]?.discount;
+    return discount ? { ...item, discountAmount: discount.amount } : item;
+  }),
+  ...(pricing.discountTotal > 0 && {
+    discount: {
+      promotionIds: pricing.promotionIds,
+      couponCode,
+      amount: pricing.discountTotal,
+    },
+  }),
+});
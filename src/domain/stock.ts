@@ -0,0 +1,166 @@
+import type {
+  ProductComponentResponse,
+  ProductResponse,
+  SelectedComponent,
+} from "@/types/product";
+import {
+  getLineUnits,
+  getStockUsage,
+  getUnitUsage,
+  type CartItem,
+} from "./cart";
+
+type StockedProduct = Pick<ProductResponse, "id" | "status" | "stock">;
+
+type SetProduct = StockedProduct & Pick<ProductResponse, "components">;
+
+export type StockViolation = "SOLD_OUT" | "INSUFFICIENT_STOCK";
+
+export const isSetProduct = (product: SetProduct): boolean =>
+  (product.components?.length ?? 0) > 0;
+
+export const isSoldOut = (product: StockedProduct): boolean =>
+  product.status === "SOLD_OUT" || product.stock <= 0;
+
+// Hidden and sold-out products cannot be kept in a cart at all.
+export const getAvailableStock = (product: StockedProduct): number =>
+  product.status === "AVAILABLE" ? Math.max(0, product.stock) : 0;
+
+const getCatalogStock = (productId: number, catalog: StockedProduct[]) => {
+  const product = catalog.find((p) => p.id === productId);
+  return product ? getAvailableStock(product) : 0;
+};
+
+const getComponentStock = (
+  productId: number,
+  catalog: StockedProduct[],
+  items: CartItem[]
+): number =>
+  Math.max(
+    0,
+    getCatalogStock(productId, catalog) - getStockUsage(items, productId)
+  );
+
+export const getSlotChoices = (slot: ProductComponentResponse): number[] => [
+  slot.productId,
+  ...(slot.swaps ?? []).map((swap) => swap.productId),
+];
+
+// How many more sets can be made when every slot takes its best stocked
+// choice. A slot with no stocked choice left sells the set out.
+export const getSetStock = (
+  set: SetProduct,
+  catalog: StockedProduct[],
+  items: CartItem[] = []
+): number =>
+  Math.min(
+    ...(set.components ?? []).map((slot) =>
+      Math.max(
+        ...getSlotChoices(slot).map((productId) =>
+          Math.floor(
+            getComponentStock(productId, catalog, items) / slot.quantity
+          )
+        )
+      )
+    )
+  );
+
+export const resolveSetProducts = <T extends SetProduct>(products: T[]): T[] =>
+  products.map((product) => {
+    if (!isSetProduct(product)) return product;
+
+    const stock = getSetStock(product, products);
+    return {
+      ...product,
+      stock,
+      status:
+        product.status === "AVAILABLE" && stock <= 0
+          ? "SOLD_OUT"
+          : product.status,
+    };
+  });
+
+export const getDefaultComponents = <
+  T extends StockedProduct & Pick<ProductResponse, "name">,
+>(
+  set: SetProduct,
+  catalog: T[],
+  items: CartItem[] = []
+): SelectedComponent[] =>
+  (set.components ?? []).map((slot) => {
+    const productId =
+      getSlotChoices(slot).find(
+        (choice) => getComponentStock(choice, catalog, items) >= slot.quantity
+      ) ?? slot.productId;
+
+    return {
+      slotId: slot.id,
+      slotName: slot.name,
+      productId,
+      productName: catalog.find((p) => p.id === productId)?.name ?? "",
+      quantity: slot.quantity,
+      priceDelta:
+        slot.swaps?.find((swap) => swap.productId === productId)?.priceDelta ??
+        0,
+    };
+  });
+
+export const getRemainingStock = (
+  product: SetProduct,
+  items: CartItem[],
+  catalog: StockedProduct[] = [product]
+): number => {
+  if (!isSetProduct(product)) {
+    return getComponentStock(product.id, [product], items);
+  }
+  return getAvailableStock(product) > 0
+    ? getSetStock(product, catalog, items)
+    : 0;
+};
+
+export const checkAddToCart = (
+  product: SetProduct,
+  items: CartItem[],
+  catalog: StockedProduct[] = [product],
+  components: SelectedComponent[] = []
+): StockViolation | null => {
+  if (isSoldOut(product)) return "SOLD_OUT";
+
+  if (components.length > 0) {
+    const line = { id: product.id, components };
+    const shortage = getLineUnits(line).some(
+      ({ productId }) =>
+        getComponentStock(productId, catalog, items) <
+        getUnitUsage(line, productId)
+    );
+    return shortage ? "INSUFFICIENT_STOCK" : null;
+  }
+
+  if (getRemainingStock(product, items, catalog) <= 0) {
+    return "INSUFFICIENT_STOCK";
+  }
+  return null;
+};
+
+export const checkQuantityChange = (
+  product: SetProduct,
+  items: CartItem[],
+  key: string,
+  quantity: number,
+  catalog: StockedProduct[] = [product]
+): StockViolation | null => {
+  if (quantity <= 0) return null;
+
+  const item = items.find((cartItem) => cartItem.key === key);
+  if (!item || quantity <= item.quantity) return null;
+  if (getAvailableStock(product) <= 0) return "INSUFFICIENT_STOCK";
+
+  const added = quantity - item.quantity;
+  return getLineUnits(item).some(
+    ({ productId }) =>
+      getStockUsage(items, productId) + added * getUnitUsage(item, productId) >
+      getCatalogStock(productId, catalog)
+  )
+    ? "INSUFFICIENT_STOCK"
+    : null;
+};
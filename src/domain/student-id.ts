@@ -0,0 +1,35 @@
+export const STUDENT_ID_LENGTH = 4;
+
+export interface StudentId {
+  grade: number;
+  room: number;
+  number: number;
+}
+
+// Student ids are written as grade, room and a two-digit number: "2315" is
+// grade 2, room 3, number 15.
+export const parseStudentId = (value: string): StudentId | null => {
+  if (!new RegExp(`^\\d{${STUDENT_ID_LENGTH}}$`).test(value)) return null;
+
+  const grade = Number(value[0]);
+  const room = Number(value[1]);
+  const number = Number(value.substring(2));
+
+  if (grade < 1 || room < 1 || number < 1) return null;
+  return { grade, room, number };
+};
+
+export const isValidStudentId = (value: string): boolean =>
+  parseStudentId(value) !== null;
+
+export const formatStudentId = ({ grade, room, number }: StudentId): string =>
+  `${grade}${room}${number.toString().padStart(2, "0")}`;
+
+export type StudentIdKey = "delete" | "clear" | string;
+
+export const applyStudentIdKey = (value: string, key: StudentIdKey): string => {
+  if (key === "delete") return value.slice(0, -1);
+  if (key === "clear") return "";
+  if (!/^\d$/.test(key) || value.length >= STUDENT_ID_LENGTH) return value;
+  return value + key;
+};
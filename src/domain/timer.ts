@@ -0,0 +1,32 @@
+export const getSecondsUntil = (
+  expiresAt: string,
+  now: number = Date.now()
+): number =>
+  Math.max(0, Math.floor((new Date(expiresAt).getTime() - now) / 1000));
+
+// The local countdown never runs past the server's deadline, but a server
+// deadline further out does not extend it either.
+export const clampToDeadline = (
+  timer: number,
+  expiresAt: string | null,
+  now: number = Date.now()
+): number =>
+  expiresAt ? Math.min(timer, getSecondsUntil(expiresAt, now)) : timer;
+
+// The YYYY-MM-DD day the kiosk is running in, as the order endpoints expect.
+export const getLocalDateString = (now: Date = new Date()): string => {
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const day = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+};
+
+export const tickTimer = (timer: number): number => Math.max(0, timer - 1);
+
+export const formatCountdown = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const mins = Math.floor(total / 60);
+  const secs = total % 60;
+  return `${mins.toString().padStart(2, "0")}:${secs
+    .toString()
+    .padStart(2, "0")}`;
+};
@@ -0,0 +1,44 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { priceCart, type CartPricing } from "@/domain/promotions";
+import { fetchActivePromotions } from "@/libs/endpoints";
+import { useAuthStore } from "@/stores/auth";
+import { useCartStore } from "@/stores/cart";
+
+export const PROMOTIONS_QUERY_KEY = ["promotions"];
+
+// Time-window promotions start and end on the minute, so prices are
+// re-evaluated often enough to follow them while the cart is open.
+const CLOCK_INTERVAL = 1000 * 30;
+
+export default function useCartPricing(): CartPricing {
+  const { token } = useAuthStore();
+  const { items, coupon } = useCartStore();
+  const [now, setNow] = useState(() => Date.now());
+
+  const { data: promotions } = useQuery({
+    queryKey: PROMOTIONS_QUERY_KEY,
+    queryFn: fetchActivePromotions,
+    enabled: !!token,
+    staleTime: 1000 * 60 * 5,
+    retry: 1,
+  });
+
+  useEffect(() => {
+    const interval = window.setInterval(
+      () => setNow(Date.now()),
+      CLOCK_INTERVAL
+    );
+    return () => clearInterval(interval);
+  }, []);
+
+  return useMemo(
+    () =>
+      priceCart(
+        items,
+        coupon ? [...(promotions ?? []), coupon] : (promotions ?? []),
+        { now: new Date(now), couponCode: coupon?.code ?? null }
+      ),
+    [items, coupon, promotions, now]
+  );
+}
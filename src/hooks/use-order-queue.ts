@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getLocalDateString } from "@/domain/timer";
+import { fetchOrders } from "@/libs/endpoints";
+import type { RealtimeStatus } from "@/libs/realtime";
+import {
+  orderUpdateMessageSchema,
+  type OrderUpdateMessage,
+} from "@/libs/realtime-channels";
+import { useAuthStore } from "@/stores/auth";
+import type { OrderResponse } from "@/types/order";
+import useRealtime from "@/hooks/use-realtime";
+
+const ORDER_QUEUE_QUERY_KEY = ["order-queue"];
+const FALLBACK_REFETCH_INTERVAL = 10000;
+
+interface UseOrderQueueResult {
+  orders: OrderResponse[];
+  isLoading: boolean;
+  isError: boolean;
+  realtimeStatus: RealtimeStatus;
+  refetch: () => void;
+  updateOrder: (order: OrderResponse) => void;
+}
+
+const isQueued = (order: OrderResponse) =>
+  order.status === "PAID" && order.fulfillmentStatus !== "PICKED_UP";
+
+export default function useOrderQueue(
+  onOrderUpdated?: (order: OrderResponse, previous?: OrderResponse) => void
+): UseOrderQueueResult {
+  const queryClient = useQueryClient();
+  const { token } = useAuthStore();
+
+  const updateOrder = useCallback(
+    (order: OrderResponse) => {
+      queryClient.setQueryData<OrderResponse[]>(
+        ORDER_QUEUE_QUERY_KEY,
+        (old) => {
+          if (!old) return old;
+
+          const rest = old.filter((o) => o.id !== order.id);
+          return isQueued(order) ? [...rest, order] : rest;
+        }
+      );
+    },
+    [queryClient]
+  );
+
+  const handleOrderMessage = useCallback(
+    (order: OrderUpdateMessage) => {
+      updateOrder(order);
+    },
+    [updateOrder]
+  );
+
+  const { status: realtimeStatus } = useRealtime({
+    path: token ? `/ws/kiosks/orders?token=${encodeURIComponent(token)}` : null,
+    schema: orderUpdateMessageSchema,
+    onMessage: handleOrderMessage,
+  });
+
+  const { data, isLoading, isError, refetch } = useQuery({
+    queryKey: ORDER_QUEUE_QUERY_KEY,
+    // Only today's orders, so unclaimed ones from earlier days don't pile up.
+    queryFn: () => fetchOrders({ status: "PAID", date: getLocalDateString() }),
+    refetchInterval:
+      realtimeStatus === "CONNECTED" ? false : FALLBACK_REFETCH_INTERVAL,
+  });
+
+  useEffect(() => {
+    if (realtimeStatus === "CONNECTED") {
+      queryClient.invalidateQueries({ queryKey: ORDER_QUEUE_QUERY_KEY });
+    }
+  }, [realtimeStatus, queryClient]);
+
+  // Realtime messages and fallback refetches both land in the query data, so
+  // changes are reported from there, once, whichever path delivered them.
+  // Structural sharing keeps unchanged orders referentially equal.
+  const knownOrdersRef = useRef<Map<number, OrderResponse> | null>(null);
+  useEffect(() => {
+    if (!data) return;
+
+    const known = knownOrdersRef.current;
+    knownOrdersRef.current = new Map(data.map((order) => [order.id, order]));
+    if (!known) return;
+
+    data.forEach((order) => {
+      const previous = known.get(order.id);
+      if (previous !== order) {
+        onOrderUpdated?.(order, previous);
+      }
+    });
+  }, [data, onOrderUpdated]);
+
+  const orders = useMemo(
+    () =>
+      (data ?? [])
+        .filter(isQueued)
+        .sort(
+          (a, b) =>
+            new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+        ),
+    [data]
+  );
+
+  return {
+    orders,
+    isLoading,
+    isError,
+    realtimeStatus,
+    refetch,
+    updateOrder,
+  };
+}
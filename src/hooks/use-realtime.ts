@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { z } from "zod";
+import {
+  createRealtimeClient,
+  type RealtimeClient,
+  type RealtimeClientOptions,
+  type RealtimeStatus,
+} from "@/libs/realtime";
+
+interface UseRealtimeOptions<TSchema extends z.ZodTypeAny> extends Omit<
+  RealtimeClientOptions<TSchema>,
+  "path" | "onStatusChange"
+> {
+  path: string | null;
+  subscriptions?: unknown[];
+}
+
+interface UseRealtimeResult {
+  status: RealtimeStatus;
+  reconnect: () => void;
+  send: (message: unknown) => boolean;
+}
+
+export default function useRealtime<TSchema extends z.ZodTypeAny>({
+  path,
+  schema,
+  onMessage,
+  subscriptions,
+  ...clientOptions
+}: UseRealtimeOptions<TSchema>): UseRealtimeResult {
+  const [status, setStatus] = useState<RealtimeStatus>("DISCONNECTED");
+  const clientRef = useRef<RealtimeClient | null>(null);
+  const onMessageRef = useRef(onMessage);
+  const clientOptionsRef = useRef(clientOptions);
+  const serializedSubscriptions = JSON.stringify(subscriptions ?? []);
+
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  }, [onMessage]);
+
+  useEffect(() => {
+    if (!path) {
+      setStatus("DISCONNECTED");
+      return;
+    }
+
+    const client = createRealtimeClient({
+      ...clientOptionsRef.current,
+      path,
+      schema,
+      onMessage: (message) => onMessageRef.current(message),
+      onStatusChange: setStatus,
+    });
+
+    clientRef.current = client;
+    client.connect();
+
+    return () => {
+      client.disconnect();
+      if (clientRef.current === client) {
+        clientRef.current = null;
+      }
+    };
+  }, [path, schema]);
+
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!client) return;
+
+    const unsubscribes = (JSON.parse(serializedSubscriptions) as unknown[]).map(
+      (message) => client.subscribe(message)
+    );
+
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [path, serializedSubscriptions]);
+
+  const reconnect = useCallback(() => {
+    clientRef.current?.reconnect();
+  }, []);
+
+  const send = useCallback(
+    (message: unknown) => clientRef.current?.send(message) ?? false,
+    []
+  );
+
+  return { status, reconnect, send };
+}
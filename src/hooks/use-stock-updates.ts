@@ -0,0 +1,82 @@
+import { useCallback, useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { getAvailableStock, isSetProduct } from "@/domain/stock";
+import { saveCatalog } from "@/libs/catalog-cache";
+import type { RealtimeStatus } from "@/libs/realtime";
+import {
+  stockUpdateMessageSchema,
+  type StockUpdateMessage,
+} from "@/libs/realtime-channels";
+import { useAuthStore } from "@/stores/auth";
+import { useCartStore } from "@/stores/cart";
+import type { ProductResponse } from "@/types/product";
+import useRealtime from "@/hooks/use-realtime";
+
+export default function useStockUpdates(
+  onCartAdjusted: (productNames: string[]) => void
+): RealtimeStatus {
+  const queryClient = useQueryClient();
+  const { token } = useAuthStore();
+  const { clampProductQuantity } = useCartStore();
+
+  const handleStockMessage = useCallback(
+    (message: StockUpdateMessage) => {
+      const updates = Array.isArray(message) ? message : [message];
+
+      const products = queryClient.setQueryData<ProductResponse[]>(
+        ["products"],
+        (old) =>
+          old?.map((product) => {
+            const update = updates.find((u) => u.productId === product.id);
+            if (!update) return product;
+
+            return {
+              ...product,
+              stock: update.stock ?? product.stock,
+              status: update.status ?? product.status,
+            };
+          })
+      );
+
+      if (!products) return;
+      saveCatalog(products);
+
+      const adjusted = updates.flatMap((update) => {
+        const product = products.find((p) => p.id === update.productId);
+        // A set's stock follows its components, which are trimmed on their
+        // own updates; only a set taken off sale is cleared here.
+        if (
+          !product ||
+          (isSetProduct(product) && product.status === "AVAILABLE")
+        ) {
+          return [];
+        }
+
+        return clampProductQuantity(product.id, getAvailableStock(product))
+          ? [product.name]
+          : [];
+      });
+
+      if (adjusted.length > 0) {
+        onCartAdjusted(adjusted);
+      }
+    },
+    [queryClient, clampProductQuantity, onCartAdjusted]
+  );
+
+  const { status } = useRealtime({
+    path: token
+      ? `/ws/kiosks/products?token=${encodeURIComponent(token)}`
+      : null,
+    schema: stockUpdateMessageSchema,
+    onMessage: handleStockMessage,
+  });
+
+  useEffect(() => {
+    if (status === "FAILED") {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+    }
+  }, [status, queryClient]);
+
+  return status;
+}
@@ -0,0 +1,38 @@
+import { useCallback } from "react";
+import {
+  formatCurrency,
+  formatTime as formatLocaleTime,
+  translate,
+  type Locale,
+  type MessageKey,
+  type MessageParams,
+} from "@/libs/i18n";
+import { useLocaleStore } from "@/stores/locale";
+
+interface UseTranslationResult {
+  locale: Locale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatPrice: (amount: number) => string;
+  formatTime: (value: Date | string | number) => string;
+}
+
+export default function useTranslation(): UseTranslationResult {
+  const { locale } = useLocaleStore();
+
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    [locale]
+  );
+
+  const formatPrice = useCallback(
+    (amount: number) => formatCurrency(amount, locale),
+    [locale]
+  );
+
+  const formatTime = useCallback(
+    (value: Date | string | number) => formatLocaleTime(value, locale),
+    [locale]
+  );
+
+  return { locale, t, formatPrice, formatTime };
+}
@@ -0,0 +1,219 @@
+import { z } from "zod";
+import type { KioskLoginRequest, KioskTokenResponse } from "../types/kiosk";
+import type {
+  CreatedOrderResponse,
+  CreateOrderRequest,
+  OrderFulfillmentStatus,
+  OrderResponse,
+} from "../types/order";
+import type {
+  PaymentRequestResponse,
+  PaymentRequestStatusResponse,
+  StudentIdPaymentRequestResponse,
+} from "../types/payment";
+import type { ProductResponse } from "../types/product";
+import type { PromotionResponse } from "../types/promotion";
+import { getRuntimeConfig } from "../stores/config";
+
+type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+const expiresAtSchema = z
+  .string()
+  .nullish()
+  .transform(
+    (value) =>
+      value ||
+      new Date(
+        Date.now() + getRuntimeConfig().paymentTimeout * 1000
+      ).toISOString()
+  );
+
+export const productResponseSchema: Schema<ProductResponse> = z.object({
+  id: z.number(),
+  name: z.string(),
+  price: z.number(),
+  description: z.string().nullish(),
+  imageUrl: z.string().nullish(),
+  category: z.string().nullish(),
+  components: z
+    .array(
+      z.object({
+        id: z.number(),
+        name: z.string(),
+        productId: z.number(),
+        quantity: z.number().int().positive(),
+        swaps: z
+          .array(z.object({ productId: z.number(), priceDelta: z.number() }))
+          .nullish(),
+      })
+    )
+    .nullish(),
+  optionGroups: z
+    .array(
+      z.object({
+        id: z.number(),
+        name: z.string(),
+        required: z.boolean(),
+        multiple: z.boolean(),
+        maxSelections: z.number().nullish(),
+        options: z.array(
+          z.object({
+            id: z.number(),
+            name: z.string(),
+            priceDelta: z.number(),
+          })
+        ),
+      })
+    )
+    .nullish()
+    .transform((value) => value ?? []),
+  status: z.enum(["AVAILABLE", "SOLD_OUT", "HIDDEN"]),
+  stock: z.number(),
+  maxPerOrder: z.number().int().positive().nullish(),
+  dailyLimitPerStudent: z.number().int().positive().nullish(),
+  requiresStaffConfirmation: z.boolean().nullish(),
+  sortOrder: z.number(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/);
+// A window that runs up to midnight may end at "24:00".
+const endTimeOfDaySchema = z.union([timeOfDaySchema, z.literal("24:00")]);
+
+const promotionBaseSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  code: z.string().nullish(),
+  productIds: z.array(z.number()).nullish(),
+  minOrderAmount: z.number().nonnegative().nullish(),
+});
+
+export const promotionResponseSchema: Schema<PromotionResponse> =
+  z.discriminatedUnion("type", [
+    promotionBaseSchema.extend({
+      type: z.literal("BUNDLE"),
+      buyQuantity: z.number().int().min(2),
+      payQuantity: z.number().int().nonnegative(),
+    }),
+    promotionBaseSchema.extend({
+      type: z.literal("TIME_WINDOW"),
+      startTime: timeOfDaySchema,
+      endTime: endTimeOfDaySchema,
+      percentOff: z.number().min(0).max(100),
+    }),
+    promotionBaseSchema.extend({
+      type: z.literal("PERCENTAGE"),
+      percentOff: z.number().min(0).max(100),
+    }),
+    promotionBaseSchema.extend({
+      type: z.literal("FIXED"),
+      amountOff: z.number().nonnegative(),
+    }),
+  ]);
+
+export const couponCodeSchema = z.string().regex(/^\d{4,8}$/);
+
+export const orderFulfillmentStatusSchema: Schema<OrderFulfillmentStatus> =
+  z.enum(["RECEIVED", "PREPARING", "READY", "PICKED_UP"]);
+
+export const orderResponseSchema: Schema<OrderResponse> = z.object({
+  id: z.number(),
+  status: z.enum(["PENDING", "PAID", "CANCELLED"]),
+  totalAmount: z.number(),
+  discountAmount: z.number().nullish(),
+  fulfillmentStatus: orderFulfillmentStatusSchema.optional(),
+  pickupNumber: z.string().nullish(),
+  items: z
+    .array(
+      z.object({
+        productId: z.number(),
+        productName: z.string(),
+        quantity: z.number(),
+        unitPrice: z.number(),
+        linePrice: z.number(),
+        options: z
+          .array(z.object({ optionId: z.number(), optionName: z.string() }))
+          .nullish()
+          .transform((value) => value ?? []),
+        components: z
+          .array(
+            z.object({
+              productId: z.number(),
+              productName: z.string(),
+              quantity: z.number(),
+            })
+          )
+          .nullish()
+          .transform((value) => value ?? []),
+      })
+    )
+    .optional(),
+  receiptUrl: z.string().nullish(),
+  createdAt: z.string(),
+});
+
+export const createOrderRequestSchema: Schema<CreateOrderRequest> = z.object({
+  items: z
+    .array(
+      z.object({
+        productId: z.number(),
+        quantity: z.number().int().positive(),
+        options: z.array(
+          z.object({ groupId: z.number(), optionId: z.number() })
+        ),
+        components: z
+          .array(z.object({ slotId: z.number(), productId: z.number() }))
+          .optional(),
+        unitPrice: z.number().nonnegative(),
+        linePrice: z.number().nonnegative(),
+        discountAmount: z.number().int().nonnegative().optional(),
+      })
+    )
+    .min(1),
+  discount: z
+    .object({
+      promotionIds: z.array(z.number()),
+      couponCode: z.string().nullish(),
+      amount: z.number().int().nonnegative(),
+    })
+    .optional(),
+  staffConfirmed: z.boolean().optional(),
+});
+
+export const createdOrderResponseSchema: Schema<CreatedOrderResponse> =
+  z.object({
+    id: z.number(),
+  });
+
+export const paymentRequestResponseSchema: Schema<PaymentRequestResponse> =
+  z.object({
+    id: z.number(),
+    token: z.string().min(1),
+    expiresAt: expiresAtSchema,
+  });
+
+export const studentIdPaymentRequestResponseSchema: Schema<StudentIdPaymentRequestResponse> =
+  z.object({
+    id: z.number(),
+    token: z.string().nullish(),
+    expiresAt: expiresAtSchema,
+  });
+
+export const paymentRequestStatusResponseSchema: Schema<PaymentRequestStatusResponse> =
+  z.object({
+    status: z.enum(["PENDING", "COMPLETED", "FAILED", "EXPIRED"]),
+    message: z.string().optional(),
+  });
+
+export const studentIdSchema = z.string().regex(/^\d{4}$/);
+
+export const kioskLoginRequestSchema: Schema<KioskLoginRequest> = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
+export const kioskTokenResponseSchema: Schema<KioskTokenResponse> = z.object({
+  accessToken: z.string().min(1),
+  refreshToken: z.string().nullish(),
+});
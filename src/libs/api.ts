@@ -1,14 +1,128 @@
-import axios, { AxiosError, type AxiosResponse } from "axios";
-import { API_URL } from "../constants/api";
+import axios, {
+  AxiosError,
+  isAxiosError,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import {
+  ERROR_CODES,
+  isErrorCode,
+  type ErrorAction,
+  type ErrorCode,
+  type ErrorSeverity,
+} from "../constants/errors";
+import type { MessageKey } from "./i18n";
 import { useAuthStore } from "../stores/auth";
+import { getRuntimeConfig } from "../stores/config";
+
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _authRetried?: boolean;
+}
+
+interface ErrorResponse {
+  code?: unknown;
+  message?: unknown;
+}
+
+export type ApiErrorKind =
+  "NETWORK" | "TIMEOUT" | "SERVER" | "SCHEMA" | "UNKNOWN";
+
+interface ApiErrorOptions {
+  kind: ApiErrorKind;
+  code: ErrorCode;
+  status?: number | null;
+  serverCode?: string | null;
+  message?: string;
+}
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly code: ErrorCode;
+  readonly status: number | null;
+  readonly serverCode: string | null;
+  readonly severity: ErrorSeverity;
+  readonly action: ErrorAction;
+
+  constructor({ kind, code, status, serverCode, message }: ApiErrorOptions) {
+    super(message || serverCode || code);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.code = code;
+    this.status = status ?? null;
+    this.serverCode = serverCode ?? null;
+    this.severity = ERROR_CODES[code].severity;
+    this.action = ERROR_CODES[code].action;
+  }
+
+  getMessageKey(fallback: MessageKey = ERROR_CODES.UNKNOWN.message) {
+    return this.code === "UNKNOWN" ? fallback : ERROR_CODES[this.code].message;
+  }
+}
+
+const TIMEOUT_CODES = ["ECONNABORTED", "ETIMEDOUT"];
+
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (!isAxiosError(error)) {
+    return new ApiError({
+      kind: "UNKNOWN",
+      code: "UNKNOWN",
+      message: error instanceof Error ? error.message : undefined,
+    });
+  }
+
+  if (!error.response) {
+    const isTimeout = TIMEOUT_CODES.includes(error.code ?? "");
+    return new ApiError({
+      kind: isTimeout ? "TIMEOUT" : "NETWORK",
+      code: isTimeout ? "TIMEOUT" : "NETWORK_ERROR",
+      message: error.message,
+    });
+  }
+
+  const data = error.response.data as ErrorResponse | undefined;
+  const serverCode = typeof data?.code === "string" ? data.code : null;
+
+  return new ApiError({
+    kind: "SERVER",
+    code: isErrorCode(serverCode) ? serverCode : "UNKNOWN",
+    status: error.response.status,
+    serverCode,
+    message: typeof data?.message === "string" ? data.message : error.message,
+  });
+};
+
+const PUBLIC_REQUEST_TIMEOUT = 10000;
+
+const applyRuntimeConfig = async (config: InternalAxiosRequestConfig) => {
+  const { apiUrl, demoMode } = getRuntimeConfig();
+  config.baseURL = apiUrl;
+
+  if (demoMode) {
+    const { mockAdapter } = await import("../mocks/backend");
+    config.adapter = mockAdapter;
+  }
+  return config;
+};
+
+export const publicApi = axios.create({
+  headers: {
+    "Content-Type": "application/json",
+  },
+  timeout: PUBLIC_REQUEST_TIMEOUT,
+});
+
+publicApi.interceptors.request.use(applyRuntimeConfig);
 
 const api = axios.create({
-  baseURL: API_URL,
   headers: {
     "Content-Type": "application/json",
   },
 });
 
+api.interceptors.request.use(applyRuntimeConfig);
+
 api.interceptors.request.use((config) => {
   const { token } = useAuthStore.getState();
   if (token) {
@@ -21,15 +135,26 @@ api.interceptors.request.use((config) => {
 api.interceptors.response.use(
   (response: AxiosResponse) => response,
   async (error: AxiosError) => {
-    if (error.response?.status === 401) {
-      const { signOut } = useAuthStore.getState();
-      await signOut();
+    const config = error.config as RetriableRequestConfig | undefined;
+
+    if (error.response?.status === 401 && config) {
+      const { refresh, disconnect } = useAuthStore.getState();
 
-      if (window.location.pathname !== "/login") {
-        window.location.href = "/login";
+      if (!config._authRetried) {
+        config._authRetried = true;
+        const result = await refresh();
+        if (result === "REFRESHED") {
+          return api(config);
+        }
+        // The retry scheduled by refresh() may still recover the session.
+        if (result === "UNAVAILABLE") {
+          return Promise.reject(toApiError(error));
+        }
       }
+
+      disconnect();
     }
-    return Promise.reject(error);
+    return Promise.reject(toApiError(error));
   }
 );
 
@@ -0,0 +1,26 @@
+const ACTIVE_BOOTH_KEY = "kiosk-active-booth";
+
+export const DEFAULT_BOOTH_ID = "default";
+
+export const getActiveBoothId = (): string => {
+  try {
+    return localStorage.getItem(ACTIVE_BOOTH_KEY) ?? DEFAULT_BOOTH_ID;
+  } catch {
+    return DEFAULT_BOOTH_ID;
+  }
+};
+
+export const setActiveBoothId = (boothId: string) => {
+  try {
+    localStorage.setItem(ACTIVE_BOOTH_KEY, boothId);
+  } catch (error) {
+    console.error("Storage error:", error);
+  }
+};
+
+// The default booth keeps the unscoped keys so data persisted before
+// profiles existed is still picked up.
+export const getBoothScopedKey = (
+  name: string,
+  boothId: string = getActiveBoothId()
+): string => (boothId === DEFAULT_BOOTH_ID ? name : `${name}:${boothId}`);
@@ -0,0 +1,75 @@
+import type { ProductResponse } from "../types/product";
+import { getBoothScopedKey } from "./booth-scope";
+
+export interface CachedCatalog {
+  products: ProductResponse[];
+  savedAt: number;
+}
+
+const DB_NAME = "kiosk-catalog";
+const DB_VERSION = 1;
+const STORE_NAME = "catalog";
+const CATALOG_KEY = "products";
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const saveCatalog = async (
+  products: ProductResponse[]
+): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const entry: CachedCatalog = { products, savedAt: Date.now() };
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      transaction
+        .objectStore(STORE_NAME)
+        .put(entry, getBoothScopedKey(CATALOG_KEY));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    db.close();
+  } catch (error) {
+    console.error("Catalog cache write error:", error);
+  }
+};
+
+export const loadCatalog = async (): Promise<CachedCatalog | null> => {
+  try {
+    const db = await openDatabase();
+
+    const entry = await new Promise<CachedCatalog | undefined>(
+      (resolve, reject) => {
+        const request = db
+          .transaction(STORE_NAME, "readonly")
+          .objectStore(STORE_NAME)
+          .get(getBoothScopedKey(CATALOG_KEY));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }
+    );
+
+    db.close();
+    return entry ?? null;
+  } catch (error) {
+    console.error("Catalog cache read error:", error);
+    return null;
+  }
+};
@@ -0,0 +1,178 @@
+import type { AxiosResponse } from "axios";
+import { z } from "zod";
+import api, { ApiError, publicApi, toApiError } from "./api";
+import {
+  couponCodeSchema,
+  createdOrderResponseSchema,
+  createOrderRequestSchema,
+  kioskLoginRequestSchema,
+  kioskTokenResponseSchema,
+  orderFulfillmentStatusSchema,
+  orderResponseSchema,
+  paymentRequestResponseSchema,
+  paymentRequestStatusResponseSchema,
+  productResponseSchema,
+  promotionResponseSchema,
+  studentIdPaymentRequestResponseSchema,
+  studentIdSchema,
+} from "./api-schemas";
+import type { KioskLoginRequest } from "../types/kiosk";
+import type {
+  CreateOrderRequest,
+  OrderFulfillmentStatus,
+} from "../types/order";
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map(
+    (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+  );
+
+const validate = <TSchema extends z.ZodTypeAny>(
+  endpoint: string,
+  direction: "request" | "response",
+  schema: TSchema,
+  data: unknown
+): z.output<TSchema> => {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  const issues = formatIssues(result.error);
+  console.error(
+    `API ${direction} schema mismatch (${endpoint}):`,
+    issues,
+    data
+  );
+
+  throw new ApiError({
+    kind: "SCHEMA",
+    code: direction === "request" ? "INVALID_REQUEST" : "INVALID_RESPONSE",
+    message: `${endpoint} ${direction} schema mismatch: ${issues.join("; ")}`,
+  });
+};
+
+const request = async <TSchema extends z.ZodTypeAny>(
+  endpoint: string,
+  schema: TSchema,
+  send: () => Promise<AxiosResponse<unknown>>
+): Promise<z.output<TSchema>> => {
+  let response: AxiosResponse<unknown>;
+  try {
+    response = await send();
+  } catch (error) {
+    throw toApiError(error);
+  }
+  return validate(endpoint, "response", schema, response.data);
+};
+
+export const fetchAvailableProducts = () =>
+  request("GET /products/available", z.array(productResponseSchema), () =>
+    api.get("/products/available")
+  );
+
+export const fetchActivePromotions = () =>
+  request("GET /promotions/active", z.array(promotionResponseSchema), () =>
+    api.get("/promotions/active")
+  );
+
+export const fetchCoupon = (code: string) => {
+  const validCode = validate(
+    "GET /promotions/coupons/:code",
+    "request",
+    couponCodeSchema,
+    code.trim()
+  );
+  return request("GET /promotions/coupons/:code", promotionResponseSchema, () =>
+    api.get(`/promotions/coupons/${encodeURIComponent(validCode)}`)
+  );
+};
+
+export const createOrder = (body: CreateOrderRequest) => {
+  const payload = validate(
+    "POST /orders",
+    "request",
+    createOrderRequestSchema,
+    body
+  );
+  return request("POST /orders", createdOrderResponseSchema, () =>
+    api.post("/orders", payload)
+  );
+};
+
+export const fetchOrder = (orderId: number) =>
+  request("GET /orders/:id", orderResponseSchema, () =>
+    api.get(`/orders/${orderId}`)
+  );
+
+export const fetchOrders = (params: { status?: string; date?: string }) =>
+  request("GET /orders", z.array(orderResponseSchema), () =>
+    api.get("/orders", { params })
+  );
+
+export const cancelOrder = (orderId: number) =>
+  request("POST /orders/:id/cancel", z.unknown(), () =>
+    api.post(`/orders/${orderId}/cancel`)
+  );
+
+export const updateOrderFulfillment = (
+  orderId: number,
+  fulfillmentStatus: OrderFulfillmentStatus
+) => {
+  const status = validate(
+    "PATCH /orders/:id/fulfillment",
+    "request",
+    orderFulfillmentStatusSchema,
+    fulfillmentStatus
+  );
+  return request("PATCH /orders/:id/fulfillment", orderResponseSchema, () =>
+    api.patch(`/orders/${orderId}/fulfillment`, { fulfillmentStatus: status })
+  );
+};
+
+export const createQrPayment = (orderId: number) =>
+  request("POST /payments/qr", paymentRequestResponseSchema, () =>
+    api.post("/payments/qr", { orderId })
+  );
+
+export const createStudentIdPayment = (orderId: number, studentId: string) => {
+  const validStudentId = validate(
+    "POST /payments/student-id",
+    "request",
+    studentIdSchema,
+    studentId.trim()
+  );
+  return request(
+    "POST /payments/student-id",
+    studentIdPaymentRequestResponseSchema,
+    () =>
+      api.post("/payments/student-id", { orderId, studentId: validStudentId })
+  );
+};
+
+export const fetchPaymentRequestStatus = (requestId: number) =>
+  request(
+    "GET /payments/requests/:id",
+    paymentRequestStatusResponseSchema,
+    () => api.get(`/payments/requests/${requestId}`)
+  );
+
+export const loginKiosk = (body: KioskLoginRequest) => {
+  const payload = validate(
+    "POST /kiosks/login",
+    "request",
+    kioskLoginRequestSchema,
+    body
+  );
+  return request("POST /kiosks/login", kioskTokenResponseSchema, () =>
+    publicApi.post("/kiosks/login", payload)
+  );
+};
+
+export const registerKiosk = (registrationToken: string) =>
+  request("POST /kiosks/register", kioskTokenResponseSchema, () =>
+    publicApi.post("/kiosks/register", { registrationToken })
+  );
+
+export const refreshKioskToken = (refreshToken: string) =>
+  request("POST /kiosks/refresh", kioskTokenResponseSchema, () =>
+    publicApi.post("/kiosks/refresh", { refreshToken })
+  );
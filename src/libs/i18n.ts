@@ -0,0 +1,88 @@
+import ko, { type Messages } from "../locales/ko";
+import en from "../locales/en";
+import zh from "../locales/zh";
+import ja from "../locales/ja";
+
+export type Locale = "ko" | "en" | "zh" | "ja";
+
+type MessagePath<T> = {
+  [K in keyof T & string]: T[K] extends string
+    ? K
+    : `${K}.${MessagePath<T[K]>}`;
+}[keyof T & string];
+
+export type MessageKey = MessagePath<Messages>;
+
+export type MessageParams = Record<string, string | number>;
+
+interface LocaleDefinition {
+  label: string;
+  intlLocale: string;
+  messages: Messages;
+}
+
+export const DEFAULT_LOCALE: Locale = "ko";
+
+export const LOCALES: Record<Locale, LocaleDefinition> = {
+  ko: { label: "한국어", intlLocale: "ko-KR", messages: ko },
+  en: { label: "English", intlLocale: "en-US", messages: en },
+  zh: { label: "中文", intlLocale: "zh-CN", messages: zh },
+  ja: { label: "日本語", intlLocale: "ja-JP", messages: ja },
+};
+
+const lookup = (messages: Messages, key: MessageKey): string | undefined => {
+  const value = key
+    .split(".")
+    .reduce<unknown>(
+      (node, segment) =>
+        node && typeof node === "object"
+          ? (node as Record<string, unknown>)[segment]
+          : undefined,
+      messages
+    );
+  return typeof value === "string" ? value : undefined;
+};
+
+export const isMessageKey = (key: string): key is MessageKey =>
+  lookup(ko, key as MessageKey) !== undefined;
+
+export const translate = (
+  locale: Locale,
+  key: MessageKey,
+  params?: MessageParams
+): string => {
+  const template =
+    lookup(LOCALES[locale].messages, key) ?? lookup(ko, key) ?? key;
+
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+};
+
+const currencyFormatters = new Map<Locale, Intl.NumberFormat>();
+
+export const formatCurrency = (amount: number, locale: Locale): string => {
+  if (locale === "ko") {
+    return `${amount.toLocaleString("ko-KR")}원`;
+  }
+
+  let formatter = currencyFormatters.get(locale);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(LOCALES[locale].intlLocale, {
+      style: "currency",
+      currency: "KRW",
+    });
+    currencyFormatters.set(locale, formatter);
+  }
+  return formatter.format(amount);
+};
+
+export const formatTime = (
+  value: Date | string | number,
+  locale: Locale
+): string =>
+  new Date(value).toLocaleTimeString(LOCALES[locale].intlLocale, {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
@@ -0,0 +1,39 @@
+interface TokenClaims {
+  exp?: unknown;
+  sub?: unknown;
+}
+
+const decodeBase64Url = (value: string): string => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64.padEnd(
+    base64.length + ((4 - (base64.length % 4)) % 4),
+    "="
+  );
+  const binary = atob(padded);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+const decodeClaims = (token: string): TokenClaims | null => {
+  try {
+    const [, payload] = token.split(".");
+    if (!payload) return null;
+
+    return JSON.parse(decodeBase64Url(payload)) as TokenClaims;
+  } catch (error) {
+    console.warn("JWT decode error:", error);
+    return null;
+  }
+};
+
+export const getTokenExpiry = (token: string): number | null => {
+  const exp = decodeClaims(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : null;
+};
+
+export const getTokenSubject = (token: string): string | null => {
+  const sub = decodeClaims(token)?.sub;
+  return typeof sub === "string" || typeof sub === "number"
+    ? String(sub)
+    : null;
+};
@@ -0,0 +1,132 @@
+import { ApiError } from "./api";
+import {
+  cancelOrder,
+  fetchOrder,
+  fetchPaymentRequestStatus,
+} from "./endpoints";
+import { canTransition, isPaymentInProgress } from "./payment-machine";
+import { useCartStore } from "../stores/cart";
+import { usePaymentStore } from "../stores/payment";
+
+export type RecoveryOutcome = "none" | "resume" | "completed" | "cancelled";
+
+type PersistedStore = {
+  persist: {
+    hasHydrated: () => boolean;
+    onFinishHydration: (listener: () => void) => () => void;
+  };
+};
+
+const waitForHydration = (store: PersistedStore): Promise<void> =>
+  new Promise((resolve) => {
+    if (store.persist.hasHydrated()) {
+      resolve();
+      return;
+    }
+
+    const unsubscribe = store.persist.onFinishHydration(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+
+const cancelPersistedOrder = async (orderId: number) => {
+  try {
+    await cancelOrder(orderId);
+  } catch (error) {
+    console.error("Order recovery cancel error:", error);
+  }
+
+  const { phase, dispatch } = usePaymentStore.getState();
+  if (canTransition(phase, "CANCELLED")) {
+    dispatch({ type: "CANCELLED" });
+  }
+};
+
+const fetchRequestStatus = async (requestId: number) => {
+  try {
+    const { status } = await fetchPaymentRequestStatus(requestId);
+    return status;
+  } catch (error) {
+    console.error("Order recovery request status error:", error);
+    return null;
+  }
+};
+
+export const recoverPersistedPayment = async (): Promise<RecoveryOutcome> => {
+  await Promise.all([
+    waitForHydration(usePaymentStore),
+    waitForHydration(useCartStore),
+  ]);
+
+  const { phase, orderId, requestId, dispatch, resetPayment, syncTimer } =
+    usePaymentStore.getState();
+
+  if (!orderId || phase === "idle") {
+    return "none";
+  }
+
+  if (phase === "completed" || phase === "cancelled") {
+    if (phase === "completed") {
+      useCartStore.getState().clearCart();
+    }
+    resetPayment();
+    return "none";
+  }
+
+  try {
+    const order = await fetchOrder(orderId);
+
+    if (order.status === "PAID") {
+      dispatch({ type: "COMPLETED" });
+      return "completed";
+    }
+
+    if (order.status === "CANCELLED") {
+      if (canTransition(phase, "CANCELLED")) {
+        dispatch({ type: "CANCELLED" });
+      } else {
+        resetPayment();
+      }
+      return "cancelled";
+    }
+
+    const requestStatus = requestId
+      ? await fetchRequestStatus(requestId)
+      : null;
+
+    if (requestStatus === "COMPLETED") {
+      dispatch({ type: "COMPLETED" });
+      return "completed";
+    }
+
+    syncTimer();
+    const { timer } = usePaymentStore.getState();
+
+    if (
+      isPaymentInProgress(phase) &&
+      timer > 0 &&
+      requestStatus !== "FAILED" &&
+      requestStatus !== "EXPIRED"
+    ) {
+      return "resume";
+    }
+
+    await cancelPersistedOrder(orderId);
+    return "cancelled";
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      resetPayment();
+      return "cancelled";
+    }
+
+    console.error("Order recovery error:", error);
+
+    if (isPaymentInProgress(phase)) {
+      return "resume";
+    }
+
+    resetPayment();
+    return "none";
+  }
+};
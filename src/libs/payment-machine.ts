@@ -0,0 +1,81 @@
+export type PaymentPhase =
+  | "idle"
+  | "order-created"
+  | "request-pending"
+  | "completed"
+  | "failed"
+  | "expired"
+  | "cancelled";
+
+export type PaymentRequestMethod = "QR_CODE" | "STUDENT_ID";
+
+export type PaymentEvent =
+  | { type: "ORDER_CREATED"; orderId: number }
+  | {
+      type: "REQUEST_CREATED";
+      requestId: number;
+      requestCode: string;
+      requestMethod: PaymentRequestMethod;
+      expiresAt: string;
+    }
+  | { type: "REQUEST_RESET" }
+  | { type: "COMPLETED" }
+  | { type: "FAILED" }
+  | { type: "EXPIRED" }
+  | { type: "CANCELLED" }
+  | { type: "RESET" };
+
+export type PaymentEventType = PaymentEvent["type"];
+
+const PAYMENT_TRANSITIONS: Record<
+  PaymentPhase,
+  Partial<Record<PaymentEventType, PaymentPhase>>
+> = {
+  idle: {
+    ORDER_CREATED: "order-created",
+  },
+  "order-created": {
+    REQUEST_CREATED: "request-pending",
+    REQUEST_RESET: "order-created",
+    COMPLETED: "completed",
+    EXPIRED: "expired",
+    CANCELLED: "cancelled",
+  },
+  "request-pending": {
+    REQUEST_RESET: "order-created",
+    COMPLETED: "completed",
+    FAILED: "failed",
+    EXPIRED: "expired",
+    CANCELLED: "cancelled",
+  },
+  completed: {},
+  failed: {
+    REQUEST_RESET: "order-created",
+    COMPLETED: "completed",
+    EXPIRED: "expired",
+    CANCELLED: "cancelled",
+  },
+  expired: {
+    ORDER_CREATED: "order-created",
+    COMPLETED: "completed",
+  },
+  cancelled: {
+    ORDER_CREATED: "order-created",
+  },
+};
+
+export const getNextPhase = (
+  phase: PaymentPhase,
+  eventType: PaymentEventType
+): PaymentPhase | null => {
+  if (eventType === "RESET") return "idle";
+  return PAYMENT_TRANSITIONS[phase][eventType] ?? null;
+};
+
+export const canTransition = (
+  phase: PaymentPhase,
+  eventType: PaymentEventType
+): boolean => getNextPhase(phase, eventType) !== null;
+
+export const isPaymentInProgress = (phase: PaymentPhase): boolean =>
+  phase === "order-created" || phase === "request-pending";
@@ -0,0 +1,27 @@
+import { z } from "zod";
+import {
+  orderResponseSchema,
+  paymentRequestStatusResponseSchema,
+} from "./api-schemas";
+
+export const paymentStatusMessageSchema = paymentRequestStatusResponseSchema;
+
+export type PaymentStatusMessage = z.infer<typeof paymentStatusMessageSchema>;
+
+export const stockUpdateSchema = z.object({
+  productId: z.number(),
+  stock: z.number().optional(),
+  status: z.enum(["AVAILABLE", "SOLD_OUT", "HIDDEN"]).optional(),
+});
+
+export const stockUpdateMessageSchema = z.union([
+  stockUpdateSchema,
+  z.array(stockUpdateSchema),
+]);
+
+export type StockUpdate = z.infer<typeof stockUpdateSchema>;
+export type StockUpdateMessage = z.infer<typeof stockUpdateMessageSchema>;
+
+export const orderUpdateMessageSchema = orderResponseSchema;
+
+export type OrderUpdateMessage = z.infer<typeof orderUpdateMessageSchema>;
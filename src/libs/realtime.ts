@@ -0,0 +1,295 @@
+import { z } from "zod";
+import { getRuntimeConfig } from "../stores/config";
+
+export type RealtimeStatus =
+  "CONNECTING" | "CONNECTED" | "DISCONNECTED" | "FAILED";
+
+export interface RealtimeClientOptions<TSchema extends z.ZodTypeAny> {
+  path: string;
+  schema: TSchema;
+  onMessage: (message: z.infer<TSchema>) => void;
+  onStatusChange?: (status: RealtimeStatus) => void;
+  maxReconnectAttempts?: number;
+  baseReconnectDelay?: number;
+  maxReconnectDelay?: number;
+  heartbeatInterval?: number;
+  heartbeatTimeout?: number;
+}
+
+export interface RealtimeSocket {
+  readonly readyState: number;
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  send: (data: string) => void;
+  close: (code?: number, reason?: string) => void;
+}
+
+export interface RealtimeClient {
+  connect: () => void;
+  disconnect: () => void;
+  reconnect: () => void;
+  send: (message: unknown) => boolean;
+  subscribe: (message: unknown) => () => void;
+  getStatus: () => RealtimeStatus;
+}
+
+const DEFAULT_MAX_RECONNECT_ATTEMPTS = 5;
+const DEFAULT_BASE_RECONNECT_DELAY = 1000;
+const DEFAULT_MAX_RECONNECT_DELAY = 15000;
+const DEFAULT_HEARTBEAT_INTERVAL = 20000;
+const DEFAULT_HEARTBEAT_TIMEOUT = 10000;
+const NORMAL_CLOSURE = 1000;
+const HEARTBEAT_CLOSURE = 4000;
+
+const heartbeatMessageSchema = z.object({ type: z.literal("PONG") });
+
+export const toWebSocketUrl = (path: string): string => {
+  const { apiUrl, wsUrl } = getRuntimeConfig();
+  const baseUrl =
+    wsUrl ??
+    apiUrl.replace(/^http(s?):\/\//, (_, s) => (s ? "wss://" : "ws://"));
+  return baseUrl.replace(/\/$/, "") + path;
+};
+
+const createSocket = async (path: string): Promise<RealtimeSocket> => {
+  const url = toWebSocketUrl(path);
+
+  if (getRuntimeConfig().demoMode) {
+    const { MockSocket } = await import("../mocks/socket");
+    return new MockSocket(url);
+  }
+  return new WebSocket(url);
+};
+
+export const getReconnectDelay = (
+  attempt: number,
+  baseDelay: number = DEFAULT_BASE_RECONNECT_DELAY,
+  maxDelay: number = DEFAULT_MAX_RECONNECT_DELAY
+): number => {
+  const exponential = Math.min(maxDelay, baseDelay * 2 ** attempt);
+  return exponential / 2 + Math.random() * (exponential / 2);
+};
+
+// Each open socket is pinged with {"type":"PING"}. Only once the server has
+// answered with {"type":"PONG"} does silence past heartbeatTimeout count as a
+// dead socket to drop and redial; servers without PONG are never timed out.
+export const createRealtimeClient = <TSchema extends z.ZodTypeAny>(
+  options: RealtimeClientOptions<TSchema>
+): RealtimeClient => {
+  const {
+    path,
+    schema,
+    onMessage,
+    onStatusChange,
+    maxReconnectAttempts = DEFAULT_MAX_RECONNECT_ATTEMPTS,
+    baseReconnectDelay = DEFAULT_BASE_RECONNECT_DELAY,
+    maxReconnectDelay = DEFAULT_MAX_RECONNECT_DELAY,
+    heartbeatInterval = DEFAULT_HEARTBEAT_INTERVAL,
+    heartbeatTimeout = DEFAULT_HEARTBEAT_TIMEOUT,
+  } = options;
+
+  let socket: RealtimeSocket | null = null;
+  let status: RealtimeStatus = "DISCONNECTED";
+  let attempts = 0;
+  let closedByClient = false;
+  let reconnectTimer: number | null = null;
+  let heartbeatTimer: number | null = null;
+  let heartbeatTimeoutTimer: number | null = null;
+  let heartbeatAnswered = false;
+  // Bumped by every open and disconnect so a socket that finishes loading
+  // after it was superseded is closed instead of adopted.
+  let generation = 0;
+  const subscriptions = new Set<string>();
+
+  const setStatus = (next: RealtimeStatus) => {
+    if (status === next) return;
+    status = next;
+    onStatusChange?.(next);
+  };
+
+  const clearTimer = (timer: number | null) => {
+    if (timer !== null) {
+      clearTimeout(timer);
+    }
+    return null;
+  };
+
+  const stopHeartbeat = () => {
+    if (heartbeatTimer !== null) {
+      clearInterval(heartbeatTimer);
+      heartbeatTimer = null;
+    }
+    heartbeatTimeoutTimer = clearTimer(heartbeatTimeoutTimer);
+  };
+
+  const startHeartbeat = () => {
+    stopHeartbeat();
+    heartbeatAnswered = false;
+    if (heartbeatInterval <= 0) return;
+
+    heartbeatTimer = window.setInterval(() => {
+      if (!socket || socket.readyState !== WebSocket.OPEN) return;
+
+      socket.send(JSON.stringify({ type: "PING" }));
+
+      if (heartbeatAnswered && heartbeatTimeoutTimer === null) {
+        heartbeatTimeoutTimer = window.setTimeout(() => {
+          heartbeatTimeoutTimer = null;
+          socket?.close(HEARTBEAT_CLOSURE, "Heartbeat timeout");
+        }, heartbeatTimeout);
+      }
+    }, heartbeatInterval);
+  };
+
+  const scheduleReconnect = () => {
+    if (attempts >= maxReconnectAttempts) {
+      setStatus("FAILED");
+      return;
+    }
+
+    setStatus("DISCONNECTED");
+    reconnectTimer = clearTimer(reconnectTimer);
+    reconnectTimer = window.setTimeout(
+      () => {
+        reconnectTimer = null;
+        attempts += 1;
+        open();
+      },
+      getReconnectDelay(attempts, baseReconnectDelay, maxReconnectDelay)
+    );
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    heartbeatTimeoutTimer = clearTimer(heartbeatTimeoutTimer);
+
+    let data: unknown;
+    try {
+      data = JSON.parse(event.data);
+    } catch (error) {
+      console.error(`Realtime message parse error (${path}):`, error);
+      return;
+    }
+
+    if (heartbeatMessageSchema.safeParse(data).success) {
+      heartbeatAnswered = true;
+      return;
+    }
+
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      console.warn(
+        `Realtime message schema mismatch (${path}):`,
+        result.error.issues
+      );
+      return;
+    }
+
+    onMessage(result.data);
+  };
+
+  const open = async () => {
+    setStatus("CONNECTING");
+    const current = ++generation;
+
+    try {
+      const ws = await createSocket(path);
+      if (current !== generation) {
+        ws.close(NORMAL_CLOSURE);
+        return;
+      }
+      socket = ws;
+
+      ws.onopen = () => {
+        if (socket !== ws) return;
+
+        attempts = 0;
+        setStatus("CONNECTED");
+        subscriptions.forEach((message) => ws.send(message));
+        startHeartbeat();
+      };
+
+      ws.onmessage = (event) => {
+        if (socket === ws) handleMessage(event);
+      };
+
+      ws.onclose = (event) => {
+        if (socket !== ws) return;
+
+        socket = null;
+        stopHeartbeat();
+
+        if (closedByClient || event.code === NORMAL_CLOSURE) {
+          setStatus("DISCONNECTED");
+          return;
+        }
+
+        scheduleReconnect();
+      };
+    } catch (error) {
+      console.error(`Realtime connection error (${path}):`, error);
+      scheduleReconnect();
+    }
+  };
+
+  const connect = () => {
+    if (status === "CONNECTING" || status === "CONNECTED") return;
+
+    closedByClient = false;
+    open();
+  };
+
+  const disconnect = () => {
+    closedByClient = true;
+    generation += 1;
+    reconnectTimer = clearTimer(reconnectTimer);
+    stopHeartbeat();
+
+    if (socket) {
+      const ws = socket;
+      socket = null;
+      try {
+        ws.close(NORMAL_CLOSURE);
+      } catch (error) {
+        console.error(`Error closing realtime connection (${path}):`, error);
+      }
+    }
+
+    setStatus("DISCONNECTED");
+  };
+
+  const reconnect = () => {
+    disconnect();
+    attempts = 0;
+    connect();
+  };
+
+  const send = (message: unknown) => {
+    if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+
+    socket.send(JSON.stringify(message));
+    return true;
+  };
+
+  const subscribe = (message: unknown) => {
+    const serialized = JSON.stringify(message);
+    subscriptions.add(serialized);
+
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(serialized);
+    }
+
+    return () => {
+      subscriptions.delete(serialized);
+    };
+  };
+
+  return {
+    connect,
+    disconnect,
+    reconnect,
+    send,
+    subscribe,
+    getStatus: () => status,
+  };
+};
@@ -0,0 +1,327 @@
+import type { Messages } from "./ko";
+
+const en: Messages = {
+  common: {
+    retry: "Try again",
+    back: "Back",
+    pickupNumber: "Order number",
+    pickupGuide: "Pick up your food when your number is called",
+    orderSummary: "Order summary",
+    quantity: "{count}",
+    unitPrice: "({price} each)",
+    demoMode: "Demo mode · No real payments are made",
+  },
+  errors: {
+    INSUFFICIENT_STOCK: "Not enough stock",
+    PRODUCT_NOT_FOUND: "Some items are no longer available",
+    PRODUCT_UNAVAILABLE: "Your order contains discontinued items",
+    ORDER_NOT_FOUND: "Order not found",
+    ORDER_NOT_PENDING: "This order has already been processed",
+    PURCHASE_LIMIT_EXCEEDED: "Some items exceed the purchase limit",
+    DAILY_LIMIT_EXCEEDED:
+      "This student ID has reached today's limit for an item",
+    STAFF_CONFIRMATION_REQUIRED: "Some items need staff confirmation",
+    USER_NOT_FOUND: "This student ID is not registered",
+    COUPON_NOT_FOUND: "This coupon code cannot be used",
+    PROMOTION_CHANGED: "Discounts have changed. Please check the total",
+    BOOTH_NOT_FOUND: "Booth information not found",
+    BOOTH_NOT_APPROVED: "This booth has not been approved",
+    BOOTH_REJECTED: "This booth has been rejected",
+    BOOTH_INACTIVE: "This booth has been suspended",
+    BOOTH_PASSWORD_NOT_MATCH: "Incorrect password",
+    INVALID_REQUEST: "The request was invalid. Please ask a staff member",
+    INVALID_RESPONSE:
+      "The server response could not be read. Please ask a staff member",
+    NETWORK_ERROR: "Please check your network connection",
+    TIMEOUT: "The server took too long to respond",
+    UNKNOWN: "We could not process your request",
+  },
+  products: {
+    allCategories: "All",
+    otherCategory: "Other",
+    soldOut: "Sold out",
+    stock: "Stock: {count}",
+    offlineNotice: "You are offline · Prices as of {time}",
+    reconnect: "Reconnect",
+    reconnecting: "Checking...",
+    loading: "Loading menu...",
+    loadFailed: "Unable to load the menu",
+    orderFailed: "We couldn't place your order",
+    cartAdjusted: "Your cart was updated due to stock changes: {names}",
+    checkNetwork: "Please check the network connection",
+    selectProducts: "Please select an item",
+    soldOutAlert: "This item is sold out",
+  },
+  cart: {
+    title: "Cart",
+    clear: "Clear",
+    empty: "Your cart is empty",
+    emptyHint: "Please select an item",
+    totalItems: "Items",
+    totalAmount: "Total",
+    checkout: "Pay now",
+  },
+  promotions: {
+    subtotal: "Subtotal",
+    discount: "Discount",
+    couponButton: "Enter coupon",
+    couponTitle: "Enter coupon code",
+    couponHint: "Enter the number printed on your coupon",
+    couponApply: "Apply",
+    couponApplied: "Coupon applied",
+    couponRemove: "Remove coupon",
+    couponNotApplicable: "This coupon does not apply to your order",
+    close: "Close",
+  },
+  limits: {
+    perOrder: "Max {count} per order",
+    perStudent: "{count} per student a day",
+    staffCheck: "Staff check",
+    productLimitReached: "You can order up to {count} of {name} at a time",
+    orderLimitReached: "You can order up to {count} items at a time",
+    staffConfirmationTitle: "Some items need staff confirmation",
+    staffConfirmationHint: "Payment continues once a staff member confirms",
+    studentLimitNotice: "Limited per student ID each day",
+    dailyLimitReached: "This student ID has reached today's limit: {products}",
+  },
+  options: {
+    required: "Required",
+    optional: "Optional",
+    maxSelections: "Up to {count}",
+    addToCart: "Add {price}",
+  },
+  payment: {
+    cancelError: "An error occurred while cancelling the order",
+    missingOrder: "Order information is missing",
+    previousOrderCancelled: "Your previous order was cancelled",
+    requestCreateFailed: "Unable to create a payment request",
+    requestFailed: "Payment request failed",
+    studentIdRequested: "Student ID payment requested",
+    expired: "The payment time has expired.",
+    failedTitle: "Payment failed",
+    failedMessage: "The payment failed.",
+    invalidStudentId: "Invalid student ID format",
+    backToProducts: "Back to menu",
+    channelRealtime: "Live",
+    channelPolling: "Polling",
+    channelConnecting: "Connecting",
+    channelDisconnected: "Disconnected",
+    qrGenerating: "Generating QR code...",
+    qrScan: "Scan the QR code to pay",
+    waitForCompletion: "Please wait until the payment is complete",
+    studentIdRequestedTitle: "Student ID payment requested",
+    requestAgain: "Request again",
+    enterStudentId: "Enter your 4-digit student ID",
+    submitRequest: "Request payment",
+    qrMethod: "QR payment",
+    studentIdMethod: "Student ID",
+    totalAmount: "Total payment",
+    cancel: "Cancel payment",
+  },
+  complete: {
+    title: "Payment complete",
+    paidAmount: "Amount paid",
+    scanReceipt: "Scan with your phone\nto get a receipt",
+    autoRedirect: "Returning to the menu in {seconds} seconds",
+    printReceipt: "Print receipt",
+    backToMenu: "Back to menu",
+  },
+  receipt: {
+    total: "Total",
+    discount: "Discount",
+    scanHint: "Scan the QR code to view your receipt",
+  },
+  idle: {
+    title: "Are you still ordering?",
+    countdown:
+      "Your cart will be cleared and the screen will reset in {seconds} seconds",
+    continue: "Keep ordering",
+    touchToStart: "Touch the screen to start ordering",
+  },
+  disconnected: {
+    title: "The kiosk has been disconnected",
+    description: "The session has expired. Please ask a staff member.",
+    paymentPreserved:
+      "Your payment in progress will continue once the kiosk reconnects",
+    reconnectFailed: "Couldn't reconnect. Please sign in again.",
+    reconnect: "Reconnect",
+    reconnecting: "Connecting...",
+    signInAgain: "Sign in again",
+  },
+  pickupBoard: {
+    preparing: "Preparing",
+    ready: "Ready",
+    guide: "Pick up your order at the counter when your number appears",
+    chimeOn: "Chime on",
+    chimeOff: "Chime off",
+    fullscreen: "Full screen",
+    exitFullscreen: "Exit full screen",
+  },
+  notFound: {
+    title: "Page not found",
+    description: 'The requested path "{path}" could not be found.',
+    backToMenu: "Back to menu",
+  },
+  login: {
+    title: "Kiosk sign in",
+    username: "Username",
+    usernamePlaceholder: "Enter your username",
+    usernameRequired: "Please enter your username",
+    password: "Password",
+    passwordPlaceholder: "Enter your password",
+    passwordRequired: "Please enter your password",
+    submit: "Sign in",
+    failed: "Sign in failed",
+    or: "or",
+    registerWithQr: "Register with QR code",
+    backToCurrentBooth: "Back to current booth",
+    staffPin: "Staff PIN",
+    staffPinPlaceholder: "Choose a 4-digit PIN",
+    staffPinInvalid: "PIN must be 4 digits",
+  },
+  qrScanner: {
+    title: "Scan QR code",
+    checkingPermission: "Checking camera permission",
+    permissionRequired: "Camera permission required",
+    permissionDescription: "Camera access is needed to scan the QR code",
+    alignCode: "Place the QR code inside the frame",
+    processing: "Processing...",
+  },
+  staffPin: {
+    title: "Staff PIN",
+    enterPin: "Enter the {length}-digit PIN",
+    notSet: "No staff PIN has been set",
+    notSetHint: "No staff PIN has been set. Sign in again to set one",
+    incorrect: "Incorrect PIN",
+    verifyFailed: "Could not check the PIN",
+    locked: "Try again in {minutes}m {seconds}s",
+    close: "Close",
+  },
+  staff: {
+    title: "Staff menu",
+    close: "Close",
+    tabs: {
+      products: "Products",
+      orders: "Today's orders",
+      payment: "Payment",
+      booths: "Booths",
+      settings: "Settings",
+      system: "System",
+    },
+    phases: {
+      idle: "Idle",
+      orderCreated: "Order created",
+      requestPending: "Awaiting payment",
+      completed: "Paid",
+      failed: "Payment failed",
+      expired: "Payment expired",
+      cancelled: "Cancelled",
+    },
+    orderStatus: {
+      PENDING: "Awaiting payment",
+      PAID: "Paid",
+      CANCELLED: "Cancelled",
+    },
+    realtimeStatus: {
+      CONNECTED: "Connected",
+      CONNECTING: "Connecting",
+      DISCONNECTED: "Waiting to reconnect",
+      FAILED: "Connection failed",
+    },
+    soldOutNotice:
+      "Marked sold out on this kiosk only. Server stock is not changed.",
+    stock: "{count} in stock",
+    serverSoldOut: "Sold out on server",
+    soldOut: "Sold out",
+    onSale: "On sale",
+    loading: "Loading...",
+    ordersLoadFailed: "Could not load orders",
+    paidCount: "{count} paid",
+    paymentStatus: "Status",
+    orderNumber: "Order number",
+    paymentMethod: "Payment method",
+    remainingTime: "Time left",
+    seconds: "{seconds}s",
+    forceCancel: "Force cancel payment",
+    forceCancelling: "Cancelling...",
+    forceCancelFailed:
+      "Could not cancel the order on the server. Only the local payment was reset",
+    paymentCancelled: "Payment cancelled",
+    paymentResetOnly:
+      "Completed payments are not cancelled. Only the payment state was reset",
+    switchLocked: "Booths cannot be switched during a payment",
+    activeBooth: "In use",
+    removeBooth: "Remove",
+    switchBooth: "Switch",
+    addBooth: "Add booth",
+    switchFailed: "Could not switch booths",
+    confirmRemoveBooth: "Remove {name} from the booth list?",
+    network: "Network",
+    online: "Online",
+    offline: "Offline",
+    catalogSync: "Product sync",
+    catalogSyncFailed: "Failed",
+    realtimeStock: "Live stock",
+    resync: "Sync products again",
+    resyncing: "Syncing...",
+    resyncFailed: "Could not sync products",
+    resynced: "Products reloaded",
+    changePin: "Change PIN",
+    newPinPlaceholder: "New 4-digit PIN",
+    change: "Change",
+    pinChanged: "PIN changed",
+    pinChangeFailed: "Could not change the PIN",
+    signOut: "Disconnect kiosk",
+    confirmSignOut: "Disconnect this kiosk?",
+  },
+  staffSettings: {
+    apiUrl: "API URL",
+    wsUrl: "Realtime URL",
+    wsUrlPlaceholder: "Derived from the API URL",
+    paymentTimeout: "Payment time limit (s)",
+    idleTimeout: "Idle screen after (s)",
+    maxOrderQuantity: "Max items per order",
+    features: "Features",
+    featureLabels: {
+      qrPayment: "QR payment",
+      studentIdPayment: "Student ID payment",
+      attractScreen: "Idle screen",
+      languagePicker: "Language picker",
+    },
+    demoMode: "Demo mode",
+    on: "on",
+    off: "off",
+    reset: "Restore defaults",
+    save: "Save",
+    invalid: "Some settings are invalid",
+    saved: "Settings saved",
+    resetDone: "Settings restored to defaults",
+  },
+  demo: {
+    title: "Demo payment scenario",
+    description:
+      "The chosen result is sent once the set time passes after a payment request. Student IDs numbered 99 are treated as unregistered.",
+    outcomes: {
+      COMPLETED: "Auto complete",
+      FAILED: "Auto fail",
+      EXPIRED: "Auto expire",
+      MANUAL: "Manual",
+    },
+    settleStatus: {
+      COMPLETED: "complete",
+      FAILED: "fail",
+      EXPIRED: "expire",
+    },
+    delay: "Send result after",
+    seconds: "s",
+    settle: "Pending: {status}",
+    settled: "Marked {count} pending payments as {status}",
+    nothingToSettle: "No pending payments",
+    dropSockets: "Drop realtime connections",
+    socketsDropped: "Dropped {count} realtime connections",
+    resetData: "Reset demo data",
+    dataReset: "Demo data reset",
+  },
+};
+
+export default en;
@@ -0,0 +1,327 @@
+import type { Messages } from "./ko";
+
+const ja: Messages = {
+  common: {
+    retry: "再試行",
+    back: "戻る",
+    pickupNumber: "注文番号",
+    pickupGuide: "番号が呼ばれたらお受け取りください",
+    orderSummary: "注文内容",
+    quantity: "{count}個",
+    unitPrice: "（{price}/個）",
+    demoMode: "デモモード · 実際の決済は行われません",
+  },
+  errors: {
+    INSUFFICIENT_STOCK: "在庫が不足しています",
+    PRODUCT_NOT_FOUND: "一部の商品は販売できません",
+    PRODUCT_UNAVAILABLE: "販売終了した商品が含まれています",
+    ORDER_NOT_FOUND: "注文が見つかりません",
+    ORDER_NOT_PENDING: "すでに処理された注文です",
+    PURCHASE_LIMIT_EXCEEDED: "購入制限を超えた商品があります",
+    DAILY_LIMIT_EXCEEDED: "この学籍番号では本日の購入上限を超えています",
+    STAFF_CONFIRMATION_REQUIRED: "スタッフの確認が必要な商品があります",
+    USER_NOT_FOUND: "登録されていない学籍番号です",
+    COUPON_NOT_FOUND: "このクーポン番号は使用できません",
+    PROMOTION_CHANGED: "割引内容が変更されました。金額をご確認ください",
+    BOOTH_NOT_FOUND: "ブース情報が見つかりません",
+    BOOTH_NOT_APPROVED: "承認されていないブースです",
+    BOOTH_REJECTED: "却下されたブースです",
+    BOOTH_INACTIVE: "利用停止中のブースです",
+    BOOTH_PASSWORD_NOT_MATCH: "パスワードが一致しません",
+    INVALID_REQUEST:
+      "リクエスト内容が正しくありません。スタッフにお問い合わせください",
+    INVALID_RESPONSE:
+      "サーバーの応答を処理できません。スタッフにお問い合わせください",
+    NETWORK_ERROR: "ネットワーク接続を確認してください",
+    TIMEOUT: "サーバーの応答がタイムアウトしました",
+    UNKNOWN: "リクエストを処理できませんでした",
+  },
+  products: {
+    allCategories: "すべて",
+    otherCategory: "その他",
+    soldOut: "売り切れ",
+    stock: "在庫：{count}個",
+    offlineNotice: "オフラインです · {time} 時点の価格",
+    reconnect: "再接続",
+    reconnecting: "確認中...",
+    loading: "商品を読み込んでいます...",
+    loadFailed: "商品を読み込めません",
+    orderFailed: "注文の処理に失敗しました",
+    cartAdjusted: "在庫の変更によりカートが調整されました：{names}",
+    checkNetwork: "ネットワーク接続を確認してください",
+    selectProducts: "商品を選択してください",
+    soldOutAlert: "売り切れの商品です",
+  },
+  cart: {
+    title: "カート",
+    clear: "空にする",
+    empty: "カートは空です",
+    emptyHint: "商品を選択してください",
+    totalItems: "合計数量",
+    totalAmount: "合計金額",
+    checkout: "お支払いへ",
+  },
+  promotions: {
+    subtotal: "商品金額",
+    discount: "割引",
+    couponButton: "クーポン入力",
+    couponTitle: "クーポン番号の入力",
+    couponHint: "クーポンに記載された番号を入力してください",
+    couponApply: "適用する",
+    couponApplied: "クーポンが適用されました",
+    couponRemove: "クーポンを削除",
+    couponNotApplicable: "このクーポンは現在のご注文には適用されません",
+    close: "閉じる",
+  },
+  limits: {
+    perOrder: "1回{count}個まで",
+    perStudent: "学籍番号ごとに1日{count}個まで",
+    staffCheck: "スタッフ確認",
+    productLimitReached: "{name}は1回のご注文につき{count}個までです",
+    orderLimitReached: "1回のご注文は{count}個までです",
+    staffConfirmationTitle: "スタッフの確認が必要な商品があります",
+    staffConfirmationHint: "スタッフが確認するとお支払いに進みます",
+    studentLimitNotice: "学籍番号ごとに1日の購入数が制限されています",
+    dailyLimitReached: "この学籍番号は本日の購入上限に達しています：{products}",
+  },
+  options: {
+    required: "必須",
+    optional: "任意",
+    maxSelections: "最大{count}個",
+    addToCart: "{price} カートに入れる",
+  },
+  payment: {
+    cancelError: "注文のキャンセル中にエラーが発生しました",
+    missingOrder: "注文情報がありません",
+    previousOrderCancelled: "前回の注文はキャンセルされました",
+    requestCreateFailed: "決済リクエストを作成できません",
+    requestFailed: "決済リクエストに失敗しました",
+    studentIdRequested: "学籍番号決済をリクエストしました",
+    expired: "決済時間が過ぎました。",
+    failedTitle: "決済失敗",
+    failedMessage: "決済に失敗しました。",
+    invalidStudentId: "学籍番号の形式が正しくありません",
+    backToProducts: "商品一覧に戻る",
+    channelRealtime: "リアルタイム",
+    channelPolling: "定期確認",
+    channelConnecting: "接続中",
+    channelDisconnected: "接続切れ",
+    qrGenerating: "QRコードを生成しています...",
+    qrScan: "QRコードをスキャンしてお支払いください",
+    waitForCompletion: "決済が完了するまでお待ちください",
+    studentIdRequestedTitle: "学籍番号決済をリクエストしました",
+    requestAgain: "再リクエスト",
+    enterStudentId: "4桁の学籍番号を入力してください",
+    submitRequest: "決済をリクエスト",
+    qrMethod: "QR決済",
+    studentIdMethod: "学籍番号決済",
+    totalAmount: "お支払い合計",
+    cancel: "決済をキャンセル",
+  },
+  complete: {
+    title: "決済完了",
+    paidAmount: "決済金額",
+    scanReceipt: "スマートフォンでスキャンして\nレシートを受け取る",
+    autoRedirect: "{seconds}秒後に自動的に画面が切り替わります",
+    printReceipt: "レシートを印刷",
+    backToMenu: "メニューに戻る",
+  },
+  receipt: {
+    total: "合計",
+    discount: "割引",
+    scanHint: "QRコードでレシートを確認できます",
+  },
+  idle: {
+    title: "まだご注文中ですか？",
+    countdown: "{seconds}秒後にカートが空になり、最初の画面に戻ります",
+    continue: "注文を続ける",
+    touchToStart: "画面にタッチして注文を始めてください",
+  },
+  disconnected: {
+    title: "キオスクの接続が切れました",
+    description: "認証の有効期限が切れました。スタッフにお問い合わせください。",
+    paymentPreserved: "再接続すると進行中の決済を続けられます",
+    reconnectFailed: "再接続できませんでした。もう一度ログインしてください。",
+    reconnect: "再接続",
+    reconnecting: "接続中...",
+    signInAgain: "再ログイン",
+  },
+  pickupBoard: {
+    preparing: "準備中",
+    ready: "準備完了",
+    guide: "番号が表示されたらカウンターでお受け取りください",
+    chimeOn: "通知音オン",
+    chimeOff: "通知音オフ",
+    fullscreen: "全画面",
+    exitFullscreen: "全画面を終了",
+  },
+  notFound: {
+    title: "ページが見つかりません",
+    description: "リクエストされたパス「{path}」が見つかりません。",
+    backToMenu: "メニューに戻る",
+  },
+  login: {
+    title: "キオスクログイン",
+    username: "ID",
+    usernamePlaceholder: "IDを入力してください",
+    usernameRequired: "IDを入力してください",
+    password: "パスワード",
+    passwordPlaceholder: "パスワードを入力してください",
+    passwordRequired: "パスワードを入力してください",
+    submit: "ログイン",
+    failed: "ログインに失敗しました",
+    or: "または",
+    registerWithQr: "QRコードで登録",
+    backToCurrentBooth: "現在のブースに戻る",
+    staffPin: "管理者PIN",
+    staffPinPlaceholder: "4桁の数字を設定してください",
+    staffPinInvalid: "PINは4桁の数字です",
+  },
+  qrScanner: {
+    title: "QRコードスキャン",
+    checkingPermission: "カメラの権限を確認しています",
+    permissionRequired: "カメラの権限が必要です",
+    permissionDescription:
+      "QRコードをスキャンするにはカメラへのアクセス権限が必要です",
+    alignCode: "QRコードを枠内に合わせてください",
+    processing: "処理中...",
+  },
+  staffPin: {
+    title: "管理者PIN",
+    enterPin: "{length}桁のPINを入力してください",
+    notSet: "管理者PINが設定されていません",
+    notSetHint:
+      "管理者PINが設定されていません。再度ログインしてPINを設定してください",
+    incorrect: "PINが正しくありません",
+    verifyFailed: "PINを確認できません",
+    locked: "{minutes}分{seconds}秒後にもう一度お試しください",
+    close: "閉じる",
+  },
+  staff: {
+    title: "管理者メニュー",
+    close: "閉じる",
+    tabs: {
+      products: "商品",
+      orders: "本日の注文",
+      payment: "決済",
+      booths: "ブース",
+      settings: "設定",
+      system: "システム",
+    },
+    phases: {
+      idle: "待機",
+      orderCreated: "注文作成済み",
+      requestPending: "決済リクエスト中",
+      completed: "決済完了",
+      failed: "決済失敗",
+      expired: "決済期限切れ",
+      cancelled: "キャンセル済み",
+    },
+    orderStatus: {
+      PENDING: "決済待ち",
+      PAID: "決済完了",
+      CANCELLED: "キャンセル",
+    },
+    realtimeStatus: {
+      CONNECTED: "接続済み",
+      CONNECTING: "接続中",
+      DISCONNECTED: "再接続待ち",
+      FAILED: "接続失敗",
+    },
+    soldOutNotice:
+      "このキオスクでのみ品切れと表示されます。サーバーの在庫は変更されません。",
+    stock: "在庫 {count}個",
+    serverSoldOut: "サーバー品切れ",
+    soldOut: "品切れ",
+    onSale: "販売中",
+    loading: "読み込み中...",
+    ordersLoadFailed: "注文一覧を読み込めませんでした",
+    paidCount: "決済完了 {count}件",
+    paymentStatus: "状態",
+    orderNumber: "注文番号",
+    paymentMethod: "決済方法",
+    remainingTime: "残り時間",
+    seconds: "{seconds}秒",
+    forceCancel: "決済を強制キャンセル",
+    forceCancelling: "キャンセル中...",
+    forceCancelFailed:
+      "サーバーで注文をキャンセルできませんでした。ローカルの決済状態のみリセットします",
+    paymentCancelled: "決済がキャンセルされました",
+    paymentResetOnly:
+      "完了した決済はキャンセルされません。決済状態のみリセットしました",
+    switchLocked: "決済中はブースを切り替えられません",
+    activeBooth: "使用中",
+    removeBooth: "削除",
+    switchBooth: "切り替え",
+    addBooth: "ブースを追加",
+    switchFailed: "ブースを切り替えられませんでした",
+    confirmRemoveBooth: "{name}をブース一覧から削除しますか？",
+    network: "ネットワーク",
+    online: "オンライン",
+    offline: "オフライン",
+    catalogSync: "商品同期",
+    catalogSyncFailed: "失敗",
+    realtimeStock: "リアルタイム在庫",
+    resync: "商品一覧を再同期",
+    resyncing: "同期中...",
+    resyncFailed: "商品一覧の同期に失敗しました",
+    resynced: "商品一覧を再読み込みしました",
+    changePin: "PINを変更",
+    newPinPlaceholder: "新しい4桁のPIN",
+    change: "変更",
+    pinChanged: "PINを変更しました",
+    pinChangeFailed: "PINを変更できませんでした",
+    signOut: "キオスクの接続を解除",
+    confirmSignOut: "このキオスクの接続を解除しますか？",
+  },
+  staffSettings: {
+    apiUrl: "APIアドレス",
+    wsUrl: "リアルタイムアドレス",
+    wsUrlPlaceholder: "APIアドレスから自動設定",
+    paymentTimeout: "決済制限時間（秒）",
+    idleTimeout: "待機画面への切り替え（秒）",
+    maxOrderQuantity: "注文あたりの最大数量（個）",
+    features: "機能",
+    featureLabels: {
+      qrPayment: "QR決済",
+      studentIdPayment: "学籍番号決済",
+      attractScreen: "待機画面",
+      languagePicker: "言語選択",
+    },
+    demoMode: "デモモード",
+    on: "オン",
+    off: "オフ",
+    reset: "デフォルトに戻す",
+    save: "保存",
+    invalid: "設定値が正しくありません",
+    saved: "設定を保存しました",
+    resetDone: "デフォルト設定に戻しました",
+  },
+  demo: {
+    title: "デモ決済シナリオ",
+    description:
+      "決済リクエスト後、指定した時間が経過すると選択した結果が送信されます。番号が99の学籍番号は未登録として扱われます。",
+    outcomes: {
+      COMPLETED: "自動完了",
+      FAILED: "自動失敗",
+      EXPIRED: "自動期限切れ",
+      MANUAL: "手動処理",
+    },
+    settleStatus: {
+      COMPLETED: "完了",
+      FAILED: "失敗",
+      EXPIRED: "期限切れ",
+    },
+    delay: "結果送信まで",
+    seconds: "秒",
+    settle: "待機中の決済を{status}",
+    settled: "待機中の決済{count}件を{status}にしました",
+    nothingToSettle: "待機中の決済はありません",
+    dropSockets: "リアルタイム接続を切断",
+    socketsDropped: "リアルタイム接続を{count}件切断しました",
+    resetData: "デモデータを初期化",
+    dataReset: "デモデータを初期化しました",
+  },
+};
+
+export default ja;
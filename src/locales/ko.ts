@@ -0,0 +1,325 @@
+const ko = {
+  common: {
+    retry: "다시 시도",
+    back: "돌아가기",
+    pickupNumber: "주문 번호",
+    pickupGuide: "번호가 호출되면 음식을 받아가세요",
+    orderSummary: "주문 내역",
+    quantity: "{count}개",
+    unitPrice: "({price}/개)",
+    demoMode: "데모 모드 · 실제 결제가 이루어지지 않습니다",
+  },
+  errors: {
+    INSUFFICIENT_STOCK: "재고가 부족합니다",
+    PRODUCT_NOT_FOUND: "일부 상품이 판매 불가능합니다",
+    PRODUCT_UNAVAILABLE: "판매 중단된 상품이 포함되어 있습니다",
+    ORDER_NOT_FOUND: "주문을 찾을 수 없습니다",
+    ORDER_NOT_PENDING: "이미 처리된 주문입니다",
+    PURCHASE_LIMIT_EXCEEDED: "구매 가능 수량을 초과한 상품이 있습니다",
+    DAILY_LIMIT_EXCEEDED: "이 학번으로 오늘 구매할 수 있는 수량을 초과했습니다",
+    STAFF_CONFIRMATION_REQUIRED: "직원 확인이 필요한 상품이 있습니다",
+    USER_NOT_FOUND: "등록되지 않은 학번입니다",
+    COUPON_NOT_FOUND: "사용할 수 없는 쿠폰 번호입니다",
+    PROMOTION_CHANGED: "할인 정보가 변경되었습니다. 금액을 확인해주세요",
+    BOOTH_NOT_FOUND: "부스 정보를 찾을 수 없습니다",
+    BOOTH_NOT_APPROVED: "승인된 부스가 아닙니다",
+    BOOTH_REJECTED: "거절된 부스입니다",
+    BOOTH_INACTIVE: "금지된 부스입니다",
+    BOOTH_PASSWORD_NOT_MATCH: "비밀번호가 맞지 않습니다",
+    INVALID_REQUEST: "요청 정보가 올바르지 않습니다. 직원에게 문의해주세요",
+    INVALID_RESPONSE: "서버 응답을 처리할 수 없습니다. 직원에게 문의해주세요",
+    NETWORK_ERROR: "네트워크 연결을 확인해주세요",
+    TIMEOUT: "서버 응답 시간 초과",
+    UNKNOWN: "요청을 처리하지 못했습니다",
+  },
+  products: {
+    allCategories: "전체",
+    otherCategory: "기타",
+    soldOut: "품절",
+    stock: "재고: {count}개",
+    offlineNotice: "오프라인 상태입니다 · {time} 기준 가격",
+    reconnect: "다시 연결",
+    reconnecting: "확인 중...",
+    loading: "상품을 불러오는 중...",
+    loadFailed: "상품을 불러올 수 없습니다",
+    orderFailed: "주문 처리에 실패했습니다",
+    cartAdjusted: "재고 변경으로 장바구니가 조정되었습니다: {names}",
+    checkNetwork: "네트워크 연결을 확인해주세요",
+    selectProducts: "상품을 선택해주세요",
+    soldOutAlert: "품절된 상품입니다",
+  },
+  cart: {
+    title: "장바구니",
+    clear: "비우기",
+    empty: "장바구니가 비어있습니다",
+    emptyHint: "상품을 선택해주세요",
+    totalItems: "총 수량",
+    totalAmount: "총 금액",
+    checkout: "결제하기",
+  },
+  promotions: {
+    subtotal: "상품 금액",
+    discount: "할인",
+    couponButton: "쿠폰 입력",
+    couponTitle: "쿠폰 번호 입력",
+    couponHint: "쿠폰에 적힌 번호를 입력해주세요",
+    couponApply: "적용하기",
+    couponApplied: "쿠폰이 적용되었습니다",
+    couponRemove: "쿠폰 삭제",
+    couponNotApplicable: "현재 주문에는 적용되지 않는 쿠폰입니다",
+    close: "닫기",
+  },
+  limits: {
+    perOrder: "1회 최대 {count}개",
+    perStudent: "학번당 하루 {count}개",
+    staffCheck: "직원 확인",
+    productLimitReached:
+      "{name} 상품은 한 번에 최대 {count}개까지 주문할 수 있습니다",
+    orderLimitReached: "한 번에 최대 {count}개까지 주문할 수 있습니다",
+    staffConfirmationTitle: "직원 확인이 필요한 상품이 있습니다",
+    staffConfirmationHint: "직원에게 확인을 받은 뒤 결제가 진행됩니다",
+    studentLimitNotice: "학번당 하루 구매 수량이 제한된 상품입니다",
+    dailyLimitReached: "이 학번으로 오늘 더 구매할 수 없습니다: {products}",
+  },
+  options: {
+    required: "필수",
+    optional: "선택",
+    maxSelections: "최대 {count}개",
+    addToCart: "{price} 담기",
+  },
+  payment: {
+    cancelError: "주문 취소 중 오류가 발생했습니다",
+    missingOrder: "주문 정보가 없습니다",
+    previousOrderCancelled: "이전 주문이 취소되었습니다",
+    requestCreateFailed: "결제 요청을 생성할 수 없습니다",
+    requestFailed: "결제 요청에 실패했습니다",
+    studentIdRequested: "학번 결제 요청 완료",
+    expired: "결제 시간이 초과되었습니다.",
+    failedTitle: "결제 실패",
+    failedMessage: "결제가 실패했습니다.",
+    invalidStudentId: "올바른 학번 형식이 아닙니다",
+    backToProducts: "상품 목록으로 돌아가기",
+    channelRealtime: "실시간",
+    channelPolling: "주기 확인",
+    channelConnecting: "연결 중",
+    channelDisconnected: "연결 끊김",
+    qrGenerating: "QR 코드 생성 중...",
+    qrScan: "QR 코드를 스캔하여 결제해 주세요",
+    waitForCompletion: "결제가 완료될 때까지 기다려주세요",
+    studentIdRequestedTitle: "학번 결제가 요청되었습니다",
+    requestAgain: "다시 요청하기",
+    enterStudentId: "4자리 학번을 입력해주세요",
+    submitRequest: "결제 요청하기",
+    qrMethod: "QR 결제",
+    studentIdMethod: "학번 결제",
+    totalAmount: "총 결제 금액",
+    cancel: "결제 취소",
+  },
+  complete: {
+    title: "결제 완료",
+    paidAmount: "결제 금액",
+    scanReceipt: "휴대폰으로 스캔하여\n영수증 받기",
+    autoRedirect: "{seconds}초 후 자동으로 화면이 전환됩니다",
+    printReceipt: "영수증 출력",
+    backToMenu: "메뉴로 돌아가기",
+  },
+  receipt: {
+    total: "합계",
+    discount: "할인",
+    scanHint: "QR 코드로 영수증을 확인하세요",
+  },
+  idle: {
+    title: "아직 주문 중이신가요?",
+    countdown: "{seconds}초 후 장바구니가 비워지고 처음 화면으로 돌아갑니다",
+    continue: "계속 주문하기",
+    touchToStart: "화면을 터치하여 주문을 시작하세요",
+  },
+  disconnected: {
+    title: "키오스크 연결이 끊어졌습니다",
+    description: "인증이 만료되었습니다. 직원에게 문의해주세요.",
+    paymentPreserved: "진행 중인 결제는 다시 연결하면 이어서 진행됩니다",
+    reconnectFailed: "다시 연결하지 못했습니다. 다시 로그인해주세요.",
+    reconnect: "다시 연결",
+    reconnecting: "연결 중...",
+    signInAgain: "다시 로그인",
+  },
+  pickupBoard: {
+    preparing: "준비 중",
+    ready: "준비 완료",
+    guide: "번호가 표시되면 카운터에서 받아가세요",
+    chimeOn: "알림음 켜짐",
+    chimeOff: "알림음 꺼짐",
+    fullscreen: "전체 화면",
+    exitFullscreen: "전체 화면 종료",
+  },
+  notFound: {
+    title: "페이지를 찾을 수 없습니다",
+    description: '요청하신 경로 "{path}"를 찾을 수 없습니다.',
+    backToMenu: "메인으로 돌아가기",
+  },
+  login: {
+    title: "키오스크 로그인",
+    username: "아이디",
+    usernamePlaceholder: "아이디를 입력하세요",
+    usernameRequired: "아이디를 입력해주세요",
+    password: "비밀번호",
+    passwordPlaceholder: "비밀번호를 입력하세요",
+    passwordRequired: "비밀번호를 입력해주세요",
+    submit: "로그인",
+    failed: "로그인에 실패했습니다",
+    or: "또는",
+    registerWithQr: "QR 코드로 등록하기",
+    backToCurrentBooth: "현재 부스로 돌아가기",
+    staffPin: "관리자 PIN",
+    staffPinPlaceholder: "처음 사용할 숫자 4자리",
+    staffPinInvalid: "PIN은 숫자 4자리여야 합니다",
+  },
+  qrScanner: {
+    title: "QR 코드 스캔",
+    checkingPermission: "카메라 권한을 확인하는 중입니다",
+    permissionRequired: "카메라 권한이 필요합니다",
+    permissionDescription: "QR 코드를 스캔하려면 카메라 접근 권한이 필요합니다",
+    alignCode: "QR 코드를 프레임 안에 위치시켜주세요",
+    processing: "처리 중...",
+  },
+  staffPin: {
+    title: "관리자 PIN",
+    enterPin: "{length}자리 PIN을 입력해주세요",
+    notSet: "관리자 PIN이 설정되지 않았습니다",
+    notSetHint:
+      "관리자 PIN이 설정되지 않았습니다. 다시 로그인하여 PIN을 설정해주세요",
+    incorrect: "PIN이 올바르지 않습니다",
+    verifyFailed: "PIN을 확인할 수 없습니다",
+    locked: "{minutes}분 {seconds}초 후 다시 시도해주세요",
+    close: "닫기",
+  },
+  staff: {
+    title: "관리자 메뉴",
+    close: "닫기",
+    tabs: {
+      products: "상품",
+      orders: "오늘 주문",
+      payment: "결제",
+      booths: "부스",
+      settings: "설정",
+      system: "시스템",
+    },
+    phases: {
+      idle: "대기",
+      orderCreated: "주문 생성됨",
+      requestPending: "결제 요청 중",
+      completed: "결제 완료",
+      failed: "결제 실패",
+      expired: "결제 만료",
+      cancelled: "취소됨",
+    },
+    orderStatus: {
+      PENDING: "결제 대기",
+      PAID: "결제 완료",
+      CANCELLED: "취소",
+    },
+    realtimeStatus: {
+      CONNECTED: "연결됨",
+      CONNECTING: "연결 중",
+      DISCONNECTED: "재연결 대기",
+      FAILED: "연결 실패",
+    },
+    soldOutNotice:
+      "이 키오스크에서만 품절로 표시됩니다. 서버 재고는 변경되지 않습니다.",
+    stock: "재고 {count}개",
+    serverSoldOut: "서버 품절",
+    soldOut: "품절",
+    onSale: "판매 중",
+    loading: "불러오는 중...",
+    ordersLoadFailed: "주문 목록을 불러오지 못했습니다",
+    paidCount: "결제 완료 {count}건",
+    paymentStatus: "상태",
+    orderNumber: "주문 번호",
+    paymentMethod: "결제 수단",
+    remainingTime: "남은 시간",
+    seconds: "{seconds}초",
+    forceCancel: "결제 강제 취소",
+    forceCancelling: "취소 중...",
+    forceCancelFailed:
+      "서버 주문 취소에 실패했습니다. 로컬 결제 상태만 초기화합니다",
+    paymentCancelled: "결제가 취소되었습니다",
+    paymentResetOnly:
+      "완료된 결제는 취소되지 않습니다. 결제 상태만 초기화했습니다",
+    switchLocked: "결제가 진행 중일 때는 부스를 전환할 수 없습니다",
+    activeBooth: "사용 중",
+    removeBooth: "삭제",
+    switchBooth: "전환",
+    addBooth: "부스 추가",
+    switchFailed: "부스를 전환하지 못했습니다",
+    confirmRemoveBooth: "{name} 부스를 목록에서 삭제하시겠습니까?",
+    network: "네트워크",
+    online: "온라인",
+    offline: "오프라인",
+    catalogSync: "상품 동기화",
+    catalogSyncFailed: "실패",
+    realtimeStock: "실시간 재고",
+    resync: "상품 목록 다시 동기화",
+    resyncing: "동기화 중...",
+    resyncFailed: "상품 목록 동기화에 실패했습니다",
+    resynced: "상품 목록을 다시 불러왔습니다",
+    changePin: "PIN 변경",
+    newPinPlaceholder: "새 PIN 4자리",
+    change: "변경",
+    pinChanged: "PIN이 변경되었습니다",
+    pinChangeFailed: "PIN을 변경하지 못했습니다",
+    signOut: "키오스크 연결 해제",
+    confirmSignOut: "이 키오스크의 연결을 해제하시겠습니까?",
+  },
+  staffSettings: {
+    apiUrl: "API 주소",
+    wsUrl: "실시간 주소",
+    wsUrlPlaceholder: "API 주소에서 자동 설정",
+    paymentTimeout: "결제 제한 시간 (초)",
+    idleTimeout: "대기 화면 전환 (초)",
+    maxOrderQuantity: "주문당 최대 수량 (개)",
+    features: "기능",
+    featureLabels: {
+      qrPayment: "QR 결제",
+      studentIdPayment: "학번 결제",
+      attractScreen: "대기 화면",
+      languagePicker: "언어 선택",
+    },
+    demoMode: "데모 모드",
+    on: "켜짐",
+    off: "꺼짐",
+    reset: "기본값으로 되돌리기",
+    save: "저장",
+    invalid: "설정 값이 올바르지 않습니다",
+    saved: "설정이 저장되었습니다",
+    resetDone: "기본 설정으로 되돌렸습니다",
+  },
+  demo: {
+    title: "데모 결제 시나리오",
+    description:
+      "결제 요청 후 지정한 시간이 지나면 선택한 결과가 전송됩니다. 번호가 99인 학번은 미등록 학번으로 처리됩니다.",
+    outcomes: {
+      COMPLETED: "자동 완료",
+      FAILED: "자동 실패",
+      EXPIRED: "자동 만료",
+      MANUAL: "직접 처리",
+    },
+    settleStatus: {
+      COMPLETED: "완료",
+      FAILED: "실패",
+      EXPIRED: "만료",
+    },
+    delay: "결과 전송까지",
+    seconds: "초",
+    settle: "대기 결제 {status}",
+    settled: "대기 중인 결제 {count}건을 {status} 처리했습니다",
+    nothingToSettle: "대기 중인 결제가 없습니다",
+    dropSockets: "실시간 연결 끊기",
+    socketsDropped: "실시간 연결 {count}개를 끊었습니다",
+    resetData: "데모 데이터 초기화",
+    dataReset: "데모 데이터를 초기화했습니다",
+  },
+};
+
+export type Messages = typeof ko;
+
+export default ko;
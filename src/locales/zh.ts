@@ -0,0 +1,320 @@
+import type { Messages } from "./ko";
+
+const zh: Messages = {
+  common: {
+    retry: "重试",
+    back: "返回",
+    pickupNumber: "订单号",
+    pickupGuide: "叫到您的号码时请取餐",
+    orderSummary: "订单明细",
+    quantity: "{count}个",
+    unitPrice: "（{price}/个）",
+    demoMode: "演示模式 · 不会产生实际付款",
+  },
+  errors: {
+    INSUFFICIENT_STOCK: "库存不足",
+    PRODUCT_NOT_FOUND: "部分商品无法购买",
+    PRODUCT_UNAVAILABLE: "订单中包含已停售的商品",
+    ORDER_NOT_FOUND: "找不到订单",
+    ORDER_NOT_PENDING: "该订单已处理",
+    PURCHASE_LIMIT_EXCEEDED: "部分商品超出限购数量",
+    DAILY_LIMIT_EXCEEDED: "该学号今日的购买数量已达上限",
+    STAFF_CONFIRMATION_REQUIRED: "部分商品需要工作人员确认",
+    USER_NOT_FOUND: "该学号未注册",
+    COUPON_NOT_FOUND: "该优惠券号码无法使用",
+    PROMOTION_CHANGED: "优惠信息已变更，请确认金额",
+    BOOTH_NOT_FOUND: "找不到摊位信息",
+    BOOTH_NOT_APPROVED: "该摊位尚未获批",
+    BOOTH_REJECTED: "该摊位已被拒绝",
+    BOOTH_INACTIVE: "该摊位已被禁用",
+    BOOTH_PASSWORD_NOT_MATCH: "密码错误",
+    INVALID_REQUEST: "请求信息无效，请联系工作人员",
+    INVALID_RESPONSE: "无法处理服务器响应，请联系工作人员",
+    NETWORK_ERROR: "请检查网络连接",
+    TIMEOUT: "服务器响应超时",
+    UNKNOWN: "无法处理请求",
+  },
+  products: {
+    allCategories: "全部",
+    otherCategory: "其他",
+    soldOut: "售罄",
+    stock: "库存：{count}个",
+    offlineNotice: "当前处于离线状态 · 价格截至 {time}",
+    reconnect: "重新连接",
+    reconnecting: "检查中...",
+    loading: "正在加载商品...",
+    loadFailed: "无法加载商品",
+    orderFailed: "订单处理失败",
+    cartAdjusted: "由于库存变化，购物车已调整：{names}",
+    checkNetwork: "请检查网络连接",
+    selectProducts: "请选择商品",
+    soldOutAlert: "该商品已售罄",
+  },
+  cart: {
+    title: "购物车",
+    clear: "清空",
+    empty: "购物车是空的",
+    emptyHint: "请选择商品",
+    totalItems: "总数量",
+    totalAmount: "总金额",
+    checkout: "去付款",
+  },
+  promotions: {
+    subtotal: "商品金额",
+    discount: "优惠",
+    couponButton: "输入优惠券",
+    couponTitle: "输入优惠券号码",
+    couponHint: "请输入优惠券上的号码",
+    couponApply: "使用",
+    couponApplied: "优惠券已使用",
+    couponRemove: "删除优惠券",
+    couponNotApplicable: "该优惠券不适用于当前订单",
+    close: "关闭",
+  },
+  limits: {
+    perOrder: "每单限{count}个",
+    perStudent: "每个学号每天限{count}个",
+    staffCheck: "需工作人员确认",
+    productLimitReached: "{name}每单最多可购买{count}个",
+    orderLimitReached: "每单最多可购买{count}件商品",
+    staffConfirmationTitle: "部分商品需要工作人员确认",
+    staffConfirmationHint: "工作人员确认后将继续付款",
+    studentLimitNotice: "每个学号每天限购的商品",
+    dailyLimitReached: "该学号今日已达到购买上限：{products}",
+  },
+  options: {
+    required: "必选",
+    optional: "可选",
+    maxSelections: "最多{count}个",
+    addToCart: "{price} 加入购物车",
+  },
+  payment: {
+    cancelError: "取消订单时出错",
+    missingOrder: "没有订单信息",
+    previousOrderCancelled: "之前的订单已取消",
+    requestCreateFailed: "无法创建付款请求",
+    requestFailed: "付款请求失败",
+    studentIdRequested: "学号付款请求已发送",
+    expired: "付款已超时。",
+    failedTitle: "付款失败",
+    failedMessage: "付款失败。",
+    invalidStudentId: "学号格式不正确",
+    backToProducts: "返回商品列表",
+    channelRealtime: "实时",
+    channelPolling: "定期检查",
+    channelConnecting: "连接中",
+    channelDisconnected: "连接断开",
+    qrGenerating: "正在生成二维码...",
+    qrScan: "请扫描二维码付款",
+    waitForCompletion: "请等待付款完成",
+    studentIdRequestedTitle: "已发送学号付款请求",
+    requestAgain: "重新请求",
+    enterStudentId: "请输入4位学号",
+    submitRequest: "请求付款",
+    qrMethod: "二维码付款",
+    studentIdMethod: "学号付款",
+    totalAmount: "应付总额",
+    cancel: "取消付款",
+  },
+  complete: {
+    title: "付款完成",
+    paidAmount: "付款金额",
+    scanReceipt: "用手机扫描\n获取收据",
+    autoRedirect: "{seconds}秒后自动返回",
+    printReceipt: "打印收据",
+    backToMenu: "返回菜单",
+  },
+  receipt: {
+    total: "合计",
+    discount: "优惠",
+    scanHint: "扫描二维码查看收据",
+  },
+  idle: {
+    title: "您还在点餐吗？",
+    countdown: "{seconds}秒后将清空购物车并返回首页",
+    continue: "继续点餐",
+    touchToStart: "触摸屏幕开始点餐",
+  },
+  disconnected: {
+    title: "自助终端已断开连接",
+    description: "认证已过期，请联系工作人员。",
+    paymentPreserved: "重新连接后将继续进行中的付款",
+    reconnectFailed: "无法重新连接，请重新登录。",
+    reconnect: "重新连接",
+    reconnecting: "连接中...",
+    signInAgain: "重新登录",
+  },
+  pickupBoard: {
+    preparing: "准备中",
+    ready: "可取餐",
+    guide: "显示您的号码后请到柜台取餐",
+    chimeOn: "提示音开",
+    chimeOff: "提示音关",
+    fullscreen: "全屏",
+    exitFullscreen: "退出全屏",
+  },
+  notFound: {
+    title: "找不到页面",
+    description: "找不到请求的路径“{path}”。",
+    backToMenu: "返回菜单",
+  },
+  login: {
+    title: "自助终端登录",
+    username: "账号",
+    usernamePlaceholder: "请输入账号",
+    usernameRequired: "请输入账号",
+    password: "密码",
+    passwordPlaceholder: "请输入密码",
+    passwordRequired: "请输入密码",
+    submit: "登录",
+    failed: "登录失败",
+    or: "或",
+    registerWithQr: "使用二维码注册",
+    backToCurrentBooth: "返回当前摊位",
+    staffPin: "管理员 PIN",
+    staffPinPlaceholder: "请设置4位数字 PIN",
+    staffPinInvalid: "PIN 必须是4位数字",
+  },
+  qrScanner: {
+    title: "扫描二维码",
+    checkingPermission: "正在检查相机权限",
+    permissionRequired: "需要相机权限",
+    permissionDescription: "扫描二维码需要相机访问权限",
+    alignCode: "请将二维码放入框内",
+    processing: "处理中...",
+  },
+  staffPin: {
+    title: "管理员 PIN",
+    enterPin: "请输入{length}位 PIN",
+    notSet: "尚未设置管理员 PIN",
+    notSetHint: "尚未设置管理员 PIN。请重新登录以设置 PIN",
+    incorrect: "PIN 不正确",
+    verifyFailed: "无法验证 PIN",
+    locked: "请在{minutes}分{seconds}秒后重试",
+    close: "关闭",
+  },
+  staff: {
+    title: "管理员菜单",
+    close: "关闭",
+    tabs: {
+      products: "商品",
+      orders: "今日订单",
+      payment: "支付",
+      booths: "摊位",
+      settings: "设置",
+      system: "系统",
+    },
+    phases: {
+      idle: "空闲",
+      orderCreated: "已创建订单",
+      requestPending: "等待支付",
+      completed: "支付完成",
+      failed: "支付失败",
+      expired: "支付已过期",
+      cancelled: "已取消",
+    },
+    orderStatus: {
+      PENDING: "待支付",
+      PAID: "已支付",
+      CANCELLED: "已取消",
+    },
+    realtimeStatus: {
+      CONNECTED: "已连接",
+      CONNECTING: "连接中",
+      DISCONNECTED: "等待重新连接",
+      FAILED: "连接失败",
+    },
+    soldOutNotice: "仅在本终端显示为售罄，服务器库存不会改变。",
+    stock: "库存 {count}件",
+    serverSoldOut: "服务器售罄",
+    soldOut: "售罄",
+    onSale: "在售",
+    loading: "加载中...",
+    ordersLoadFailed: "无法加载订单列表",
+    paidCount: "已支付 {count}单",
+    paymentStatus: "状态",
+    orderNumber: "订单号",
+    paymentMethod: "支付方式",
+    remainingTime: "剩余时间",
+    seconds: "{seconds}秒",
+    forceCancel: "强制取消支付",
+    forceCancelling: "取消中...",
+    forceCancelFailed: "无法在服务器上取消订单，仅重置了本地支付状态",
+    paymentCancelled: "支付已取消",
+    paymentResetOnly: "已完成的支付不会被取消，仅重置了支付状态",
+    switchLocked: "支付进行中时无法切换摊位",
+    activeBooth: "使用中",
+    removeBooth: "删除",
+    switchBooth: "切换",
+    addBooth: "添加摊位",
+    switchFailed: "无法切换摊位",
+    confirmRemoveBooth: "要从列表中删除摊位 {name} 吗？",
+    network: "网络",
+    online: "在线",
+    offline: "离线",
+    catalogSync: "商品同步",
+    catalogSyncFailed: "失败",
+    realtimeStock: "实时库存",
+    resync: "重新同步商品",
+    resyncing: "同步中...",
+    resyncFailed: "商品同步失败",
+    resynced: "已重新加载商品",
+    changePin: "更改 PIN",
+    newPinPlaceholder: "新的4位 PIN",
+    change: "更改",
+    pinChanged: "PIN 已更改",
+    pinChangeFailed: "无法更改 PIN",
+    signOut: "断开终端连接",
+    confirmSignOut: "要断开此终端的连接吗？",
+  },
+  staffSettings: {
+    apiUrl: "API 地址",
+    wsUrl: "实时地址",
+    wsUrlPlaceholder: "根据 API 地址自动设置",
+    paymentTimeout: "支付时限（秒）",
+    idleTimeout: "待机画面切换（秒）",
+    maxOrderQuantity: "每单最大数量（件）",
+    features: "功能",
+    featureLabels: {
+      qrPayment: "二维码支付",
+      studentIdPayment: "学号支付",
+      attractScreen: "待机画面",
+      languagePicker: "语言选择",
+    },
+    demoMode: "演示模式",
+    on: "开",
+    off: "关",
+    reset: "恢复默认值",
+    save: "保存",
+    invalid: "设置值无效",
+    saved: "设置已保存",
+    resetDone: "已恢复默认设置",
+  },
+  demo: {
+    title: "演示支付场景",
+    description:
+      "发起支付请求并经过设定时间后，将发送所选结果。编号为99的学号视为未注册学号。",
+    outcomes: {
+      COMPLETED: "自动完成",
+      FAILED: "自动失败",
+      EXPIRED: "自动过期",
+      MANUAL: "手动处理",
+    },
+    settleStatus: {
+      COMPLETED: "完成",
+      FAILED: "失败",
+      EXPIRED: "过期",
+    },
+    delay: "结果发送前",
+    seconds: "秒",
+    settle: "待处理支付{status}",
+    settled: "已将 {count} 笔待处理支付标记为{status}",
+    nothingToSettle: "没有待处理的支付",
+    dropSockets: "断开实时连接",
+    socketsDropped: "已断开 {count} 个实时连接",
+    resetData: "重置演示数据",
+    dataReset: "演示数据已重置",
+  },
+};
+
+export default zh;
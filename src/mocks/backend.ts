@@ -0,0 +1,828 @@
+import {
+  AxiosError,
+  type AxiosAdapter,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import { getLineUnits } from "../domain/cart";
+import { priceCart } from "../domain/promotions";
+import {
+  getSlotChoices,
+  isSetProduct,
+  resolveSetProducts,
+} from "../domain/stock";
+import {
+  couponCodeSchema,
+  createOrderRequestSchema,
+  kioskLoginRequestSchema,
+  orderFulfillmentStatusSchema,
+} from "../libs/api-schemas";
+import { getTokenExpiry } from "../libs/jwt";
+import { getRuntimeConfig } from "../stores/config";
+import { useDemoStore } from "../stores/demo";
+import type { OrderItemResponse, OrderResponse } from "../types/order";
+import type {
+  PaymentRequestStatus,
+  SettledPaymentRequestStatus,
+} from "../types/payment";
+import type { ProductResponse } from "../types/product";
+import { MOCK_PRODUCTS } from "./products";
+import { MOCK_PROMOTIONS } from "./promotions";
+import { broadcastMockMessage, onMockSocketConnect } from "./socket";
+
+interface MockPaymentRequest {
+  id: number;
+  orderId: number;
+  token: string;
+  status: PaymentRequestStatus;
+  message?: string;
+  studentId?: string;
+  expiresAt: string;
+}
+
+interface MockDatabase {
+  products: ProductResponse[];
+  orders: OrderResponse[];
+  paymentRequests: MockPaymentRequest[];
+  nextOrderId: number;
+  nextPaymentRequestId: number;
+  nextPickupNumber: number;
+}
+
+interface MockRequest {
+  params: string[];
+  query: Record<string, unknown>;
+  body: unknown;
+}
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  authenticated: boolean;
+  handle: (request: MockRequest) => unknown;
+}
+
+const STORAGE_KEY = "kiosk-mock-backend";
+const RESPONSE_DELAY = 200;
+const TOKEN_LIFETIME = 30 * 60 * 1000;
+const REFRESH_TOKEN_PREFIX = "mock-refresh:";
+const UNREGISTERED_STUDENT_NUMBER = "99";
+
+const PRODUCTS_CHANNEL = "/ws/kiosks/products";
+const ORDERS_CHANNEL = "/ws/kiosks/orders";
+const paymentChannel = (requestId: number) =>
+  `/ws/payment-requests/${requestId}`;
+
+const FAILED_PAYMENT_MESSAGE = "데모 결제가 거절되었습니다";
+
+class MockHttpError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const createDatabase = (): MockDatabase => ({
+  products: structuredClone(MOCK_PRODUCTS),
+  orders: [],
+  paymentRequests: [],
+  nextOrderId: 1,
+  nextPaymentRequestId: 1,
+  nextPickupNumber: 1,
+});
+
+const loadDatabase = (): MockDatabase => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return JSON.parse(stored) as MockDatabase;
+  } catch (error) {
+    console.error("Mock backend load error:", error);
+  }
+  return createDatabase();
+};
+
+let db = loadDatabase();
+const paymentTimers = new Map<number, number[]>();
+
+const saveDatabase = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(db));
+  } catch (error) {
+    console.error("Mock backend save error:", error);
+  }
+};
+
+const wait = (ms: number) =>
+  new Promise<void>((resolve) => window.setTimeout(resolve, ms));
+
+const toBase64Url = (value: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(value)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const issueTokens = (subject: string) => {
+  const header = toBase64Url(JSON.stringify({ alg: "none", typ: "JWT" }));
+  const payload = toBase64Url(
+    JSON.stringify({
+      sub: subject,
+      exp: Math.floor((Date.now() + TOKEN_LIFETIME) / 1000),
+    })
+  );
+
+  return {
+    accessToken: `${header}.${payload}.mock`,
+    refreshToken: `${REFRESH_TOKEN_PREFIX}${subject}`,
+  };
+};
+
+const isTokenValid = (authorization: unknown) => {
+  if (typeof authorization !== "string") return false;
+
+  const token = authorization.replace(/^Bearer\s+/i, "");
+  if (!token) return false;
+
+  const expiresAt = getTokenExpiry(token);
+  return expiresAt === null || expiresAt > Date.now();
+};
+
+const toLocalDate = (value: string) => {
+  const date = new Date(value);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const findProduct = (productId: number) => {
+  const product = db.products.find((p) => p.id === productId);
+  if (!product) {
+    throw new MockHttpError(
+      404,
+      "PRODUCT_NOT_FOUND",
+      "상품을 찾을 수 없습니다"
+    );
+  }
+  return product;
+};
+
+const findOrder = (orderId: number) => {
+  const order = db.orders.find((o) => o.id === orderId);
+  if (!order) {
+    throw new MockHttpError(404, "ORDER_NOT_FOUND", "주문을 찾을 수 없습니다");
+  }
+  return order;
+};
+
+const findPendingOrder = (orderId: number) => {
+  const order = findOrder(orderId);
+  if (order.status !== "PENDING") {
+    throw new MockHttpError(409, "ORDER_NOT_PENDING", "이미 처리된 주문입니다");
+  }
+  return order;
+};
+
+const findCoupon = (code: string) => {
+  const coupon = MOCK_PROMOTIONS.find((promotion) => promotion.code === code);
+  if (!couponCodeSchema.safeParse(code).success || !coupon) {
+    throw new MockHttpError(
+      404,
+      "COUPON_NOT_FOUND",
+      "사용할 수 없는 쿠폰입니다"
+    );
+  }
+  return coupon;
+};
+
+// The kiosk sends the discount it showed; the server prices the order again
+// and refuses it when a promotion started or ended in between.
+const getOrderDiscount = (
+  items: OrderItemResponse[],
+  couponCode: string | null
+) => {
+  if (couponCode) findCoupon(couponCode);
+
+  return priceCart(
+    items.map((item, index) => ({
+      key: String(index),
+      id: item.productId,
+      name: item.productName,
+      basePrice: item.unitPrice,
+      price: item.unitPrice,
+      options: [],
+      quantity: item.quantity,
+    })),
+    MOCK_PROMOTIONS,
+    { now: new Date(), couponCode }
+  ).discountTotal;
+};
+
+// Sets have no stock of their own; kiosks derive it from the components.
+const broadcastStock = (products: ProductResponse[]) => {
+  broadcastMockMessage(
+    PRODUCTS_CHANNEL,
+    products
+      .filter((product) => !isSetProduct(product))
+      .map(({ id, stock, status }) => ({ productId: id, stock, status }))
+  );
+};
+
+const getStockUnits = (item: OrderItemResponse) =>
+  getLineUnits({ id: item.productId, components: item.components }).map(
+    (unit) => ({ ...unit, quantity: unit.quantity * item.quantity })
+  );
+
+// Units of each product an order item buys: the item itself and, for a set,
+// its components.
+const getPurchasedUnits = (item: OrderItemResponse) => [
+  { productId: item.productId, quantity: item.quantity },
+  ...(item.components ? getStockUnits(item) : []),
+];
+
+const countPurchased = (items: OrderItemResponse[], productId: number) =>
+  items
+    .flatMap(getPurchasedUnits)
+    .filter((unit) => unit.productId === productId)
+    .reduce((sum, unit) => sum + unit.quantity, 0);
+
+const adjustStock = (items: OrderItemResponse[], direction: 1 | -1) => {
+  const changed = items.flatMap(getStockUnits).map((unit) => {
+    const product = findProduct(unit.productId);
+    product.stock += unit.quantity * direction;
+    product.updatedAt = new Date().toISOString();
+    return product;
+  });
+  broadcastStock(changed);
+};
+
+const clearPaymentTimers = (requestId: number) => {
+  paymentTimers.get(requestId)?.forEach((timer) => clearTimeout(timer));
+  paymentTimers.delete(requestId);
+};
+
+const settlePaymentRequest = (
+  request: MockPaymentRequest,
+  status: SettledPaymentRequestStatus
+) => {
+  if (request.status !== "PENDING") return;
+
+  clearPaymentTimers(request.id);
+  request.status = status;
+  request.message = status === "FAILED" ? FAILED_PAYMENT_MESSAGE : undefined;
+
+  if (status === "COMPLETED") {
+    const order = findOrder(request.orderId);
+    order.status = "PAID";
+    order.fulfillmentStatus = "RECEIVED";
+    order.pickupNumber = String(db.nextPickupNumber++);
+    broadcastMockMessage(ORDERS_CHANNEL, order);
+  }
+
+  saveDatabase();
+  broadcastMockMessage(paymentChannel(request.id), {
+    status: request.status,
+    message: request.message,
+  });
+};
+
+const schedulePaymentRequest = (request: MockPaymentRequest) => {
+  const timers: number[] = [];
+  const expiresIn = new Date(request.expiresAt).getTime() - Date.now();
+
+  timers.push(
+    window.setTimeout(
+      () => settlePaymentRequest(request, "EXPIRED"),
+      Math.max(0, expiresIn)
+    )
+  );
+
+  const { paymentOutcome, paymentDelay } = useDemoStore.getState();
+  if (paymentOutcome !== "MANUAL") {
+    timers.push(
+      window.setTimeout(
+        () => settlePaymentRequest(request, paymentOutcome),
+        paymentDelay * 1000
+      )
+    );
+  }
+
+  paymentTimers.set(request.id, timers);
+};
+
+const createPaymentRequest = (orderId: number, studentId?: string) => {
+  findPendingOrder(orderId);
+
+  db.paymentRequests
+    .filter((r) => r.orderId === orderId && r.status === "PENDING")
+    .forEach((r) => settlePaymentRequest(r, "EXPIRED"));
+
+  const request: MockPaymentRequest = {
+    id: db.nextPaymentRequestId++,
+    orderId,
+    token: crypto.randomUUID(),
+    status: "PENDING",
+    studentId,
+    expiresAt: new Date(
+      Date.now() + getRuntimeConfig().paymentTimeout * 1000
+    ).toISOString(),
+  };
+
+  db.paymentRequests.push(request);
+  saveDatabase();
+  schedulePaymentRequest(request);
+  return request;
+};
+
+const createOrder = ({ body }: MockRequest) => {
+  const result = createOrderRequestSchema.safeParse(body);
+  if (!result.success) {
+    throw new MockHttpError(400, "INVALID_REQUEST", "잘못된 주문 요청입니다");
+  }
+
+  const items = result.data.items.map((item): OrderItemResponse => {
+    const product = findProduct(item.productId);
+    if (product.status !== "AVAILABLE") {
+      throw new MockHttpError(
+        409,
+        "PRODUCT_UNAVAILABLE",
+        `${product.name} 상품은 판매 중이 아닙니다`
+      );
+    }
+
+    const options = item.options.map(({ groupId, optionId }) => {
+      const option = product.optionGroups
+        ?.find((group) => group.id === groupId)
+        ?.options.find((o) => o.id === optionId);
+      if (!option) {
+        throw new MockHttpError(400, "INVALID_REQUEST", "잘못된 옵션입니다");
+      }
+      return option;
+    });
+
+    const slots = product.components ?? [];
+    if ((item.components?.length ?? 0) !== slots.length) {
+      throw new MockHttpError(400, "INVALID_REQUEST", "잘못된 세트 구성입니다");
+    }
+
+    const components = slots.map((slot) => {
+      const productId = item.components?.find(
+        (component) => component.slotId === slot.id
+      )?.productId;
+      if (
+        productId === undefined ||
+        !getSlotChoices(slot).includes(productId)
+      ) {
+        throw new MockHttpError(
+          400,
+          "INVALID_REQUEST",
+          "잘못된 세트 구성입니다"
+        );
+      }
+
+      const component = findProduct(productId);
+      if (component.status !== "AVAILABLE") {
+        throw new MockHttpError(
+          409,
+          "PRODUCT_UNAVAILABLE",
+          `${component.name} 상품은 판매 중이 아닙니다`
+        );
+      }
+
+      return {
+        productId,
+        productName: component.name,
+        quantity: slot.quantity,
+        priceDelta:
+          slot.swaps?.find((swap) => swap.productId === productId)
+            ?.priceDelta ?? 0,
+      };
+    });
+
+    const unitPrice =
+      product.price +
+      options.reduce((sum, option) => sum + option.priceDelta, 0) +
+      components.reduce((sum, component) => sum + component.priceDelta, 0);
+
+    return {
+      productId: product.id,
+      productName: product.name,
+      quantity: item.quantity,
+      unitPrice,
+      linePrice: unitPrice * item.quantity,
+      options: options.map((option) => ({
+        optionId: option.id,
+        optionName: option.name,
+      })),
+      ...(components.length > 0 && {
+        components: components.map(({ productId, productName, quantity }) => ({
+          productId,
+          productName,
+          quantity,
+        })),
+      }),
+    };
+  });
+
+  const quantities = new Map<number, number>();
+  items
+    .flatMap(getStockUnits)
+    .forEach((unit) =>
+      quantities.set(
+        unit.productId,
+        (quantities.get(unit.productId) ?? 0) + unit.quantity
+      )
+    );
+  quantities.forEach((quantity, productId) => {
+    const product = findProduct(productId);
+    if (quantity > product.stock) {
+      throw new MockHttpError(
+        409,
+        "INSUFFICIENT_STOCK",
+        `${product.name} 재고가 부족합니다`
+      );
+    }
+  });
+
+  const purchased = new Set(
+    items.flatMap(getPurchasedUnits).map((unit) => unit.productId)
+  );
+  purchased.forEach((productId) => {
+    const product = findProduct(productId);
+    if (
+      product.maxPerOrder &&
+      countPurchased(items, productId) > product.maxPerOrder
+    ) {
+      throw new MockHttpError(
+        409,
+        "PURCHASE_LIMIT_EXCEEDED",
+        `${product.name} 상품은 한 번에 ${product.maxPerOrder}개까지 주문할 수 있습니다`
+      );
+    }
+    if (product.requiresStaffConfirmation && !result.data.staffConfirmed) {
+      throw new MockHttpError(
+        409,
+        "STAFF_CONFIRMATION_REQUIRED",
+        `${product.name} 상품은 직원 확인이 필요합니다`
+      );
+    }
+  });
+
+  const discount = result.data.discount;
+  const discountAmount = getOrderDiscount(items, discount?.couponCode ?? null);
+  if (discountAmount !== (discount?.amount ?? 0)) {
+    throw new MockHttpError(
+      409,
+      "PROMOTION_CHANGED",
+      "할인 정보가 변경되었습니다"
+    );
+  }
+
+  const order: OrderResponse = {
+    id: db.nextOrderId++,
+    status: "PENDING",
+    totalAmount:
+      items.reduce((sum, item) => sum + item.linePrice, 0) - discountAmount,
+    discountAmount,
+    pickupNumber: null,
+    items,
+    receiptUrl: null,
+    createdAt: new Date().toISOString(),
+  };
+
+  db.orders.push(order);
+  adjustStock(items, -1);
+  saveDatabase();
+  return { id: order.id };
+};
+
+const cancelOrder = ({ params: [orderId] }: MockRequest) => {
+  const order = findPendingOrder(Number(orderId));
+
+  order.status = "CANCELLED";
+  adjustStock(order.items ?? [], 1);
+  db.paymentRequests
+    .filter((r) => r.orderId === order.id && r.status === "PENDING")
+    .forEach((r) => settlePaymentRequest(r, "EXPIRED"));
+  saveDatabase();
+  return null;
+};
+
+const updateFulfillment = ({ params: [orderId], body }: MockRequest) => {
+  const order = findOrder(Number(orderId));
+  const result = orderFulfillmentStatusSchema.safeParse(
+    (body as { fulfillmentStatus?: unknown } | null)?.fulfillmentStatus
+  );
+  if (!result.success) {
+    throw new MockHttpError(400, "INVALID_REQUEST", "잘못된 조리 상태입니다");
+  }
+
+  order.fulfillmentStatus = result.data;
+  saveDatabase();
+  broadcastMockMessage(ORDERS_CHANNEL, order);
+  return order;
+};
+
+const createStudentIdPayment = ({ body }: MockRequest) => {
+  const { orderId, studentId } = (body ?? {}) as {
+    orderId?: unknown;
+    studentId?: unknown;
+  };
+
+  if (typeof studentId !== "string" || !/^\d{4}$/.test(studentId)) {
+    throw new MockHttpError(400, "INVALID_REQUEST", "잘못된 학번입니다");
+  }
+  if (studentId.slice(2) === UNREGISTERED_STUDENT_NUMBER) {
+    throw new MockHttpError(404, "USER_NOT_FOUND", "등록되지 않은 학번입니다");
+  }
+
+  const order = findPendingOrder(Number(orderId));
+  const today = toLocalDate(new Date().toISOString());
+  const paidToday = db.orders.filter(
+    (o) =>
+      o.status === "PAID" &&
+      toLocalDate(o.createdAt) === today &&
+      db.paymentRequests.some(
+        (r) =>
+          r.orderId === o.id &&
+          r.status === "COMPLETED" &&
+          r.studentId === studentId
+      )
+  );
+  db.products
+    .filter((product) => product.dailyLimitPerStudent)
+    .forEach((product) => {
+      const quantity = countPurchased(order.items ?? [], product.id);
+      if (
+        quantity > 0 &&
+        countPurchased(
+          paidToday.flatMap((o) => o.items ?? []),
+          product.id
+        ) +
+          quantity >
+          product.dailyLimitPerStudent!
+      ) {
+        throw new MockHttpError(
+          409,
+          "DAILY_LIMIT_EXCEEDED",
+          `${product.name} 상품은 학번당 하루 ${product.dailyLimitPerStudent}개까지 구매할 수 있습니다`
+        );
+      }
+    });
+
+  const { id, token, expiresAt } = createPaymentRequest(order.id, studentId);
+  return { id, token, expiresAt };
+};
+
+const routes: MockRoute[] = [
+  {
+    method: "POST",
+    pattern: /^\/kiosks\/login$/,
+    authenticated: false,
+    handle: ({ body }) => {
+      const result = kioskLoginRequestSchema.safeParse(body);
+      if (!result.success) {
+        throw new MockHttpError(
+          400,
+          "INVALID_REQUEST",
+          "잘못된 로그인 요청입니다"
+        );
+      }
+      return issueTokens(result.data.username.trim());
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/kiosks\/register$/,
+    authenticated: false,
+    handle: ({ body }) => {
+      const { registrationToken } = (body ?? {}) as {
+        registrationToken?: unknown;
+      };
+      if (typeof registrationToken !== "string" || !registrationToken) {
+        throw new MockHttpError(
+          404,
+          "BOOTH_NOT_FOUND",
+          "부스를 찾을 수 없습니다"
+        );
+      }
+      return issueTokens("데모 부스");
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/kiosks\/refresh$/,
+    authenticated: false,
+    handle: ({ body }) => {
+      const { refreshToken } = (body ?? {}) as { refreshToken?: unknown };
+      if (
+        typeof refreshToken !== "string" ||
+        !refreshToken.startsWith(REFRESH_TOKEN_PREFIX)
+      ) {
+        throw new MockHttpError(401, "UNAUTHORIZED", "다시 로그인해주세요");
+      }
+      return issueTokens(refreshToken.slice(REFRESH_TOKEN_PREFIX.length));
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/products\/available$/,
+    authenticated: true,
+    handle: () =>
+      resolveSetProducts(db.products).filter((p) => p.status !== "HIDDEN"),
+  },
+  {
+    method: "GET",
+    pattern: /^\/promotions\/active$/,
+    authenticated: true,
+    handle: () => MOCK_PROMOTIONS.filter((promotion) => !promotion.code),
+  },
+  {
+    method: "GET",
+    pattern: /^\/promotions\/coupons\/([^/]+)$/,
+    authenticated: true,
+    handle: ({ params: [code] }) => findCoupon(decodeURIComponent(code)),
+  },
+  {
+    method: "POST",
+    pattern: /^\/orders$/,
+    authenticated: true,
+    handle: createOrder,
+  },
+  {
+    method: "GET",
+    pattern: /^\/orders$/,
+    authenticated: true,
+    handle: ({ query }) =>
+      db.orders.filter(
+        (order) =>
+          (!query.status || order.status === query.status) &&
+          (!query.date || toLocalDate(order.createdAt) === query.date)
+      ),
+  },
+  {
+    method: "GET",
+    pattern: /^\/orders\/(\d+)$/,
+    authenticated: true,
+    handle: ({ params: [orderId] }) => findOrder(Number(orderId)),
+  },
+  {
+    method: "POST",
+    pattern: /^\/orders\/(\d+)\/cancel$/,
+    authenticated: true,
+    handle: cancelOrder,
+  },
+  {
+    method: "PATCH",
+    pattern: /^\/orders\/(\d+)\/fulfillment$/,
+    authenticated: true,
+    handle: updateFulfillment,
+  },
+  {
+    method: "POST",
+    pattern: /^\/payments\/qr$/,
+    authenticated: true,
+    handle: ({ body }) => {
+      const { orderId } = (body ?? {}) as { orderId?: unknown };
+      const { id, token, expiresAt } = createPaymentRequest(Number(orderId));
+      return { id, token, expiresAt };
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/payments\/student-id$/,
+    authenticated: true,
+    handle: createStudentIdPayment,
+  },
+  {
+    method: "GET",
+    pattern: /^\/payments\/requests\/(\d+)$/,
+    authenticated: true,
+    handle: ({ params: [requestId] }) => {
+      const request = db.paymentRequests.find(
+        (r) => r.id === Number(requestId)
+      );
+      if (!request) {
+        throw new MockHttpError(
+          404,
+          "NOT_FOUND",
+          "결제 요청을 찾을 수 없습니다"
+        );
+      }
+      return { status: request.status, message: request.message };
+    },
+  },
+];
+
+const parseBody = (data: unknown) => {
+  if (typeof data !== "string") return data ?? null;
+
+  try {
+    return JSON.parse(data) as unknown;
+  } catch {
+    return data;
+  }
+};
+
+const toResponse = <T>(
+  config: InternalAxiosRequestConfig,
+  status: number,
+  data: T
+): AxiosResponse<T> => ({
+  data,
+  status,
+  statusText: String(status),
+  headers: {},
+  config,
+  request: null,
+});
+
+export const mockAdapter: AxiosAdapter = async (config) => {
+  await wait(RESPONSE_DELAY);
+
+  const method = (config.method ?? "get").toUpperCase();
+  const url = new URL(config.url ?? "/", "http://mock.local");
+
+  try {
+    for (const route of routes) {
+      if (route.method !== method) continue;
+
+      const match = url.pathname.match(route.pattern);
+      if (!match) continue;
+
+      if (route.authenticated && !isTokenValid(config.headers.Authorization)) {
+        throw new MockHttpError(401, "UNAUTHORIZED", "인증이 만료되었습니다");
+      }
+
+      const data = route.handle({
+        params: match.slice(1),
+        query: {
+          ...Object.fromEntries(url.searchParams),
+          ...(config.params as Record<string, unknown> | undefined),
+        },
+        body: parseBody(config.data),
+      });
+      return toResponse(config, 200, structuredClone(data));
+    }
+
+    throw new MockHttpError(404, "NOT_FOUND", `${method} ${url.pathname}`);
+  } catch (error) {
+    if (!(error instanceof MockHttpError)) throw error;
+
+    const response = toResponse(config, error.status, {
+      code: error.code,
+      message: error.message,
+    });
+    throw new AxiosError(
+      error.message,
+      error.status >= 500
+        ? AxiosError.ERR_BAD_RESPONSE
+        : AxiosError.ERR_BAD_REQUEST,
+      config,
+      null,
+      response
+    );
+  }
+};
+
+export const settleMockPayments = (
+  status: SettledPaymentRequestStatus
+): number => {
+  const pending = db.paymentRequests.filter((r) => r.status === "PENDING");
+  pending.forEach((request) => settlePaymentRequest(request, status));
+  return pending.length;
+};
+
+export const updateMockProduct = (
+  productId: number,
+  changes: Partial<Pick<ProductResponse, "stock" | "status">>,
+  { broadcast = true }: { broadcast?: boolean } = {}
+) => {
+  const product = findProduct(productId);
+  Object.assign(product, changes, { updatedAt: new Date().toISOString() });
+  saveDatabase();
+
+  if (broadcast) {
+    broadcastStock([product]);
+  }
+};
+
+export const resetMockBackend = () => {
+  Array.from(paymentTimers.keys()).forEach(clearPaymentTimers);
+  db = createDatabase();
+  saveDatabase();
+  broadcastStock(db.products);
+};
+
+onMockSocketConnect((path) => {
+  const request = db.paymentRequests.find((r) => paymentChannel(r.id) === path);
+  if (!request || request.status === "PENDING") return undefined;
+
+  return { status: request.status, message: request.message };
+});
+
+db.paymentRequests
+  .filter((request) => request.status === "PENDING")
+  .forEach(schedulePaymentRequest);
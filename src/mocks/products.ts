@@ -0,0 +1,190 @@
+import type { ProductResponse } from "../types/product";
+
+const SEEDED_AT = "2025-01-01T00:00:00.000Z";
+
+const product = (
+  fields: Omit<ProductResponse, "createdAt" | "updatedAt">
+): ProductResponse => ({
+  ...fields,
+  createdAt: SEEDED_AT,
+  updatedAt: SEEDED_AT,
+});
+
+export const MOCK_PRODUCTS: ProductResponse[] = [
+  product({
+    id: 1,
+    name: "떡볶이",
+    price: 3000,
+    description: "국물 떡볶이 한 컵",
+    imageUrl: null,
+    category: "분식",
+    optionGroups: [
+      {
+        id: 11,
+        name: "맵기",
+        required: true,
+        multiple: false,
+        options: [
+          { id: 111, name: "순한맛", priceDelta: 0 },
+          { id: 112, name: "보통맛", priceDelta: 0 },
+          { id: 113, name: "매운맛", priceDelta: 0 },
+        ],
+      },
+      {
+        id: 12,
+        name: "토핑",
+        required: false,
+        multiple: true,
+        maxSelections: 2,
+        options: [
+          { id: 121, name: "치즈", priceDelta: 500 },
+          { id: 122, name: "삶은 달걀", priceDelta: 500 },
+          { id: 123, name: "어묵 추가", priceDelta: 700 },
+        ],
+      },
+    ],
+    status: "AVAILABLE",
+    stock: 30,
+    sortOrder: 1,
+  }),
+  product({
+    id: 2,
+    name: "순대",
+    price: 3500,
+    description: "찰순대와 간, 허파",
+    imageUrl: null,
+    category: "분식",
+    status: "AVAILABLE",
+    stock: 20,
+    sortOrder: 2,
+  }),
+  product({
+    id: 3,
+    name: "어묵꼬치",
+    price: 1000,
+    description: null,
+    imageUrl: null,
+    category: "분식",
+    status: "AVAILABLE",
+    stock: 50,
+    sortOrder: 3,
+  }),
+  product({
+    id: 4,
+    name: "츄러스",
+    price: 2000,
+    description: "시나몬 설탕을 듬뿍 뿌린 츄러스",
+    imageUrl: null,
+    category: "간식",
+    optionGroups: [
+      {
+        id: 41,
+        name: "소스",
+        required: false,
+        multiple: false,
+        options: [
+          { id: 411, name: "초코 소스", priceDelta: 300 },
+          { id: 412, name: "연유 소스", priceDelta: 300 },
+        ],
+      },
+    ],
+    status: "AVAILABLE",
+    stock: 3,
+    sortOrder: 4,
+  }),
+  product({
+    id: 5,
+    name: "회오리 감자",
+    price: 2500,
+    description: null,
+    imageUrl: null,
+    category: "간식",
+    status: "SOLD_OUT",
+    stock: 0,
+    sortOrder: 5,
+  }),
+  product({
+    id: 6,
+    name: "아이스티",
+    price: 1500,
+    description: "복숭아 아이스티",
+    imageUrl: null,
+    category: "음료",
+    optionGroups: [
+      {
+        id: 61,
+        name: "사이즈",
+        required: true,
+        multiple: false,
+        options: [
+          { id: 611, name: "레귤러", priceDelta: 0 },
+          { id: 612, name: "라지", priceDelta: 500 },
+        ],
+      },
+    ],
+    status: "AVAILABLE",
+    stock: 40,
+    sortOrder: 6,
+  }),
+  product({
+    id: 7,
+    name: "생수",
+    price: 800,
+    description: null,
+    imageUrl: null,
+    category: "음료",
+    status: "AVAILABLE",
+    stock: 60,
+    sortOrder: 7,
+  }),
+  product({
+    id: 8,
+    name: "어묵 + 음료 세트",
+    price: 2500,
+    description: "어묵꼬치 2개와 음료 한 잔",
+    imageUrl: null,
+    category: "세트",
+    components: [
+      { id: 81, name: "어묵꼬치", productId: 3, quantity: 2 },
+      {
+        id: 82,
+        name: "음료",
+        productId: 7,
+        quantity: 1,
+        swaps: [{ productId: 6, priceDelta: 500 }],
+      },
+    ],
+    status: "AVAILABLE",
+    stock: 0,
+    sortOrder: 8,
+  }),
+  product({
+    id: 9,
+    name: "간식 세트",
+    price: 4000,
+    description: "회오리 감자와 츄러스",
+    imageUrl: null,
+    category: "세트",
+    components: [
+      { id: 91, name: "회오리 감자", productId: 5, quantity: 1 },
+      { id: 92, name: "츄러스", productId: 4, quantity: 1 },
+    ],
+    status: "AVAILABLE",
+    stock: 0,
+    sortOrder: 9,
+  }),
+  product({
+    id: 10,
+    name: "에너지 드링크",
+    price: 2000,
+    description: "고카페인 음료",
+    imageUrl: null,
+    category: "음료",
+    status: "AVAILABLE",
+    stock: 20,
+    maxPerOrder: 2,
+    dailyLimitPerStudent: 3,
+    requiresStaffConfirmation: true,
+    sortOrder: 10,
+  }),
+];
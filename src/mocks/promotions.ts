@@ -0,0 +1,37 @@
+import type { PromotionResponse } from "../types/promotion";
+
+export const MOCK_PROMOTIONS: PromotionResponse[] = [
+  {
+    id: 1,
+    name: "어묵꼬치 2+1",
+    type: "BUNDLE",
+    productIds: [3],
+    buyQuantity: 3,
+    payQuantity: 2,
+  },
+  {
+    id: 2,
+    name: "오후 3시 이후 츄러스 10% 할인",
+    type: "TIME_WINDOW",
+    productIds: [4],
+    startTime: "15:00",
+    endTime: "24:00",
+    percentOff: 10,
+  },
+  {
+    id: 3,
+    name: "10% 할인 쿠폰",
+    type: "PERCENTAGE",
+    code: "1234",
+    percentOff: 10,
+    minOrderAmount: 5000,
+  },
+  {
+    id: 4,
+    name: "2,000원 할인 쿠폰",
+    type: "FIXED",
+    code: "5000",
+    amountOff: 2000,
+    minOrderAmount: 10000,
+  },
+];
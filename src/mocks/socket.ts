@@ -0,0 +1,97 @@
+import type { RealtimeSocket } from "../libs/realtime";
+
+const CONNECT_DELAY = 150;
+const ABNORMAL_CLOSURE = 1006;
+
+type ConnectListener = (path: string) => unknown;
+
+const sockets = new Set<MockSocket>();
+const connectListeners = new Set<ConnectListener>();
+
+export class MockSocket implements RealtimeSocket {
+  readyState: number = WebSocket.CONNECTING;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+
+  readonly path: string;
+
+  constructor(url: string) {
+    this.path = new URL(url).pathname;
+
+    window.setTimeout(() => {
+      if (this.readyState !== WebSocket.CONNECTING) return;
+
+      this.readyState = WebSocket.OPEN;
+      sockets.add(this);
+      this.onopen?.(new Event("open"));
+
+      connectListeners.forEach((listener) => {
+        const message = listener(this.path);
+        if (message !== undefined) this.deliver(message);
+      });
+    }, CONNECT_DELAY);
+  }
+
+  send(data: string) {
+    if (this.readyState !== WebSocket.OPEN) return;
+
+    try {
+      const message = JSON.parse(data) as { type?: unknown };
+      if (message.type === "PING") {
+        this.deliver({ type: "PONG" });
+      }
+    } catch (error) {
+      console.warn(`Mock socket message parse error (${this.path}):`, error);
+    }
+  }
+
+  close(code = 1000, reason = "") {
+    if (
+      this.readyState === WebSocket.CLOSING ||
+      this.readyState === WebSocket.CLOSED
+    ) {
+      return;
+    }
+
+    this.readyState = WebSocket.CLOSED;
+    sockets.delete(this);
+    window.setTimeout(() => {
+      this.onclose?.(new CloseEvent("close", { code, reason }));
+    }, 0);
+  }
+
+  deliver(message: unknown) {
+    if (this.readyState !== WebSocket.OPEN) return;
+
+    window.setTimeout(() => {
+      if (this.readyState !== WebSocket.OPEN) return;
+      this.onmessage?.(
+        new MessageEvent("message", { data: JSON.stringify(message) })
+      );
+    }, 0);
+  }
+}
+
+// A listener may return a message that is sent to the socket right after it
+// opens, mirroring a server that pushes the current state on subscribe.
+export const onMockSocketConnect = (listener: ConnectListener) => {
+  connectListeners.add(listener);
+  return () => {
+    connectListeners.delete(listener);
+  };
+};
+
+export const broadcastMockMessage = (path: string, message: unknown) => {
+  sockets.forEach((socket) => {
+    if (socket.path === path) socket.deliver(message);
+  });
+};
+
+export const dropMockSockets = (): number => {
+  const count = sockets.size;
+  Array.from(sockets).forEach((socket) =>
+    socket.close(ABNORMAL_CLOSURE, "Mock connection dropped")
+  );
+  return count;
+};
@@ -0,0 +1,305 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { useNavigate } from "react-router-dom";
+import { motion, AnimatePresence } from "framer-motion";
+import { useMutation } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import { getItemDetails } from "@/domain/cart";
+import { updateOrderFulfillment } from "@/libs/endpoints";
+import useOrderQueue from "@/hooks/use-order-queue";
+import type { OrderFulfillmentStatus, OrderResponse } from "@/types/order";
+
+interface QueueColumn {
+  status: OrderFulfillmentStatus;
+  title: string;
+  accent: string;
+}
+
+interface FulfillmentUpdate {
+  order: OrderResponse;
+  fulfillmentStatus: OrderFulfillmentStatus;
+}
+
+const QUEUE_COLUMNS: QueueColumn[] = [
+  { status: "RECEIVED", title: "접수", accent: "#64748B" },
+  { status: "PREPARING", title: "준비 중", accent: "#F59E0B" },
+  { status: "READY", title: "준비 완료", accent: "#22C55E" },
+];
+
+const NEXT_ACTIONS: Partial<
+  Record<
+    OrderFulfillmentStatus,
+    { label: string; next: OrderFulfillmentStatus }
+  >
+> = {
+  RECEIVED: { label: "준비 시작", next: "PREPARING" },
+  PREPARING: { label: "준비 완료", next: "READY" },
+  READY: { label: "픽업 완료", next: "PICKED_UP" },
+};
+
+const getFulfillmentStatus = (order: OrderResponse): OrderFulfillmentStatus =>
+  order.fulfillmentStatus ?? "RECEIVED";
+
+const getPickupNumber = (order: OrderResponse): string =>
+  order.pickupNumber ?? String(order.id);
+
+export default function KitchenPage(): React.ReactElement {
+  const navigate = useNavigate();
+  const [now, setNow] = useState<number>(() => Date.now());
+  const isMounted = useRef<boolean>(true);
+
+  const handleOrderUpdated = useCallback(
+    (order: OrderResponse, previous?: OrderResponse) => {
+      if (!previous && order.status === "PAID" && !order.fulfillmentStatus) {
+        toast.success(`새 주문 #${getPickupNumber(order)}`);
+      }
+    },
+    []
+  );
+
+  const { orders, isLoading, isError, realtimeStatus, refetch, updateOrder } =
+    useOrderQueue(handleOrderUpdated);
+
+  useEffect(() => {
+    isMounted.current = true;
+
+    const interval = window.setInterval(() => {
+      if (isMounted.current) {
+        setNow(Date.now());
+      }
+    }, 30000);
+
+    return () => {
+      isMounted.current = false;
+      clearInterval(interval);
+    };
+  }, []);
+
+  const fulfillmentMutation = useMutation({
+    mutationFn: ({ order, fulfillmentStatus }: FulfillmentUpdate) =>
+      updateOrderFulfillment(order.id, fulfillmentStatus),
+    onSuccess: (order) => {
+      updateOrder(order);
+    },
+    onError: (error, { order }) => {
+      console.error("Fulfillment update error:", error);
+      toast.error(`#${getPickupNumber(order)} 주문 상태 변경에 실패했습니다`);
+    },
+  });
+
+  const ordersByStatus = useMemo(
+    () =>
+      QUEUE_COLUMNS.reduce<Record<string, OrderResponse[]>>((acc, column) => {
+        acc[column.status] = orders.filter(
+          (order) => getFulfillmentStatus(order) === column.status
+        );
+        return acc;
+      }, {}),
+    [orders]
+  );
+
+  const getRealtimeStatusColor = useCallback(() => {
+    switch (realtimeStatus) {
+      case "CONNECTED":
+        return "#22C55E";
+      case "CONNECTING":
+        return "#F59E0B";
+      default:
+        return "#3B82F6";
+    }
+  }, [realtimeStatus]);
+
+  const getRealtimeStatusLabel = useCallback(() => {
+    if (realtimeStatus === "CONNECTED") return "실시간";
+    if (realtimeStatus === "CONNECTING") return "연결 중";
+    return "주기 확인";
+  }, [realtimeStatus]);
+
+  const handleAdvance = useCallback(
+    (order: OrderResponse) => {
+      const action = NEXT_ACTIONS[getFulfillmentStatus(order)];
+      if (!action) return;
+
+      fulfillmentMutation.mutate({ order, fulfillmentStatus: action.next });
+    },
+    [fulfillmentMutation]
+  );
+
+  const renderOrderCard = useCallback(
+    (order: OrderResponse) => {
+      const action = NEXT_ACTIONS[getFulfillmentStatus(order)];
+      const elapsedMinutes = Math.max(
+        0,
+        Math.floor((now - new Date(order.createdAt).getTime()) / 60000)
+      );
+      const isUpdating =
+        fulfillmentMutation.isPending &&
+        fulfillmentMutation.variables?.order.id === order.id;
+
+      return (
+        <motion.div
+          key={order.id}
+          layout
+          className="p-4 mb-3 bg-[#FFFFFF] rounded-xl border border-[#E2E8F0]"
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.95 }}
+          transition={{ duration: 0.2 }}
+        >
+          <div className="flex items-baseline justify-between mb-3">
+            <span className="text-3xl font-bold text-[#1E293B]">
+              #{getPickupNumber(order)}
+            </span>
+            <span
+              className={`text-sm font-medium ${
+                elapsedMinutes >= 10 ? "text-[#DC2626]" : "text-[#64748B]"
+              }`}
+            >
+              {new Date(order.createdAt).toLocaleTimeString("ko-KR", {
+                hour: "2-digit",
+                minute: "2-digit",
+              })}{" "}
+              · {elapsedMinutes}분 경과
+            </span>
+          </div>
+
+          <div className="mb-4">
+            {(order.items ?? []).map((item, index) => (
+              <div
+                key={`${item.productId}-${index}`}
+                className="py-1.5 border-b border-[#F1F5F9] last:border-b-0"
+              >
+                <p className="text-base font-semibold text-[#1E293B]">
+                  {item.productName}{" "}
+                  <span className="text-[#4F46E5]">x{item.quantity}</span>
+                </p>
+                {getItemDetails(item).length > 0 && (
+                  <p className="text-sm text-[#64748B]">
+                    {getItemDetails(item).join(", ")}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {action && (
+            <motion.button
+              className={`w-full py-3 text-base font-semibold text-[#FFFFFF] rounded-lg ${
+                isUpdating ? "bg-[#CBD5E1]" : "bg-[#4F46E5]"
+              }`}
+              onClick={() => handleAdvance(order)}
+              disabled={isUpdating}
+              whileHover={!isUpdating ? { backgroundColor: "#4338CA" } : {}}
+              whileTap={!isUpdating ? { scale: 0.98 } : {}}
+            >
+              {isUpdating ? "처리 중..." : action.label}
+            </motion.button>
+          )}
+        </motion.div>
+      );
+    },
+    [
+      now,
+      fulfillmentMutation.isPending,
+      fulfillmentMutation.variables,
+      handleAdvance,
+    ]
+  );
+
+  const renderColumn = useCallback(
+    (column: QueueColumn) => {
+      const columnOrders = ordersByStatus[column.status] ?? [];
+
+      return (
+        <div
+          key={column.status}
+          className="flex flex-col flex-1 min-w-0 bg-[#F8FAFC] rounded-2xl"
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-[#E2E8F0]">
+            <div className="flex items-center">
+              <span
+                className="w-2.5 h-2.5 mr-2 rounded-full"
+                style={{ backgroundColor: column.accent }}
+              />
+              <h2 className="text-lg font-bold text-[#1E293B]">
+                {column.title}
+              </h2>
+            </div>
+            <span className="text-base font-semibold text-[#64748B]">
+              {columnOrders.length}
+            </span>
+          </div>
+          <div className="flex-1 p-3 overflow-auto">
+            <AnimatePresence>
+              {columnOrders.map((order) => renderOrderCard(order))}
+            </AnimatePresence>
+          </div>
+        </div>
+      );
+    },
+    [ordersByStatus, renderOrderCard]
+  );
+
+  return (
+    <div className="flex flex-col h-screen bg-[#FFFFFF]">
+      <header className="flex items-center justify-between px-6 py-4 border-b border-[#F1F5F9]">
+        <h1 className="text-2xl font-bold text-[#1E293B]">
+          <span className="text-[#6366F1]">Flick</span> Place{" "}
+          <span className="text-lg font-semibold text-[#64748B]">주방</span>
+        </h1>
+        <div className="flex items-center gap-3">
+          <div className="flex items-center px-3 py-1.5 bg-[#F1F5F9] rounded-lg">
+            <span
+              className="w-2 h-2 mr-2 rounded-full"
+              style={{ backgroundColor: getRealtimeStatusColor() }}
+            />
+            <span className="text-sm font-medium text-[#475569]">
+              {getRealtimeStatusLabel()}
+            </span>
+          </div>
+          <motion.button
+            className="px-4 py-2 text-sm font-medium text-[#475569] bg-[#F1F5F9] rounded-lg"
+            onClick={() => navigate("/products")}
+            whileHover={{ backgroundColor: "#E2E8F0" }}
+            whileTap={{ scale: 0.98 }}
+          >
+            키오스크 화면
+          </motion.button>
+        </div>
+      </header>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center flex-1">
+          <motion.div
+            className="w-10 h-10 border-4 border-[#4F46E5] border-t-transparent rounded-full"
+            animate={{ rotate: 360 }}
+            transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+          />
+        </div>
+      ) : isError && orders.length === 0 ? (
+        <div className="flex flex-col items-center justify-center flex-1">
+          <p className="mb-4 text-lg font-medium text-[#475569]">
+            주문 목록을 불러오지 못했습니다
+          </p>
+          <motion.button
+            className="px-6 py-3 text-base font-semibold text-[#FFFFFF] bg-[#4F46E5] rounded-xl"
+            onClick={() => refetch()}
+            whileHover={{ backgroundColor: "#4338CA" }}
+            whileTap={{ scale: 0.98 }}
+          >
+            다시 시도
+          </motion.button>
+        </div>
+      ) : (
+        <main className="flex flex-1 gap-4 p-4 overflow-hidden">
+          {QUEUE_COLUMNS.map((column) => renderColumn(column))}
+        </main>
+      )}
+    </div>
+  );
+}
@@ -1,43 +1,50 @@
-import { API_URL } from "@/constants/api";
 import { useAuthStore } from "@/stores/auth";
-import axios, { isAxiosError } from "axios";
 import React, { useCallback, useEffect, useRef, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useMutation } from "@tanstack/react-query";
-import { useCartStore } from "@/stores/cart";
 import { usePaymentStore } from "@/stores/payment";
+import { useStaffStore } from "@/stores/staff";
+import { isPaymentInProgress } from "@/libs/payment-machine";
 import { motion } from "framer-motion";
+import { toApiError } from "@/libs/api";
+import { loginKiosk } from "@/libs/endpoints";
+import useTranslation from "@/hooks/use-translation";
+import { isMessageKey, type MessageKey } from "@/libs/i18n";
 
-interface ErrorResponse {
-  code: string;
-  status: number;
-  message: string;
-}
-
-const ERROR_CODES: Record<string, string> = {
-  BOOTH_NOT_FOUND: "등록된 부스가 아닙니다",
-  BOOTH_NOT_APPROVED: "승인된 부스가 아닙니다",
-  BOOTH_REJECTED: "거절된 부스입니다",
-  BOOTH_INACTIVE: "금지된 부스입니다",
-  BOOTH_PASSWORD_NOT_MATCH: "비밀번호가 맞지 않습니다",
-};
+// Kiosks built without VITE_STAFF_PIN choose the staff PIN here, behind the
+// booth credentials, rather than from the customer-facing menu.
+const createLoginSchema = (requiresStaffPin: boolean) =>
+  z.object({
+    username: z.string().min(1, "login.usernameRequired" satisfies MessageKey),
+    password: z.string().min(1, "login.passwordRequired" satisfies MessageKey),
+    staffPin: requiresStaffPin
+      ? z
+          .string()
+          .regex(/^\d{4}$/, "login.staffPinInvalid" satisfies MessageKey)
+      : z.string(),
+  });
 
-const loginSchema = z.object({
-  username: z.string().min(1, "아이디를 입력해주세요"),
-  password: z.string().min(1, "비밀번호를 입력해주세요"),
-});
+type LoginFormData = z.infer<ReturnType<typeof createLoginSchema>>;
 
-type LoginFormData = z.infer<typeof loginSchema>;
+// Set when a signed-in kiosk opens the login screen to add another booth; the
+// current booth stays active until the new one has signed in.
+export interface LoginLocationState {
+  addProfile?: boolean;
+}
 
 export default function LoginScreen(): React.ReactElement {
   const { signIn } = useAuthStore();
-  const { clearCart } = useCartStore();
-  const { resetPayment } = usePaymentStore();
+  const { hasPin, changePin } = useStaffStore();
+  const [requiresStaffPin] = useState(() => !hasPin());
+  const { t } = useTranslation();
   const [focusedField, setFocusedField] = useState<string | null>(null);
   const navigate = useNavigate();
+  const location = useLocation();
+  const isAddingProfile =
+    (location.state as LoginLocationState | null)?.addProfile === true;
 
   const isMounted = useRef<boolean>(true);
   const usernameRef = useRef<HTMLInputElement>(null);
@@ -51,8 +58,8 @@ export default function LoginScreen(): React.ReactElement {
     watch,
     setFocus,
   } = useForm<LoginFormData>({
-    resolver: zodResolver(loginSchema),
-    defaultValues: { username: "", password: "" },
+    resolver: zodResolver(createLoginSchema(requiresStaffPin)),
+    defaultValues: { username: "", password: "", staffPin: "" },
   });
 
   const formValues = watch();
@@ -66,50 +73,45 @@ export default function LoginScreen(): React.ReactElement {
 
   const loginMutation = useMutation({
     mutationFn: async (data: LoginFormData) => {
-      const response = await axios.post(`${API_URL}/kiosks/login`, {
+      const response = await loginKiosk({
         username: data.username.trim(),
         password: data.password,
       });
-      return response.data;
+      if (requiresStaffPin) {
+        await changePin(data.staffPin);
+      }
+      return response;
     },
-    onSuccess: async (data: { accessToken?: string }) => {
+    onSuccess: async (data, variables: LoginFormData) => {
       if (!isMounted.current) return;
 
-      if (data?.accessToken) {
-        await signIn(data.accessToken);
-        clearCart();
-        resetPayment();
+      await signIn(data.accessToken, {
+        profileName: variables.username.trim(),
+        refreshToken: data.refreshToken ?? undefined,
+      });
 
+      if (isPaymentInProgress(usePaymentStore.getState().phase)) {
         if (isMounted.current) {
-          navigate("/products");
-        }
-      } else {
-        if (isMounted.current) {
-          setError("root", { message: "로그인에 실패했습니다" });
+          navigate("/payment");
         }
+        return;
+      }
+
+      if (isMounted.current) {
+        navigate("/products");
       }
     },
     onError: (error: unknown) => {
       if (!isMounted.current) return;
 
-      if (isAxiosError(error) && error.response?.data) {
-        try {
-          const errorData = error.response.data as ErrorResponse;
+      const apiError = toApiError(error);
+      const message = apiError.getMessageKey("login.failed");
 
-          if (errorData.code === "BOOTH_PASSWORD_NOT_MATCH") {
-            setError("password", { message: ERROR_CODES[errorData.code] });
-            setFocus("password");
-          } else if (errorData.code && errorData.code in ERROR_CODES) {
-            setError("root", { message: ERROR_CODES[errorData.code] });
-          } else {
-            setError("root", { message: "로그인에 실패했습니다" });
-          }
-        } catch (e) {
-          console.error("Error parsing response:", e);
-          setError("root", { message: "로그인에 실패했습니다" });
-        }
+      if (apiError.action === "FIX_INPUT") {
+        setError("password", { message });
+        setFocus("password");
       } else {
-        setError("root", { message: "연결에 실패했습니다" });
+        setError("root", { message });
       }
     },
   });
@@ -122,6 +124,11 @@ export default function LoginScreen(): React.ReactElement {
     [loginMutation]
   );
 
+  const translateError = useCallback(
+    (message: string) => (isMessageKey(message) ? t(message) : message),
+    [t]
+  );
+
   const handleFieldFocus = useCallback((fieldName: string) => {
     if (isMounted.current) {
       setFocusedField(fieldName);
@@ -155,7 +162,7 @@ export default function LoginScreen(): React.ReactElement {
           transition={{ duration: 0.35 }}
         >
           <h2 className="text-2xl font-bold text-[#1E293B] mb-7 text-center">
-            키오스크 로그인
+            {t("login.title")}
           </h2>
 
           {errors.root?.message && (
@@ -179,7 +186,7 @@ export default function LoginScreen(): React.ReactElement {
                 />
               </svg>
               <span className="flex-1 text-sm font-medium text-[#DC2626]">
-                {errors.root.message}
+                {translateError(errors.root.message)}
               </span>
             </motion.div>
           )}
@@ -191,7 +198,7 @@ export default function LoginScreen(): React.ReactElement {
                   htmlFor="username"
                   className="text-sm font-medium text-[#475569]"
                 >
-                  아이디
+                  {t("login.username")}
                 </label>
                 {errors.username?.message && (
                   <motion.span
@@ -200,7 +207,7 @@ export default function LoginScreen(): React.ReactElement {
                     animate={{ opacity: 1 }}
                     transition={{ duration: 0.25 }}
                   >
-                    {errors.username.message}
+                    {translateError(errors.username.message)}
                   </motion.span>
                 )}
               </div>
@@ -217,7 +224,7 @@ export default function LoginScreen(): React.ReactElement {
                     ? "border-2 border-[#6366F1] bg-[#FFFFFF]"
                     : "border border-[#E2E8F0] bg-[#F8FAFC]"
                 } ${errors.username ? "border-[#EF4444]" : ""}`}
-                placeholder="아이디를 입력하세요"
+                placeholder={t("login.usernamePlaceholder")}
                 onFocus={() => handleFieldFocus("username")}
                 onBlur={handleFieldBlur}
                 onKeyDown={(e) =>
@@ -233,7 +240,7 @@ export default function LoginScreen(): React.ReactElement {
                   htmlFor="password"
                   className="text-sm font-medium text-[#475569]"
                 >
-                  비밀번호
+                  {t("login.password")}
                 </label>
                 {errors.password?.message && (
                   <motion.span
@@ -242,7 +249,7 @@ export default function LoginScreen(): React.ReactElement {
                     animate={{ opacity: 1 }}
                     transition={{ duration: 0.25 }}
                   >
-                    {errors.password.message}
+                    {translateError(errors.password.message)}
                   </motion.span>
                 )}
               </div>
@@ -259,18 +266,57 @@ export default function LoginScreen(): React.ReactElement {
                     ? "border-2 border-[#6366F1] bg-[#FFFFFF]"
                     : "border border-[#E2E8F0] bg-[#F8FAFC]"
                 } ${errors.password ? "border-[#EF4444]" : ""}`}
-                placeholder="비밀번호를 입력하세요"
+                placeholder={t("login.passwordPlaceholder")}
                 onFocus={() => handleFieldFocus("password")}
                 onBlur={handleFieldBlur}
                 autoCapitalize="none"
               />
             </div>
 
+            {requiresStaffPin && (
+              <div className="mb-6">
+                <div className="flex justify-between items-center mb-2">
+                  <label
+                    htmlFor="staffPin"
+                    className="text-sm font-medium text-[#475569]"
+                  >
+                    {t("login.staffPin")}
+                  </label>
+                  {errors.staffPin?.message && (
+                    <motion.span
+                      className="text-sm font-medium text-[#EF4444]"
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      transition={{ duration: 0.25 }}
+                    >
+                      {translateError(errors.staffPin.message)}
+                    </motion.span>
+                  )}
+                </div>
+                <input
+                  id="staffPin"
+                  type="password"
+                  inputMode="numeric"
+                  maxLength={4}
+                  {...register("staffPin")}
+                  className={`w-full h-14 rounded-lg px-4 text-base text-[#1E293B] ${
+                    focusedField === "staffPin"
+                      ? "border-2 border-[#6366F1] bg-[#FFFFFF]"
+                      : "border border-[#E2E8F0] bg-[#F8FAFC]"
+                  } ${errors.staffPin ? "border-[#EF4444]" : ""}`}
+                  placeholder={t("login.staffPinPlaceholder")}
+                  onFocus={() => handleFieldFocus("staffPin")}
+                  onBlur={handleFieldBlur}
+                />
+              </div>
+            )}
+
             <motion.button
               type="submit"
               className={`w-full h-14 rounded-lg flex items-center justify-center ${
                 !formValues.username ||
                 !formValues.password ||
+                (requiresStaffPin && !formValues.staffPin) ||
                 loginMutation.isPending
                   ? "bg-[#CBD5E1] cursor-not-allowed"
                   : "bg-[#6366F1] hover:bg-[#4F46E5]"
@@ -278,11 +324,13 @@ export default function LoginScreen(): React.ReactElement {
               disabled={
                 !formValues.username ||
                 !formValues.password ||
+                (requiresStaffPin && !formValues.staffPin) ||
                 loginMutation.isPending
               }
               whileTap={
                 !formValues.username ||
                 !formValues.password ||
+                (requiresStaffPin && !formValues.staffPin) ||
                 loginMutation.isPending
                   ? {}
                   : { scale: 0.98 }
@@ -292,15 +340,27 @@ export default function LoginScreen(): React.ReactElement {
                 <div className="w-5 h-5 border-2 border-[#FFFFFF] border-t-transparent rounded-full animate-spin"></div>
               ) : (
                 <span className="text-[#FFFFFF] text-base font-semibold">
-                  로그인
+                  {t("login.submit")}
                 </span>
               )}
             </motion.button>
           </form>
+          {isAddingProfile && (
+            <motion.button
+              className="w-full h-12 mt-3 rounded-lg text-base font-medium text-[#475569] bg-[#F1F5F9]"
+              onClick={() => navigate("/products")}
+              disabled={loginMutation.isPending}
+              whileTap={loginMutation.isPending ? {} : { scale: 0.98 }}
+            >
+              {t("login.backToCurrentBooth")}
+            </motion.button>
+          )}
           {/* 
           <div className="flex items-center my-6">
             <div className="flex-1 h-px bg-[#E2E8F0]"></div>
-            <span className="mx-4 text-sm text-[#64748B]">또는</span>
+            <span className="mx-4 text-sm text-[#64748B]">
+              {t("login.or")}
+            </span>
             <div className="flex-1 h-px bg-[#E2E8F0]"></div>
           </div>
 
@@ -328,7 +388,7 @@ export default function LoginScreen(): React.ReactElement {
               />
             </svg>
             <span className="text-[#6366F1] text-base font-semibold">
-              QR 코드로 등록하기
+              {t("login.registerWithQr")}
             </span> */}
           {/* </motion.button> */}
         </motion.div>
@@ -1,9 +1,11 @@
 import React, { useCallback, useRef, useEffect } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
+import useTranslation from "@/hooks/use-translation";
 
 export default function NotFound(): React.ReactElement {
   const location = useLocation();
   const navigate = useNavigate();
+  const { t } = useTranslation();
   const pathname = location.pathname;
   const isMounted = useRef<boolean>(true);
 
@@ -37,18 +39,18 @@ export default function NotFound(): React.ReactElement {
         </svg>
 
         <h1 className="text-2xl font-bold text-secondary-800 mt-5">
-          페이지를 찾을 수 없습니다
+          {t("notFound.title")}
         </h1>
 
         <p className="text-base font-medium text-secondary-500 text-center mt-2.5 mb-7.5">
-          요청하신 경로 &quot;{pathname}&quot;를 찾을 수 없습니다.
+          {t("notFound.description", { path: pathname })}
         </p>
 
         <button
           className="bg-primary-500 py-3 px-6 rounded-lg text-base font-bold text-secondary-50"
           onClick={handleNavigateToHome}
         >
-          메인으로 돌아가기
+          {t("notFound.backToMenu")}
         </button>
       </div>
     </div>
@@ -1,16 +1,72 @@
-import React, { useCallback, useEffect, useRef } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import { useNavigate } from "react-router-dom";
 import { motion } from "framer-motion";
+import { useQuery } from "@tanstack/react-query";
+import { QRCodeSVG } from "qrcode.react";
+import { fetchOrder } from "@/libs/endpoints";
+import { getItemDetails, getLineTotal } from "@/domain/cart";
 import { useCartStore } from "@/stores/cart";
+import useCartPricing from "@/hooks/use-cart-pricing";
 import { usePaymentStore } from "@/stores/payment";
+import PickupReceipt from "@/components/pickup-receipt";
+import useTranslation from "@/hooks/use-translation";
+import type { ReceiptLine } from "@/types/order";
+
+const AUTO_REDIRECT_SECONDS = 30;
 
 export default function PaymentComplete(): React.ReactElement {
-  const { getTotalAmount, clearCart } = useCartStore();
-  const { orderId, resetPayment } = usePaymentStore();
+  const { items, clearCart } = useCartStore();
+  const pricing = useCartPricing();
+  const { orderId, phase, resetPayment } = usePaymentStore();
   const navigate = useNavigate();
+  const { t, formatPrice, formatTime } = useTranslation();
+  const [remainingSeconds, setRemainingSeconds] = useState<number>(
+    AUTO_REDIRECT_SECONDS
+  );
+  const [paidAt] = useState<Date>(() => new Date());
   const autoRedirectTimerRef = useRef<number | null>(null);
   const isMounted = useRef<boolean>(true);
 
+  const { data: order, isLoading: isOrderLoading } = useQuery({
+    queryKey: ["order", orderId],
+    queryFn: async () => {
+      if (!orderId) return null;
+      return await fetchOrder(orderId);
+    },
+    enabled: !!orderId && phase === "completed",
+    retry: 2,
+  });
+
+  const pickupNumber = order?.pickupNumber ?? (orderId ? String(orderId) : "-");
+  const totalAmount = order?.totalAmount ?? pricing.total;
+  const discountAmount = order?.discountAmount ?? pricing.discountTotal;
+
+  const receiptLines = useMemo<ReceiptLine[]>(() => {
+    if (order?.items && order.items.length > 0) {
+      return order.items.map((item, index) => ({
+        key: `${item.productId}-${index}`,
+        name: item.productName,
+        options: getItemDetails(item),
+        quantity: item.quantity,
+        linePrice: item.linePrice,
+      }));
+    }
+
+    return items.map((item) => ({
+      key: item.key,
+      name: item.name,
+      options: getItemDetails(item),
+      quantity: item.quantity,
+      linePrice: getLineTotal(item),
+    }));
+  }, [order, items]);
+
   const handleGoToMenu = useCallback(() => {
     if (!isMounted.current) return;
     resetPayment();
@@ -18,121 +74,207 @@ export default function PaymentComplete(): React.ReactElement {
     navigate("/products");
   }, [clearCart, resetPayment, navigate]);
 
+  const handlePrint = useCallback(() => {
+    setRemainingSeconds(AUTO_REDIRECT_SECONDS);
+    window.print();
+  }, []);
+
   useEffect(() => {
     isMounted.current = true;
 
-    if (!orderId) {
+    if (!orderId || phase !== "completed") {
       if (isMounted.current) {
         navigate("/products");
       }
       return;
     }
 
-    autoRedirectTimerRef.current = window.setTimeout(() => {
+    autoRedirectTimerRef.current = window.setInterval(() => {
       if (isMounted.current) {
-        handleGoToMenu();
+        setRemainingSeconds((prev) => Math.max(0, prev - 1));
       }
-    }, 10000);
+    }, 1000);
 
     return () => {
       isMounted.current = false;
       if (autoRedirectTimerRef.current) {
-        clearTimeout(autoRedirectTimerRef.current);
+        clearInterval(autoRedirectTimerRef.current);
         autoRedirectTimerRef.current = null;
       }
     };
-  }, [handleGoToMenu, orderId, navigate]);
+  }, [orderId, phase, navigate]);
+
+  useEffect(() => {
+    if (remainingSeconds === 0) {
+      handleGoToMenu();
+    }
+  }, [remainingSeconds, handleGoToMenu]);
 
   return (
-    <div className="flex flex-col h-screen bg-[#FFFFFF]">
-      <header className="py-4 flex items-center justify-center border-b border-[#F1F5F9] bg-[#FFFFFF]">
-        <h1 className="text-2xl font-bold text-[#1E293B]">
-          <span className="text-[#6366F1]">Flick</span> Place
-        </h1>
-      </header>
-
-      <motion.main
-        className="flex-1 flex flex-col justify-center items-center px-6 py-6 bg-[#FFFFFF]"
-        initial={{ opacity: 0 }}
-        animate={{ opacity: 1 }}
-        transition={{ duration: 0.5 }}
-      >
-        <motion.img
-          src="/assets/images/check.png"
-          alt="결제 완료"
-          className="w-28 h-28 mb-8"
-          initial={{ scale: 0.5, opacity: 0 }}
-          animate={{ scale: 1, opacity: 1 }}
-          transition={{ duration: 0.5, delay: 0.2 }}
-        />
+    <>
+      <div className="flex flex-col h-screen bg-[#FFFFFF] print:hidden">
+        <header className="py-4 flex items-center justify-center border-b border-[#F1F5F9] bg-[#FFFFFF]">
+          <h1 className="text-2xl font-bold text-[#1E293B]">
+            <span className="text-[#6366F1]">Flick</span> Place
+          </h1>
+        </header>
 
-        <motion.h2
-          className="text-4xl font-bold text-[#1E293B] mb-4"
-          initial={{ y: 20, opacity: 0 }}
-          animate={{ y: 0, opacity: 1 }}
-          transition={{ duration: 0.4, delay: 0.3 }}
-        >
-          결제 완료
-        </motion.h2>
-
-        <motion.p
-          className="text-lg text-[#475569] text-center mb-12 font-medium"
-          initial={{ y: 20, opacity: 0 }}
-          animate={{ y: 0, opacity: 1 }}
-          transition={{ duration: 0.4, delay: 0.4 }}
-        >
-          주문이 성공적으로 완료되었습니다
-        </motion.p>
-
-        <motion.div
-          className="w-full flex justify-evenly mb-10"
-          initial={{ y: 20, opacity: 0 }}
-          animate={{ y: 0, opacity: 1 }}
-          transition={{ duration: 0.4, delay: 0.5 }}
+        <motion.main
+          className="flex-1 flex flex-col items-center px-6 py-6 overflow-auto bg-[#FFFFFF]"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.5 }}
         >
-          <div className="flex flex-col items-center px-6">
-            <span className="text-base text-[#475569] mb-2 font-medium">
-              결제 금액
-            </span>
-            <span className="text-2xl font-bold text-[#1E293B]">
-              {getTotalAmount().toLocaleString()}원
-            </span>
-          </div>
+          <motion.div
+            className="flex items-center mb-6"
+            initial={{ y: 20, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ duration: 0.4, delay: 0.2 }}
+          >
+            <img
+              src="/assets/images/check.png"
+              alt={t("complete.title")}
+              className="w-12 h-12 mr-3"
+            />
+            <h2 className="text-3xl font-bold text-[#1E293B]">
+              {t("complete.title")}
+            </h2>
+          </motion.div>
 
-          <div className="flex flex-col items-center px-6">
-            <span className="text-base text-[#475569] mb-2 font-medium">
-              결제 시간
+          <motion.div
+            className="w-full max-w-md flex flex-col items-center py-6 mb-6 rounded-2xl bg-[#EEF2FF]"
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            transition={{ duration: 0.4, delay: 0.3 }}
+          >
+            <span className="text-base text-[#475569] font-medium mb-1">
+              {t("common.pickupNumber")}
             </span>
-            <span className="text-2xl font-bold text-[#1E293B]">
-              {`${new Date().toLocaleTimeString("ko-KR", {
-                hour: "2-digit",
-                minute: "2-digit",
-              })}`}
+            <span className="text-8xl font-bold text-[#4F46E5] leading-none">
+              {isOrderLoading ? "..." : pickupNumber}
             </span>
-          </div>
-        </motion.div>
+            <span className="mt-3 text-sm text-[#475569]">
+              {t("common.pickupGuide")}
+            </span>
+          </motion.div>
 
-        <motion.p
-          className="text-sm text-[#64748B] mb-8"
-          initial={{ opacity: 0 }}
-          animate={{ opacity: 1 }}
-          transition={{ duration: 0.4, delay: 0.6 }}
-        >
-          10초 후 자동으로 화면이 전환됩니다
-        </motion.p>
-
-        <motion.button
-          className="bg-[#6366F1] py-4 px-6 rounded-xl w-3/5 text-center text-[#FFFFFF] text-lg font-semibold"
-          onClick={handleGoToMenu}
-          whileTap={{ scale: 0.98 }}
-          whileHover={{ backgroundColor: "#4F46E5" }}
-          initial={{ y: 20, opacity: 0 }}
-          animate={{ y: 0, opacity: 1 }}
-          transition={{ duration: 0.4, delay: 0.7 }}
-        >
-          메뉴로 돌아가기
-        </motion.button>
-      </motion.main>
-    </div>
+          <motion.div
+            className="w-full max-w-2xl flex gap-6 mb-6"
+            initial={{ y: 20, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ duration: 0.4, delay: 0.4 }}
+          >
+            <div className="flex-1 p-5 rounded-xl border border-[#E2E8F0]">
+              <h3 className="text-base font-semibold text-[#1E293B] mb-3">
+                {t("common.orderSummary")}
+              </h3>
+              <div className="max-h-48 overflow-auto">
+                {receiptLines.map((line) => (
+                  <div
+                    key={line.key}
+                    className="flex justify-between py-2 border-b border-[#F1F5F9] last:border-b-0"
+                  >
+                    <div className="flex-1 mr-3">
+                      <p className="text-sm font-medium text-[#1E293B]">
+                        {line.name}{" "}
+                        <span className="text-[#64748B]">x{line.quantity}</span>
+                      </p>
+                      {line.options.length > 0 && (
+                        <p className="text-xs text-[#64748B]">
+                          {line.options.join(", ")}
+                        </p>
+                      )}
+                    </div>
+                    <span className="text-sm font-semibold text-[#1E293B]">
+                      {formatPrice(line.linePrice)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              {discountAmount > 0 && (
+                <div className="flex justify-between pt-3 mt-2 border-t border-[#E2E8F0]">
+                  <span className="text-sm text-[#64748B]">
+                    {t("promotions.discount")}
+                  </span>
+                  <span className="text-sm font-semibold text-[#059669]">
+                    -{formatPrice(discountAmount)}
+                  </span>
+                </div>
+              )}
+              <div className="flex justify-between pt-3 mt-2 border-t border-[#E2E8F0]">
+                <span className="text-base font-medium text-[#475569]">
+                  {t("complete.paidAmount")}
+                </span>
+                <span className="text-xl font-bold text-[#1E293B]">
+                  {formatPrice(totalAmount)}
+                </span>
+              </div>
+              <p className="mt-1 text-right text-xs text-[#64748B]">
+                {formatTime(paidAt)}
+              </p>
+            </div>
+
+            {order?.receiptUrl && (
+              <div className="flex flex-col items-center justify-center p-5 rounded-xl border border-[#E2E8F0]">
+                <QRCodeSVG
+                  value={order.receiptUrl}
+                  size={140}
+                  bgColor="#FFFFFF"
+                  fgColor="#000000"
+                  level="M"
+                />
+                <p className="mt-3 text-sm text-[#475569] text-center whitespace-pre-line">
+                  {t("complete.scanReceipt")}
+                </p>
+              </div>
+            )}
+          </motion.div>
+
+          <motion.p
+            className="text-sm text-[#64748B] mb-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ duration: 0.4, delay: 0.6 }}
+          >
+            {t("complete.autoRedirect", { seconds: remainingSeconds })}
+          </motion.p>
+
+          <motion.div
+            className="w-3/5 flex gap-3"
+            initial={{ y: 20, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ duration: 0.4, delay: 0.7 }}
+          >
+            <motion.button
+              className="flex-1 py-4 px-6 rounded-xl text-center text-[#4F46E5] text-lg font-semibold border border-[#C7D2FE] bg-[#FFFFFF]"
+              onClick={handlePrint}
+              whileTap={{ scale: 0.98 }}
+              whileHover={{ backgroundColor: "#EEF2FF" }}
+            >
+              {t("complete.printReceipt")}
+            </motion.button>
+            <motion.button
+              className="flex-1 bg-[#6366F1] py-4 px-6 rounded-xl text-center text-[#FFFFFF] text-lg font-semibold"
+              onClick={handleGoToMenu}
+              whileTap={{ scale: 0.98 }}
+              whileHover={{ backgroundColor: "#4F46E5" }}
+            >
+              {t("complete.backToMenu")}
+            </motion.button>
+          </motion.div>
+        </motion.main>
+      </div>
+
+      <div className="hidden print:block">
+        <PickupReceipt
+          pickupNumber={pickupNumber}
+          lines={receiptLines}
+          totalAmount={totalAmount}
+          discountAmount={discountAmount}
+          paidAt={paidAt}
+          receiptUrl={order?.receiptUrl}
+        />
+      </div>
+    </>
   );
 }
@@ -6,17 +6,42 @@ import React, {
   useState,
 } from "react";
 import { useNavigate } from "react-router-dom";
-import { isAxiosError } from "axios";
 import { QRCodeSVG } from "qrcode.react";
 import { motion } from "framer-motion";
-import { API_URL } from "@/constants/api";
-import api from "@/libs/api";
-import { useCartStore } from "@/stores/cart";
+import { toApiError } from "@/libs/api";
+import {
+  cancelOrder,
+  createQrPayment,
+  createStudentIdPayment,
+  fetchOrder,
+  fetchPaymentRequestStatus,
+} from "@/libs/endpoints";
+import {
+  paymentStatusMessageSchema,
+  type PaymentStatusMessage,
+} from "@/libs/realtime-channels";
+import useRealtime from "@/hooks/use-realtime";
+import useTranslation from "@/hooks/use-translation";
+import useCartPricing from "@/hooks/use-cart-pricing";
+import LanguagePicker from "@/components/language-picker";
+import { useCartStore, type CartItem } from "@/stores/cart";
+import { getItemDetails } from "@/domain/cart";
+import { getStudentLimitedProducts } from "@/domain/limits";
+import {
+  STUDENT_ID_LENGTH,
+  applyStudentIdKey,
+  isValidStudentId,
+} from "@/domain/student-id";
+import { formatCountdown } from "@/domain/timer";
+import { useConfigStore } from "@/stores/config";
 import { usePaymentStore } from "@/stores/payment";
-import { useMutation } from "@tanstack/react-query";
+import { canTransition, isPaymentInProgress } from "@/libs/payment-machine";
+import { skipToken, useMutation, useQuery } from "@tanstack/react-query";
+import type { MessageKey } from "@/libs/i18n";
+import type { ErrorAction, ErrorSeverity } from "@/constants/errors";
+import type { ProductResponse } from "@/types/product";
 
 type PaymentMethod = "QR_CODE" | "STUDENT_ID";
-type WebSocketStatus = "CONNECTING" | "CONNECTED" | "DISCONNECTED" | "FAILED";
 
 interface NotificationType {
   type: "success" | "error" | "info";
@@ -24,95 +49,99 @@ interface NotificationType {
   submessage?: string;
 }
 
-interface ErrorResponse {
-  code?: string;
-  message?: string;
-}
-
-interface CartItemType {
-  id: number;
-  name: string;
-  price: number;
-  quantity: number;
-}
-
-const ERROR_MESSAGES: Record<string, string> = {
-  ORDER_NOT_FOUND: "주문을 찾을 수 없습니다",
-  ORDER_NOT_PENDING: "이미 처리된 주문입니다",
-  USER_NOT_FOUND: "등록되지 않은 학번입니다",
-  BOOTH_NOT_FOUND: "부스 정보를 찾을 수 없습니다",
-};
+const getNotificationType = (
+  severity: ErrorSeverity
+): NotificationType["type"] => (severity === "error" ? "error" : "info");
 
 const NOTIFICATION_DURATION = 3000;
-const WS_RECONNECT_DELAY = 3000;
 const MAX_RECONNECT_ATTEMPTS = 3;
+const POLL_MIN_INTERVAL = 2000;
+const POLL_MAX_INTERVAL = 10000;
+const POLL_BACKOFF_FACTOR = 1.5;
 
 export default function PaymentScreen(): React.ReactElement {
-  const { items: cart, getTotalAmount, clearCart } = useCartStore();
+  const { t, formatPrice } = useTranslation();
+  const { items: cart, clearCart } = useCartStore();
+  const pricing = useCartPricing();
   const {
     orderId,
     requestId,
     requestCode,
     timer,
-    isActive,
+    phase,
     decrementTimer,
-    cancelPayment,
-    status,
-    setStatus,
+    dispatch,
     requestMethod,
-    setPaymentRequest,
-    resetPaymentRequest,
   } = usePaymentStore();
 
-  const [selectedMethod, setSelectedMethod] =
-    useState<PaymentMethod>("QR_CODE");
+  const { config } = useConfigStore();
+
+  // The server fixes the amount when the order is created, so a promotion
+  // that ends mid-payment does not change the total shown here.
+  const { data: order } = useQuery({
+    queryKey: ["payment-order", orderId],
+    queryFn: () => fetchOrder(orderId!),
+    enabled: !!orderId,
+    staleTime: Infinity,
+  });
+  const totalAmount = order?.totalAmount ?? pricing.total;
+  const discountAmount = order?.discountAmount ?? pricing.discountTotal;
+  const linePricing = useMemo(
+    () => new Map(pricing.lines.map((line) => [line.key, line])),
+    [pricing.lines]
+  );
+  // Limits are only explained from the menu's catalog, which this page reads
+  // from the cache without fetching; the server enforces them when the
+  // student ID payment is requested either way.
+  const { data: catalog = [] } = useQuery<ProductResponse[]>({
+    queryKey: ["products"],
+    queryFn: skipToken,
+  });
+  const studentLimitedProducts = useMemo(
+    () => getStudentLimitedProducts(cart, catalog),
+    [cart, catalog]
+  );
+  const [selectedMethod, setSelectedMethod] = useState<PaymentMethod>(() =>
+    config.features.qrPayment ? "QR_CODE" : "STUDENT_ID"
+  );
   const [studentId, setStudentId] = useState("");
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [errorCode, setErrorCode] = useState<string | null>(null);
+  const [errorAction, setErrorAction] = useState<ErrorAction | null>(null);
   const [notification, setNotification] = useState<NotificationType | null>(
     null
   );
-  const [wsStatus, setWsStatus] = useState<WebSocketStatus>("DISCONNECTED");
   const [timerPulse, setTimerPulse] = useState(false);
 
   const isMounted = useRef<boolean>(true);
-  const wsReconnectAttemptsRef = useRef<number>(0);
   const notificationRef = useRef<HTMLDivElement>(null);
-  const webSocketRef = useRef<WebSocket | null>(null);
   const timerIntervalRef = useRef<number | null>(null);
+  const expiryHandledRef = useRef<boolean>(false);
   const notificationTimeoutRef = useRef<number | null>(null);
-  const wsReconnectTimeoutRef = useRef<number | null>(null);
   const navigate = useNavigate();
 
   const cancelOrderMutation = useMutation({
     mutationFn: async () => {
       if (orderId) {
-        return await api.post(`/orders/${orderId}/cancel`);
+        return await cancelOrder(orderId);
       }
       return null;
     },
     onError: (error) => {
       if (!isMounted.current) return;
 
-      let message = "주문 취소 중 오류가 발생했습니다";
+      const apiError = toApiError(error);
 
-      if (isAxiosError(error) && error.response?.data) {
-        try {
-          const errorData = error.response.data as ErrorResponse;
-          if (errorData.code && ERROR_MESSAGES[errorData.code]) {
-            message = ERROR_MESSAGES[errorData.code];
-          }
-        } catch (e) {
-          console.error("Error parsing response:", e);
-        }
-      }
-
-      showNotification("error", message);
+      showNotification(
+        getNotificationType(apiError.severity),
+        t(apiError.getMessageKey("payment.cancelError"))
+      );
     },
     onSettled: () => {
       if (!isMounted.current) return;
 
-      cancelPayment();
+      if (canTransition(usePaymentStore.getState().phase, "CANCELLED")) {
+        dispatch({ type: "CANCELLED" });
+      }
       clearCart();
       navigate("/products");
     },
@@ -120,100 +149,45 @@ export default function PaymentScreen(): React.ReactElement {
 
   const qrPaymentMutation = useMutation({
     mutationFn: async () => {
-      if (!orderId) throw new Error("주문 정보가 없습니다");
-      const response = await api.post("/payments/qr", { orderId });
-      return response.data;
+      if (!orderId) throw new Error(t("payment.missingOrder"));
+      return await createQrPayment(orderId);
     },
     onSuccess: (data) => {
       if (!isMounted.current) return;
 
-      setPaymentRequest(
-        data.id,
-        data.token || "",
-        "PENDING",
-        "QR_CODE",
-        data.expiresAt || new Date(Date.now() + 15 * 60 * 1000).toISOString()
-      );
+      dispatch({
+        type: "REQUEST_CREATED",
+        requestId: data.id,
+        requestCode: data.token,
+        requestMethod: "QR_CODE",
+        expiresAt: data.expiresAt,
+      });
     },
     onError: (error) => {
-      if (!isMounted.current) return;
-
-      let errorMsg = "결제 요청을 생성할 수 없습니다";
-      let code: string | null = null;
-
-      if (isAxiosError(error)) {
-        if (error.response?.data) {
-          try {
-            const errorData = error.response.data as ErrorResponse;
-            if (errorData.code) {
-              code = errorData.code;
-              if (ERROR_MESSAGES[code]) {
-                errorMsg = ERROR_MESSAGES[code];
-              }
-            }
-          } catch (e) {
-            console.error("Error parsing response:", e);
-          }
-        } else if (error.code === "ECONNABORTED") {
-          errorMsg = "서버 응답 시간 초과";
-        }
-      }
-
-      setErrorCode(code);
-      setErrorMessage(errorMsg);
-      showNotification("error", errorMsg);
+      handleRequestError(error, "payment.requestCreateFailed");
     },
   });
 
   const studentIdPaymentMutation = useMutation({
     mutationFn: async (studentIdValue: string) => {
-      if (!orderId) throw new Error("주문 정보가 없습니다");
-      const response = await api.post("/payments/student-id", {
-        orderId,
-        studentId: studentIdValue.trim(),
-      });
-      return response.data;
+      if (!orderId) throw new Error(t("payment.missingOrder"));
+      return await createStudentIdPayment(orderId, studentIdValue);
     },
     onSuccess: (data) => {
       if (!isMounted.current) return;
 
-      setPaymentRequest(
-        data.id,
-        data.token || studentId,
-        "PENDING",
-        "STUDENT_ID",
-        data.expiresAt || new Date(Date.now() + 15 * 60 * 1000).toISOString()
-      );
+      dispatch({
+        type: "REQUEST_CREATED",
+        requestId: data.id,
+        requestCode: data.token || studentId,
+        requestMethod: "STUDENT_ID",
+        expiresAt: data.expiresAt,
+      });
 
-      showNotification("success", "학번 결제 요청 완료");
+      showNotification("success", t("payment.studentIdRequested"));
     },
     onError: (error) => {
-      if (!isMounted.current) return;
-
-      let errorMsg = "결제 요청에 실패했습니다";
-      let code: string | null = null;
-
-      if (isAxiosError(error)) {
-        if (error.response?.data) {
-          try {
-            const errorData = error.response.data as ErrorResponse;
-            if (errorData.code) {
-              code = errorData.code;
-              if (ERROR_MESSAGES[code]) {
-                errorMsg = ERROR_MESSAGES[code];
-              }
-            }
-          } catch (e) {
-            console.error("Error parsing response:", e);
-          }
-        } else if (error.code === "ECONNABORTED") {
-          errorMsg = "서버 응답 시간 초과";
-        }
-      }
-
-      setErrorCode(code);
-      setErrorMessage(errorMsg);
-      showNotification("error", errorMsg);
+      handleRequestError(error, "payment.requestFailed");
     },
   });
 
@@ -256,20 +230,6 @@ export default function PaymentScreen(): React.ReactElement {
         clearInterval(timerIntervalRef.current);
         timerIntervalRef.current = null;
       }
-
-      if (wsReconnectTimeoutRef.current) {
-        clearTimeout(wsReconnectTimeoutRef.current);
-        wsReconnectTimeoutRef.current = null;
-      }
-
-      if (webSocketRef.current) {
-        try {
-          webSocketRef.current.close();
-          webSocketRef.current = null;
-        } catch (e) {
-          console.error("Error closing WebSocket:", e);
-        }
-      }
     };
   }, []);
 
@@ -293,8 +253,10 @@ export default function PaymentScreen(): React.ReactElement {
     }
   }, [cancelOrderMutation]);
 
+  const isInProgress = isPaymentInProgress(phase);
+
   useEffect(() => {
-    if (isActive && timer > 0) {
+    if (isInProgress && timer > 0) {
       if (timerIntervalRef.current) {
         clearInterval(timerIntervalRef.current);
         timerIntervalRef.current = null;
@@ -305,11 +267,11 @@ export default function PaymentScreen(): React.ReactElement {
           decrementTimer();
         }
       }, 1000);
-    } else if (timer <= 0 && isActive && isMounted.current) {
-      handleCancel();
+    } else if (timer <= 0 && isInProgress && isMounted.current) {
+      decrementTimer();
     }
 
-    if (status === "COMPLETED" && isMounted.current) {
+    if (phase === "completed" && isMounted.current) {
       navigate("/payment-complete");
     }
 
@@ -319,140 +281,109 @@ export default function PaymentScreen(): React.ReactElement {
         timerIntervalRef.current = null;
       }
     };
-  }, [isActive, timer, status, decrementTimer, handleCancel, navigate]);
-
-  const connectWebSocket = useCallback(() => {
-    if (!requestId || !isMounted.current) return;
-    if (wsStatus === "CONNECTING" || wsStatus === "CONNECTED") return;
-
-    setWsStatus("CONNECTING");
+  }, [isInProgress, timer, phase, decrementTimer, navigate]);
 
-    const wsUrl =
-      API_URL.replace(/^http(s?):\/\//, (_, s) => (s ? "wss://" : "ws://")) +
-      `/ws/payment-requests/${requestId}`;
-
-    try {
-      if (
-        webSocketRef.current &&
-        webSocketRef.current.readyState !== WebSocket.CLOSED
-      ) {
-        webSocketRef.current.close();
-      }
-
-      const ws = new WebSocket(wsUrl);
-      webSocketRef.current = ws;
-
-      ws.onopen = () => {
-        if (isMounted.current) {
-          setWsStatus("CONNECTED");
-          wsReconnectAttemptsRef.current = 0;
-        }
-      };
-
-      ws.onmessage = (event) => {
-        if (!isMounted.current) return;
-
-        try {
-          const data = JSON.parse(event.data);
-
-          if (data.status === "COMPLETED") {
-            setStatus("COMPLETED");
-          } else if (data.status === "FAILED") {
-            setStatus("FAILED");
-            showNotification(
-              "error",
-              "결제 실패",
-              data.message || "결제가 실패했습니다."
-            );
-          } else if (data.status === "EXPIRED") {
-            setStatus("EXPIRED");
-            showNotification("error", "결제 시간이 초과되었습니다.");
-            handleCancel();
-          }
-        } catch (error) {
-          console.error("WebSocket message processing error:", error);
-          if (isMounted.current) {
-            setWsStatus("FAILED");
-          }
-        }
-      };
+  const handleRequestError = useCallback(
+    (error: unknown, fallback: MessageKey) => {
+      if (!isMounted.current) return;
 
-      ws.onerror = () => {
-        if (isMounted.current) {
-          setWsStatus("FAILED");
-        }
-      };
-
-      ws.onclose = (event) => {
-        if (!isMounted.current) return;
-
-        if (!event.wasClean) {
-          setWsStatus("DISCONNECTED");
-
-          if (
-            wsReconnectAttemptsRef.current < MAX_RECONNECT_ATTEMPTS &&
-            requestId &&
-            isMounted.current
-          ) {
-            const delay = Math.min(
-              WS_RECONNECT_DELAY * (wsReconnectAttemptsRef.current + 1),
-              10000
-            );
-
-            if (wsReconnectTimeoutRef.current) {
-              clearTimeout(wsReconnectTimeoutRef.current);
-              wsReconnectTimeoutRef.current = null;
-            }
+      const apiError = toApiError(error);
+      const message =
+        apiError.code === "DAILY_LIMIT_EXCEEDED" &&
+        studentLimitedProducts.length > 0
+          ? t("limits.dailyLimitReached", {
+              products: studentLimitedProducts
+                .map(
+                  (product) =>
+                    `${product.name} (${t("limits.perStudent", {
+                      count: product.dailyLimitPerStudent!,
+                    })})`
+                )
+                .join(", "),
+            })
+          : t(apiError.getMessageKey(fallback));
+
+      setErrorAction(apiError.action);
+      setErrorMessage(message);
+      showNotification(getNotificationType(apiError.severity), message);
+    },
+    [showNotification, studentLimitedProducts, t]
+  );
 
-            wsReconnectTimeoutRef.current = window.setTimeout(() => {
-              if (isMounted.current) {
-                wsReconnectAttemptsRef.current += 1;
-                connectWebSocket();
-              }
-            }, delay);
-          } else {
-            setWsStatus("FAILED");
-          }
-        }
-      };
-    } catch (error) {
-      console.error("WebSocket connection error:", error);
-      if (isMounted.current) {
-        setWsStatus("FAILED");
-      }
+  useEffect(() => {
+    if (phase !== "expired") {
+      expiryHandledRef.current = false;
+      return;
     }
-  }, [requestId, wsStatus, showNotification, handleCancel, setStatus]);
 
-  useEffect(() => {
-    if (requestId && wsStatus !== "CONNECTED" && isMounted.current) {
-      connectWebSocket();
-    } else if (!requestId) {
-      if (isMounted.current) {
-        setWsStatus("DISCONNECTED");
-      }
+    if (!expiryHandledRef.current && isMounted.current) {
+      expiryHandledRef.current = true;
+      showNotification("error", t("payment.expired"));
+      handleCancel();
+    }
+  }, [phase, showNotification, handleCancel, t]);
 
-      if (webSocketRef.current) {
-        try {
-          webSocketRef.current.close();
-          webSocketRef.current = null;
-        } catch (e) {
-          console.error("Error closing WebSocket:", e);
-        }
+  const handlePaymentMessage = useCallback(
+    (data: PaymentStatusMessage) => {
+      if (!isMounted.current) return;
+      if (usePaymentStore.getState().phase !== "request-pending") return;
+
+      if (data.status === "COMPLETED") {
+        dispatch({ type: "COMPLETED" });
+      } else if (data.status === "FAILED") {
+        dispatch({ type: "FAILED" });
+        showNotification(
+          "error",
+          t("payment.failedTitle"),
+          data.message || t("payment.failedMessage")
+        );
+      } else if (data.status === "EXPIRED") {
+        dispatch({ type: "EXPIRED" });
       }
+    },
+    [dispatch, showNotification, t]
+  );
 
-      if (wsReconnectTimeoutRef.current) {
-        clearTimeout(wsReconnectTimeoutRef.current);
-        wsReconnectTimeoutRef.current = null;
-      }
+  const { status: wsStatus, reconnect: handleReconnectWebSocket } = useRealtime(
+    {
+      path: requestId ? `/ws/payment-requests/${requestId}` : null,
+      schema: paymentStatusMessageSchema,
+      onMessage: handlePaymentMessage,
+      maxReconnectAttempts: MAX_RECONNECT_ATTEMPTS,
     }
-  }, [requestId, connectWebSocket, wsStatus]);
+  );
 
-  const handleReconnectWebSocket = useCallback(() => {
-    if (isMounted.current) {
-      wsReconnectAttemptsRef.current = 0;
-      connectWebSocket();
+  const isPolling =
+    !!requestId &&
+    phase === "request-pending" &&
+    (wsStatus === "DISCONNECTED" || wsStatus === "FAILED");
+
+  const { data: polledStatus } = useQuery({
+    queryKey: ["payment-request-status", requestId],
+    queryFn: async () => {
+      if (!requestId) throw new Error(t("payment.missingOrder"));
+      return await fetchPaymentRequestStatus(requestId);
+    },
+    enabled: isPolling,
+    refetchInterval: (query) =>
+      Math.min(
+        POLL_MAX_INTERVAL,
+        Math.max(
+          POLL_MIN_INTERVAL,
+          POLL_MIN_INTERVAL *
+            POLL_BACKOFF_FACTOR ** (query.state.dataUpdateCount - 1)
+        )
+      ),
+    staleTime: 0,
+    gcTime: 0,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (isPolling && polledStatus) {
+      handlePaymentMessage(polledStatus);
     }
-  }, [connectWebSocket]);
+  }, [isPolling, polledStatus, handlePaymentMessage]);
 
   const createQrPaymentRequest = useCallback(() => {
     if (isMounted.current) {
@@ -488,9 +419,9 @@ export default function PaymentScreen(): React.ReactElement {
       ) {
         setSelectedMethod(method);
         setErrorMessage(null);
-        setErrorCode(null);
+        setErrorAction(null);
 
-        resetPaymentRequest();
+        dispatch({ type: "REQUEST_RESET" });
 
         if (method === "STUDENT_ID") {
           setStudentId("");
@@ -499,71 +430,40 @@ export default function PaymentScreen(): React.ReactElement {
     },
     [
       selectedMethod,
-      resetPaymentRequest,
+      dispatch,
       qrPaymentMutation.isPending,
       studentIdPaymentMutation.isPending,
     ]
   );
 
-  const validateStudentId = useCallback((id: string): boolean => {
-    if (id.length !== 4) return false;
-
-    const grade = parseInt(id[0], 10);
-    const room = parseInt(id[1], 10);
-    const number = parseInt(id.substring(2), 10);
-
-    return (
-      grade >= 1 &&
-      grade <= 9 &&
-      room >= 1 &&
-      room <= 9 &&
-      number >= 1 &&
-      number <= 99
-    );
-  }, []);
-
   const handleStudentIdSubmit = useCallback(() => {
     if (!isMounted.current) return;
 
-    if (!validateStudentId(studentId)) {
-      showNotification("info", "올바른 학번 형식이 아닙니다");
+    if (!isValidStudentId(studentId)) {
+      showNotification("info", t("payment.invalidStudentId"));
       return;
     }
 
     studentIdPaymentMutation.mutate(studentId);
-  }, [
-    studentId,
-    validateStudentId,
-    showNotification,
-    studentIdPaymentMutation,
-  ]);
-
-  const formatTime = useCallback((seconds: number): string => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, "0")}:${secs
-      .toString()
-      .padStart(2, "0")}`;
-  }, []);
+  }, [studentId, showNotification, studentIdPaymentMutation, t]);
 
   const handleRetry = useCallback(() => {
     if (!isMounted.current) return;
 
-    resetPaymentRequest();
+    dispatch({ type: "REQUEST_RESET" });
     setErrorMessage(null);
-    setErrorCode(null);
+    setErrorAction(null);
 
     if (selectedMethod === "STUDENT_ID") {
       setStudentId("");
     }
-  }, [selectedMethod, resetPaymentRequest]);
+  }, [selectedMethod, dispatch]);
 
   const renderErrorAction = useCallback(() => {
-    if (!errorCode) return null;
+    if (!errorAction) return null;
 
-    switch (errorCode) {
-      case "ORDER_NOT_PENDING":
-      case "ORDER_NOT_FOUND":
+    switch (errorAction) {
+      case "BACK_TO_PRODUCTS":
         return (
           <motion.button
             className="bg-[#6366F1] text-[#FFFFFF] py-3 px-5 rounded-xl text-sm font-semibold mt-3.5"
@@ -574,7 +474,7 @@ export default function PaymentScreen(): React.ReactElement {
             }}
             whileTap={{ scale: 0.95 }}
           >
-            상품 목록으로 돌아가기
+            {t("payment.backToProducts")}
           </motion.button>
         );
       default:
@@ -584,26 +484,17 @@ export default function PaymentScreen(): React.ReactElement {
             onClick={handleRetry}
             whileTap={{ scale: 0.95 }}
           >
-            다시 시도
+            {t("common.retry")}
           </motion.button>
         );
     }
-  }, [errorCode, handleRetry, navigate]);
+  }, [errorAction, handleRetry, navigate, t]);
 
-  const handleKeypadPress = useCallback(
-    (value: string) => {
-      if (!isMounted.current) return;
+  const handleKeypadPress = useCallback((value: string) => {
+    if (!isMounted.current) return;
 
-      if (value === "delete") {
-        setStudentId((prev) => prev.slice(0, -1));
-      } else if (value === "clear") {
-        setStudentId("");
-      } else if (studentId.length < 4) {
-        setStudentId((prev) => prev + value);
-      }
-    },
-    [studentId]
-  );
+    setStudentId((prev) => applyStudentIdKey(prev, value));
+  }, []);
 
   const keypadButtons = useMemo(() => {
     return [
@@ -652,6 +543,8 @@ export default function PaymentScreen(): React.ReactElement {
   }, [keypadButtons, renderKeypadButton]);
 
   const getWsStatusColor = useCallback(() => {
+    if (isPolling) return "#3B82F6";
+
     switch (wsStatus) {
       case "CONNECTED":
         return "#22C55E";
@@ -663,7 +556,14 @@ export default function PaymentScreen(): React.ReactElement {
       default:
         return "#64748B";
     }
-  }, [wsStatus]);
+  }, [wsStatus, isPolling]);
+
+  const getChannelLabel = useCallback(() => {
+    if (wsStatus === "CONNECTED") return t("payment.channelRealtime");
+    if (isPolling) return t("payment.channelPolling");
+    if (wsStatus === "CONNECTING") return t("payment.channelConnecting");
+    return t("payment.channelDisconnected");
+  }, [wsStatus, isPolling, t]);
 
   const isSubmitting =
     qrPaymentMutation.isPending ||
@@ -675,7 +575,7 @@ export default function PaymentScreen(): React.ReactElement {
       return (
         <div className="flex flex-col items-center justify-center">
           <div className="w-8 h-8 border-4 border-[#6366F1] border-t-transparent rounded-full animate-spin mb-4"></div>
-          <p className="text-sm text-[#334155]">QR 코드 생성 중...</p>
+          <p className="text-sm text-[#334155]">{t("payment.qrGenerating")}</p>
         </div>
       );
     }
@@ -731,10 +631,10 @@ export default function PaymentScreen(): React.ReactElement {
           />
         </motion.div>
         <p className="text-lg font-semibold text-[#1E293B] mb-3 text-center">
-          QR 코드를 스캔하여 결제해 주세요
+          {t("payment.qrScan")}
         </p>
         <p className="text-sm text-[#475569] text-center mb-5">
-          결제가 완료될 때까지 기다려주세요
+          {t("payment.waitForCompletion")}
         </p>
       </motion.div>
     );
@@ -743,6 +643,7 @@ export default function PaymentScreen(): React.ReactElement {
     requestCode,
     errorMessage,
     renderErrorAction,
+    t,
   ]);
 
   const renderStudentIdPaymentContent = useCallback(() => {
@@ -768,10 +669,10 @@ export default function PaymentScreen(): React.ReactElement {
             />
           </svg>
           <p className="text-lg font-semibold text-[#1E293B] mb-2 text-center">
-            학번 결제가 요청되었습니다
+            {t("payment.studentIdRequestedTitle")}
           </p>
           <p className="text-sm text-[#475569] mb-5 text-center">
-            결제가 완료될 때까지 기다려주세요
+            {t("payment.waitForCompletion")}
           </p>
 
           <div className="mt-4 mb-6">
@@ -802,7 +703,7 @@ export default function PaymentScreen(): React.ReactElement {
             {isSubmitting ? (
               <div className="w-5 h-5 border-2 border-[#FFFFFF] border-t-transparent rounded-full animate-spin"></div>
             ) : (
-              <span>다시 요청하기</span>
+              <span>{t("payment.requestAgain")}</span>
             )}
           </motion.button>
         </motion.div>
@@ -846,11 +747,11 @@ export default function PaymentScreen(): React.ReactElement {
         transition={{ duration: 0.3 }}
       >
         <p className="text-lg font-semibold text-[#1E293B] mb-4.5 text-center">
-          4자리 학번을 입력해주세요
+          {t("payment.enterStudentId")}
         </p>
 
         <div className="flex gap-3.5 my-4.5">
-          {[0, 1, 2, 3].map((index) => (
+          {Array.from({ length: STUDENT_ID_LENGTH }, (_, index) => (
             <motion.div
               key={`digit-${index}`}
               className={`w-11 h-14 flex items-center justify-center border-b-2 ${
@@ -875,21 +776,21 @@ export default function PaymentScreen(): React.ReactElement {
 
         <motion.button
           className={`w-56 h-12 rounded-xl text-[#FFFFFF] text-base font-semibold mt-2.5 ${
-            !validateStudentId(studentId) || studentIdPaymentMutation.isPending
+            !isValidStudentId(studentId) || studentIdPaymentMutation.isPending
               ? "bg-[#CBD5E1] opacity-80"
               : "bg-[#6366F1]"
           }`}
           onClick={handleStudentIdSubmit}
           disabled={
-            !validateStudentId(studentId) || studentIdPaymentMutation.isPending
+            !isValidStudentId(studentId) || studentIdPaymentMutation.isPending
           }
           whileTap={
-            !validateStudentId(studentId) || studentIdPaymentMutation.isPending
+            !isValidStudentId(studentId) || studentIdPaymentMutation.isPending
               ? {}
               : { scale: 0.95 }
           }
           whileHover={
-            !validateStudentId(studentId) || studentIdPaymentMutation.isPending
+            !isValidStudentId(studentId) || studentIdPaymentMutation.isPending
               ? {}
               : { backgroundColor: "#4F46E5" }
           }
@@ -897,7 +798,7 @@ export default function PaymentScreen(): React.ReactElement {
           {studentIdPaymentMutation.isPending ? (
             <div className="w-5 h-5 border-2 border-[#FFFFFF] border-t-transparent rounded-full animate-spin mx-auto"></div>
           ) : (
-            <span>결제 요청하기</span>
+            <span>{t("payment.submitRequest")}</span>
           )}
         </motion.button>
       </motion.div>
@@ -908,12 +809,12 @@ export default function PaymentScreen(): React.ReactElement {
     studentId,
     errorMessage,
     isSubmitting,
-    validateStudentId,
     studentIdPaymentMutation.isPending,
     handleRetry,
     handleStudentIdSubmit,
     renderErrorAction,
     renderKeypad,
+    t,
   ]);
 
   return (
@@ -1024,7 +925,7 @@ export default function PaymentScreen(): React.ReactElement {
             />
           </svg>
           <span className="ml-1 text-base font-medium text-[#1E293B]">
-            돌아가기
+            {t("common.back")}
           </span>
         </motion.button>
 
@@ -1033,14 +934,24 @@ export default function PaymentScreen(): React.ReactElement {
         </h1>
 
         <div className="flex items-center gap-3">
+          <LanguagePicker />
           <motion.button
-            className="w-2 h-2 rounded-full"
-            style={{ backgroundColor: getWsStatusColor() }}
+            className="flex items-center gap-1.5"
             onClick={
               wsStatus === "FAILED" ? handleReconnectWebSocket : undefined
             }
             whileTap={wsStatus === "FAILED" ? { scale: 0.9 } : {}}
-          />
+          >
+            <span
+              className="w-2 h-2 rounded-full"
+              style={{ backgroundColor: getWsStatusColor() }}
+            />
+            {requestId && (
+              <span className="text-xs font-medium text-[#64748B]">
+                {getChannelLabel()}
+              </span>
+            )}
+          </motion.button>
           <motion.div
             className={`flex items-center px-3 py-1.5 bg-[#F1F5F9] rounded-lg`}
             animate={{
@@ -1068,7 +979,7 @@ export default function PaymentScreen(): React.ReactElement {
                 timer <= 60 ? "text-[#EF4444]" : "text-[#1E293B]"
               }`}
             >
-              {formatTime(timer)}
+              {formatCountdown(timer)}
             </span>
           </motion.div>
         </div>
@@ -1082,83 +993,87 @@ export default function PaymentScreen(): React.ReactElement {
           transition={{ duration: 0.4 }}
         >
           <div className="flex border-b border-[#E2E8F0] h-13">
-            <motion.button
-              className={`flex-1 flex items-center justify-center gap-2 py-3.5 ${
-                selectedMethod === "QR_CODE"
-                  ? "bg-[#EEF2FF] border-b-2 border-[#6366F1]"
-                  : ""
-              }`}
-              onClick={() => handleMethodChange("QR_CODE")}
-              disabled={isSubmitting}
-              whileHover={!isSubmitting ? { backgroundColor: "#F8FAFC" } : {}}
-              whileTap={!isSubmitting ? { scale: 0.98 } : {}}
-            >
-              <svg
-                className={`w-5 h-5 ${
+            {config.features.qrPayment && (
+              <motion.button
+                className={`flex-1 flex items-center justify-center gap-2 py-3.5 ${
                   selectedMethod === "QR_CODE"
-                    ? "text-[#6366F1]"
-                    : "text-[#475569]"
+                    ? "bg-[#EEF2FF] border-b-2 border-[#6366F1]"
+                    : ""
                 }`}
-                fill="none"
-                viewBox="0 0 24 24"
-                stroke="currentColor"
+                onClick={() => handleMethodChange("QR_CODE")}
+                disabled={isSubmitting}
+                whileHover={!isSubmitting ? { backgroundColor: "#F8FAFC" } : {}}
+                whileTap={!isSubmitting ? { scale: 0.98 } : {}}
               >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M12 4v1m6 11h2m-6 0h-2v4m0-11v3m0 0h.01M12 12h4.01M16 20h4M4 12h4m12 0h.01M5 8h2a1 1 0 001-1V5a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1zm12 0h2a1 1 0 001-1V5a1 1 0 00-1-1h-2a1 1 0 00-1 1v2a1 1 0 001 1zM5 20h2a1 1 0 001-1v-2a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1zm12 0h2a1 1 0 001-1v-2a1 1 0 00-1-1h-2a1 1 0 00-1 1v2a1 1 0 001 1z"
-                />
-              </svg>
-              <span
-                className={`text-sm font-medium ${
-                  selectedMethod === "QR_CODE"
-                    ? "text-[#6366F1] font-semibold"
-                    : "text-[#475569]"
-                }`}
-              >
-                QR 결제
-              </span>
-            </motion.button>
+                <svg
+                  className={`w-5 h-5 ${
+                    selectedMethod === "QR_CODE"
+                      ? "text-[#6366F1]"
+                      : "text-[#475569]"
+                  }`}
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 4v1m6 11h2m-6 0h-2v4m0-11v3m0 0h.01M12 12h4.01M16 20h4M4 12h4m12 0h.01M5 8h2a1 1 0 001-1V5a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1zm12 0h2a1 1 0 001-1V5a1 1 0 00-1-1h-2a1 1 0 00-1 1v2a1 1 0 001 1zM5 20h2a1 1 0 001-1v-2a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1zm12 0h2a1 1 0 001-1v-2a1 1 0 00-1-1h-2a1 1 0 00-1 1v2a1 1 0 001 1z"
+                  />
+                </svg>
+                <span
+                  className={`text-sm font-medium ${
+                    selectedMethod === "QR_CODE"
+                      ? "text-[#6366F1] font-semibold"
+                      : "text-[#475569]"
+                  }`}
+                >
+                  {t("payment.qrMethod")}
+                </span>
+              </motion.button>
+            )}
 
-            <motion.button
-              className={`flex-1 flex items-center justify-center gap-2 py-3.5 ${
-                selectedMethod === "STUDENT_ID"
-                  ? "bg-[#EEF2FF] border-b-2 border-[#6366F1]"
-                  : ""
-              }`}
-              onClick={() => handleMethodChange("STUDENT_ID")}
-              disabled={isSubmitting}
-              whileHover={!isSubmitting ? { backgroundColor: "#F8FAFC" } : {}}
-              whileTap={!isSubmitting ? { scale: 0.98 } : {}}
-            >
-              <svg
-                className={`w-5 h-5 ${
+            {config.features.studentIdPayment && (
+              <motion.button
+                className={`flex-1 flex items-center justify-center gap-2 py-3.5 ${
                   selectedMethod === "STUDENT_ID"
-                    ? "text-[#6366F1]"
-                    : "text-[#475569]"
+                    ? "bg-[#EEF2FF] border-b-2 border-[#6366F1]"
+                    : ""
                 }`}
-                fill="none"
-                viewBox="0 0 24 24"
-                stroke="currentColor"
+                onClick={() => handleMethodChange("STUDENT_ID")}
+                disabled={isSubmitting}
+                whileHover={!isSubmitting ? { backgroundColor: "#F8FAFC" } : {}}
+                whileTap={!isSubmitting ? { scale: 0.98 } : {}}
               >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z"
-                />
-              </svg>
-              <span
-                className={`text-sm font-medium ${
-                  selectedMethod === "STUDENT_ID"
-                    ? "text-[#6366F1] font-semibold"
-                    : "text-[#475569]"
-                }`}
-              >
-                학번 결제
-              </span>
-            </motion.button>
+                <svg
+                  className={`w-5 h-5 ${
+                    selectedMethod === "STUDENT_ID"
+                      ? "text-[#6366F1]"
+                      : "text-[#475569]"
+                  }`}
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z"
+                  />
+                </svg>
+                <span
+                  className={`text-sm font-medium ${
+                    selectedMethod === "STUDENT_ID"
+                      ? "text-[#6366F1] font-semibold"
+                      : "text-[#475569]"
+                  }`}
+                >
+                  {t("payment.studentIdMethod")}
+                </span>
+              </motion.button>
+            )}
           </div>
 
           <div className="flex-1 p-5 flex items-center justify-center">
@@ -1178,43 +1093,95 @@ export default function PaymentScreen(): React.ReactElement {
         >
           <div className="py-3.5 px-5 border-b border-[#E2E8F0] h-13">
             <h2 className="text-base font-semibold text-[#1E293B]">
-              주문 내역
+              {t("common.orderSummary")}
             </h2>
           </div>
 
           <div className="flex-1 overflow-auto">
             <div className="px-5 py-2">
-              {cart.map((item: CartItemType) => (
-                <motion.div
-                  key={item.id}
-                  className="flex justify-between py-3 border-b border-[#F1F5F9]"
-                  initial={{ opacity: 0, x: 20 }}
-                  animate={{ opacity: 1, x: 0 }}
-                  transition={{ duration: 0.3 }}
-                >
-                  <p className="flex-1 text-sm font-medium text-[#1E293B] mr-2.5 truncate">
-                    {item.name}
-                  </p>
-                  <div className="flex items-center gap-3.5">
-                    <span className="text-sm text-[#475569] min-w-7 text-right">
-                      {item.quantity}개
-                    </span>
-                    <span className="text-sm font-semibold text-[#1E293B] min-w-19 text-right">
-                      {(item.price * item.quantity).toLocaleString()}원
-                    </span>
-                  </div>
-                </motion.div>
-              ))}
+              {cart.map((item: CartItem) => {
+                const line = linePricing.get(item.key);
+                const studentLimits = getStudentLimitedProducts(
+                  [item],
+                  catalog
+                );
+
+                return (
+                  <motion.div
+                    key={item.key}
+                    className="flex justify-between py-3 border-b border-[#F1F5F9]"
+                    initial={{ opacity: 0, x: 20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ duration: 0.3 }}
+                  >
+                    <div className="flex-1 mr-2.5 min-w-0">
+                      <p className="text-sm font-medium text-[#1E293B] truncate">
+                        {item.name}
+                      </p>
+                      {getItemDetails(item).length > 0 && (
+                        <p className="text-xs text-[#64748B] truncate">
+                          {getItemDetails(item).join(", ")}
+                        </p>
+                      )}
+                      {line?.discount && (
+                        <p className="text-xs font-medium text-[#059669] truncate">
+                          {line.discount.name} -
+                          {formatPrice(line.discount.amount)}
+                        </p>
+                      )}
+                      {studentLimits.map((product) => (
+                        <p
+                          key={product.id}
+                          className="text-xs font-medium text-[#D97706] truncate"
+                        >
+                          {product.name} ·{" "}
+                          {t("limits.perStudent", {
+                            count: product.dailyLimitPerStudent!,
+                          })}
+                        </p>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-3.5">
+                      <span className="text-sm text-[#475569] min-w-7 text-right">
+                        {t("common.quantity", { count: item.quantity })}
+                      </span>
+                      <span className="text-sm font-semibold text-[#1E293B] min-w-19 text-right">
+                        {formatPrice(line?.subtotal ?? 0)}
+                      </span>
+                    </div>
+                  </motion.div>
+                );
+              })}
             </div>
           </div>
 
           <div className="p-5 border-t border-[#E2E8F0]">
+            {discountAmount > 0 && (
+              <>
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-sm text-[#64748B]">
+                    {t("promotions.subtotal")}
+                  </span>
+                  <span className="text-sm font-semibold text-[#1E293B]">
+                    {formatPrice(pricing.subtotal)}
+                  </span>
+                </div>
+                <div className="flex justify-between items-center mb-3">
+                  <span className="text-sm text-[#64748B] truncate">
+                    {t("promotions.discount")}
+                  </span>
+                  <span className="text-sm font-semibold text-[#059669]">
+                    -{formatPrice(discountAmount)}
+                  </span>
+                </div>
+              </>
+            )}
             <div className="flex justify-between items-center mb-4">
               <span className="text-base font-semibold text-[#1E293B]">
-                총 결제 금액
+                {t("payment.totalAmount")}
               </span>
               <span className="text-xl font-bold text-[#6366F1]">
-                {getTotalAmount().toLocaleString()}원
+                {formatPrice(totalAmount)}
               </span>
             </div>
 
@@ -1228,7 +1195,7 @@ export default function PaymentScreen(): React.ReactElement {
               {cancelOrderMutation.isPending ? (
                 <div className="w-5 h-5 border-2 border-[#FFFFFF] border-t-transparent rounded-full animate-spin"></div>
               ) : (
-                <span>결제 취소</span>
+                <span>{t("payment.cancel")}</span>
               )}
             </motion.button>
           </div>
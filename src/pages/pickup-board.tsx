@@ -0,0 +1,253 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import useOrderQueue from "@/hooks/use-order-queue";
+import useTranslation from "@/hooks/use-translation";
+import type { OrderResponse } from "@/types/order";
+
+const CHIME_STORAGE_KEY = "pickup-board-chime";
+const HIGHLIGHT_DURATION = 10000;
+const CHIME_NOTES = [880, 1320];
+
+const getPickupNumber = (order: OrderResponse): string =>
+  order.pickupNumber ?? String(order.id);
+
+const loadChimeEnabled = (): boolean => {
+  try {
+    return localStorage.getItem(CHIME_STORAGE_KEY) === "on";
+  } catch {
+    return false;
+  }
+};
+
+const saveChimeEnabled = (enabled: boolean) => {
+  try {
+    localStorage.setItem(CHIME_STORAGE_KEY, enabled ? "on" : "off");
+  } catch (error) {
+    console.error("Storage error:", error);
+  }
+};
+
+const playChime = (context: AudioContext) => {
+  CHIME_NOTES.forEach((frequency, index) => {
+    const startAt = context.currentTime + index * 0.25;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+
+    oscillator.type = "sine";
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.0001, startAt);
+    gain.gain.exponentialRampToValueAtTime(0.3, startAt + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, startAt + 0.6);
+
+    oscillator.connect(gain);
+    gain.connect(context.destination);
+    oscillator.start(startAt);
+    oscillator.stop(startAt + 0.6);
+  });
+};
+
+export default function PickupBoardPage(): React.ReactElement {
+  const [chimeEnabled, setChimeEnabled] = useState<boolean>(loadChimeEnabled);
+  const [highlighted, setHighlighted] = useState<number[]>([]);
+  const [isFullscreen, setIsFullscreen] = useState<boolean>(
+    () => !!document.fullscreenElement
+  );
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const chimeEnabledRef = useRef<boolean>(chimeEnabled);
+  const highlightTimersRef = useRef<number[]>([]);
+  const isMounted = useRef<boolean>(true);
+  const { t } = useTranslation();
+
+  const getAudioContext = useCallback(() => {
+    if (!audioContextRef.current) {
+      audioContextRef.current = new AudioContext();
+    }
+    return audioContextRef.current;
+  }, []);
+
+  const handleOrderUpdated = useCallback(
+    (order: OrderResponse, previous?: OrderResponse) => {
+      if (
+        order.fulfillmentStatus !== "READY" ||
+        previous?.fulfillmentStatus === "READY"
+      ) {
+        return;
+      }
+
+      setHighlighted((prev) => [
+        ...prev.filter((id) => id !== order.id),
+        order.id,
+      ]);
+      highlightTimersRef.current.push(
+        window.setTimeout(() => {
+          if (isMounted.current) {
+            setHighlighted((prev) => prev.filter((id) => id !== order.id));
+          }
+        }, HIGHLIGHT_DURATION)
+      );
+
+      if (chimeEnabledRef.current) {
+        try {
+          playChime(getAudioContext());
+        } catch (error) {
+          console.error("Chime playback error:", error);
+        }
+      }
+    },
+    [getAudioContext]
+  );
+
+  const { orders, realtimeStatus } = useOrderQueue(handleOrderUpdated);
+
+  useEffect(() => {
+    isMounted.current = true;
+
+    const handleFullscreenChange = () => {
+      setIsFullscreen(!!document.fullscreenElement);
+    };
+    document.addEventListener("fullscreenchange", handleFullscreenChange);
+
+    return () => {
+      isMounted.current = false;
+      document.removeEventListener("fullscreenchange", handleFullscreenChange);
+      highlightTimersRef.current.forEach((timer) => clearTimeout(timer));
+      highlightTimersRef.current = [];
+      audioContextRef.current?.close();
+      audioContextRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    chimeEnabledRef.current = chimeEnabled;
+    saveChimeEnabled(chimeEnabled);
+  }, [chimeEnabled]);
+
+  const preparingOrders = useMemo(
+    () => orders.filter((order) => order.fulfillmentStatus !== "READY"),
+    [orders]
+  );
+
+  const readyOrders = useMemo(
+    () =>
+      orders.filter((order) => order.fulfillmentStatus === "READY").reverse(),
+    [orders]
+  );
+
+  const handleToggleChime = useCallback(() => {
+    setChimeEnabled((prev) => {
+      const next = !prev;
+      if (next) {
+        getAudioContext().resume();
+      }
+      return next;
+    });
+  }, [getAudioContext]);
+
+  const handleToggleFullscreen = useCallback(() => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch((error) => {
+        console.error("Fullscreen exit error:", error);
+      });
+    } else {
+      document.documentElement.requestFullscreen().catch((error) => {
+        console.error("Fullscreen request error:", error);
+      });
+    }
+  }, []);
+
+  const renderNumber = useCallback(
+    (order: OrderResponse, isReady: boolean) => {
+      const isHighlighted = highlighted.includes(order.id);
+
+      return (
+        <motion.div
+          key={order.id}
+          layout
+          className={`flex items-center justify-center rounded-2xl font-bold ${
+            isReady
+              ? "py-6 text-7xl text-[#052E16] bg-[#4ADE80]"
+              : "py-4 text-5xl text-[#E2E8F0] bg-[#1E293B]"
+          }`}
+          initial={{ opacity: 0, scale: 0.8 }}
+          animate={
+            isHighlighted
+              ? { opacity: [1, 0.4, 1], scale: 1 }
+              : { opacity: 1, scale: 1 }
+          }
+          exit={{ opacity: 0, scale: 0.8 }}
+          transition={
+            isHighlighted
+              ? { duration: 1, repeat: Infinity }
+              : { duration: 0.3 }
+          }
+        >
+          {getPickupNumber(order)}
+        </motion.div>
+      );
+    },
+    [highlighted]
+  );
+
+  return (
+    <div className="flex flex-col h-screen bg-[#0F172A] select-none">
+      <main className="flex flex-1 gap-6 p-8 overflow-hidden">
+        <section className="flex flex-col w-2/5">
+          <h2 className="pb-4 mb-6 text-4xl font-bold text-center text-[#FBBF24] border-b-2 border-[#334155]">
+            {t("pickupBoard.preparing")}
+          </h2>
+          <div className="grid content-start grid-cols-3 gap-4 overflow-hidden">
+            <AnimatePresence>
+              {preparingOrders.map((order) => renderNumber(order, false))}
+            </AnimatePresence>
+          </div>
+        </section>
+
+        <section className="flex flex-col flex-1">
+          <h2 className="pb-4 mb-6 text-4xl font-bold text-center text-[#4ADE80] border-b-2 border-[#334155]">
+            {t("pickupBoard.ready")}
+          </h2>
+          <div className="grid content-start grid-cols-3 gap-5 overflow-hidden">
+            <AnimatePresence>
+              {readyOrders.map((order) => renderNumber(order, true))}
+            </AnimatePresence>
+          </div>
+        </section>
+      </main>
+
+      <footer className="flex items-center justify-between px-8 py-4 border-t border-[#1E293B]">
+        <p className="text-xl font-medium text-[#CBD5E1]">
+          {t("pickupBoard.guide")}
+        </p>
+        <div className="flex items-center gap-3 opacity-40 hover:opacity-100">
+          {realtimeStatus !== "CONNECTED" && (
+            <span className="w-2 h-2 rounded-full bg-[#F59E0B]" />
+          )}
+          <motion.button
+            className="px-3 py-1.5 text-sm font-medium text-[#CBD5E1] bg-[#1E293B] rounded-lg"
+            onClick={handleToggleChime}
+            whileTap={{ scale: 0.95 }}
+          >
+            {chimeEnabled
+              ? t("pickupBoard.chimeOn")
+              : t("pickupBoard.chimeOff")}
+          </motion.button>
+          <motion.button
+            className="px-3 py-1.5 text-sm font-medium text-[#CBD5E1] bg-[#1E293B] rounded-lg"
+            onClick={handleToggleFullscreen}
+            whileTap={{ scale: 0.95 }}
+          >
+            {isFullscreen
+              ? t("pickupBoard.exitFullscreen")
+              : t("pickupBoard.fullscreen")}
+          </motion.button>
+        </div>
+      </footer>
+    </div>
+  );
+}
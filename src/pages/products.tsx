@@ -1,62 +1,101 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
-import { API_URL } from "@/constants/api";
-import { isAxiosError } from "axios";
-import { useAuthStore } from "@/stores/auth";
 import { useCartStore } from "@/stores/cart";
 import { usePaymentStore } from "@/stores/payment";
-import api from "@/libs/api";
+import { getItemDetails } from "@/domain/cart";
+import {
+  checkPurchaseLimit,
+  requiresStaffConfirmation,
+  type LimitViolation,
+} from "@/domain/limits";
+import { toOrderRequest } from "@/domain/promotions";
+import {
+  checkAddToCart,
+  checkQuantityChange,
+  getDefaultComponents,
+  isSetProduct,
+  isSoldOut as isProductSoldOut,
+  resolveSetProducts,
+  type StockViolation,
+} from "@/domain/stock";
+import { canTransition, isPaymentInProgress } from "@/libs/payment-machine";
+import { toApiError } from "@/libs/api";
+import {
+  cancelOrder,
+  createOrder,
+  fetchAvailableProducts,
+} from "@/libs/endpoints";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  loadCatalog,
+  saveCatalog,
+  type CachedCatalog,
+} from "@/libs/catalog-cache";
+import useOnlineStatus from "@/hooks/use-online-status";
+import useStockUpdates from "@/hooks/use-stock-updates";
+import useCartPricing, { PROMOTIONS_QUERY_KEY } from "@/hooks/use-cart-pricing";
+import useTranslation from "@/hooks/use-translation";
+import ProductOptionModal from "@/components/product-option-modal";
+import CouponDialog from "@/components/coupon-dialog";
+import StaffPinDialog from "@/components/staff-pin-dialog";
+import StaffPanel from "@/components/staff-panel";
+import LanguagePicker from "@/components/language-picker";
+import { useConfigStore } from "@/stores/config";
+import { useSoldOutStore } from "@/stores/sold-out";
+import type {
+  ProductResponse,
+  SelectedComponent,
+  SelectedOption,
+} from "@/types/product";
+import type { CreateOrderRequest } from "@/types/order";
 
-interface ProductResponse {
-  id: number;
-  name: string;
-  price: number;
-  description?: string;
-  imageUrl?: string;
-  status: "AVAILABLE" | "SOLD_OUT" | "HIDDEN";
-  stock: number;
-  sortOrder: number;
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface CreateOrderItemRequest {
-  productId: number;
-  quantity: number;
-}
-
-interface CreateOrderRequest {
-  items: CreateOrderItemRequest[];
-}
-
-const ERROR_CODES: Record<string, string> = {
-  INSUFFICIENT_STOCK: "재고가 부족합니다",
-  PRODUCT_NOT_FOUND: "일부 상품이 판매 불가능합니다",
-  PRODUCT_UNAVAILABLE: "판매 중단된 상품이 포함되어 있습니다",
-};
+const OFFLINE_REFETCH_INTERVAL = 1000 * 30;
+const FALLBACK_CATEGORY = "기타";
+const CATEGORY_TAB_OFFSET = 72;
+const STAFF_LONG_PRESS_DURATION = 2000;
 
 export default function ProductsScreen() {
-  const [secretTapCount, setSecretTapCount] = useState(0);
+  const { t, formatPrice, formatTime } = useTranslation();
+  const [staffStage, setStaffStage] = useState<
+    "closed" | "pin" | "panel" | "confirm"
+  >("closed");
   const [alertVisible, setAlertVisible] = useState(false);
   const [alertMessage, setAlertMessage] = useState("");
+  const [cachedCatalog, setCachedCatalog] = useState<CachedCatalog | null>(
+    null
+  );
+  const [offlineSince, setOfflineSince] = useState<number | null>(null);
+  const [activeCategory, setActiveCategory] = useState<string | null>(null);
+  const [couponDialogOpen, setCouponDialogOpen] = useState(false);
+  const [optionProduct, setOptionProduct] = useState<ProductResponse | null>(
+    null
+  );
+  const productsContainerRef = useRef<HTMLDivElement>(null);
+  const sectionRefs = useRef<Record<string, HTMLElement | null>>({});
+  const longPressTimerRef = useRef<number | null>(null);
   const navigate = useNavigate();
+  const isOnline = useOnlineStatus();
 
   const queryClient = useQueryClient();
-  const { signOut } = useAuthStore();
   const {
     items: cart,
+    coupon,
     addItem,
     updateQuantity,
+    getProductQuantity,
     clearCart,
-    getTotalAmount,
+    removeCoupon,
     getTotalItems,
   } = useCartStore();
-  const { createPayment } = usePaymentStore();
+  const pricing = useCartPricing();
+  const { dispatch: dispatchPayment } = usePaymentStore();
+  const { soldOutProductIds } = useSoldOutStore();
+  const { config } = useConfigStore();
 
   const {
-    data: products = [],
+    data: liveProducts,
+    dataUpdatedAt,
     isLoading,
     isError,
     refetch,
@@ -64,47 +103,114 @@ export default function ProductsScreen() {
   } = useQuery({
     queryKey: ["products"],
     queryFn: async () => {
-      const response = await api.get<ProductResponse[]>(
-        `${API_URL}/products/available`
-      );
-      return response.data;
+      const products = await fetchAvailableProducts();
+      saveCatalog(products);
+      return products;
     },
     staleTime: 1000 * 60 * 5,
     retry: 2,
+    refetchInterval: (query) =>
+      query.state.status === "error" ? OFFLINE_REFETCH_INTERVAL : false,
   });
 
+  useEffect(() => {
+    loadCatalog().then(setCachedCatalog);
+  }, []);
+
+  useEffect(() => {
+    if (!isOnline || isError) {
+      setOfflineSince((prev) => prev ?? Date.now());
+    }
+  }, [isOnline, isError]);
+
+  useEffect(() => {
+    if (isOnline && offlineSince !== null) {
+      refetch();
+    }
+  }, [isOnline, offlineSince, refetch]);
+
+  useEffect(() => {
+    if (
+      isOnline &&
+      !isError &&
+      offlineSince !== null &&
+      dataUpdatedAt > offlineSince
+    ) {
+      setOfflineSince(null);
+    }
+  }, [isOnline, isError, offlineSince, dataUpdatedAt]);
+
+  const catalogProducts = useMemo(
+    () => resolveSetProducts(liveProducts ?? cachedCatalog?.products ?? []),
+    [liveProducts, cachedCatalog]
+  );
+  const products = useMemo(
+    () =>
+      resolveSetProducts(
+        catalogProducts.map((product) =>
+          soldOutProductIds.includes(product.id)
+            ? { ...product, status: "SOLD_OUT" as const }
+            : product
+        )
+      ),
+    [catalogProducts, soldOutProductIds]
+  );
+  const isOffline = offlineSince !== null;
+
+  const categorySections = useMemo(() => {
+    const sections = new Map<string, ProductResponse[]>();
+
+    products.forEach((product) => {
+      const category = product.category?.trim() || FALLBACK_CATEGORY;
+      sections.set(category, [...(sections.get(category) ?? []), product]);
+    });
+
+    return [...sections.entries()]
+      .sort(
+        ([a], [b]) =>
+          Number(a === FALLBACK_CATEGORY) - Number(b === FALLBACK_CATEGORY)
+      )
+      .map(([name, items]) => ({ name, products: items }));
+  }, [products]);
+  const hasCategories =
+    categorySections.length > 1 ||
+    (categorySections.length === 1 &&
+      categorySections[0].name !== FALLBACK_CATEGORY);
+  const catalogUpdatedAt =
+    !liveProducts && cachedCatalog ? cachedCatalog.savedAt : dataUpdatedAt;
+
   const orderMutation = useMutation({
-    mutationFn: (orderRequest: CreateOrderRequest) => {
-      return api.post(`${API_URL}/orders`, orderRequest, {
-        headers: {
-          Authorization: `Bearer ${useAuthStore.getState().token}`,
-        },
-      });
+    mutationFn: async (orderRequest: CreateOrderRequest) => {
+      // An abandoned payment still holds its order's stock on the server, so
+      // release it before placing the new order.
+      const { phase, orderId } = usePaymentStore.getState();
+      if (isPaymentInProgress(phase) && orderId !== null) {
+        try {
+          await cancelOrder(orderId);
+        } catch (error) {
+          console.error("Failed to cancel previous order:", error);
+        }
+        dispatchPayment({ type: "CANCELLED" });
+      }
+
+      return await createOrder(orderRequest);
     },
-    onSuccess: (response) => {
-      if (response.data?.id) {
-        createPayment(response.data.id);
-        navigate("/payment");
-      } else {
-        throw new Error("주문 생성 실패");
+    onSuccess: (order) => {
+      if (!canTransition(usePaymentStore.getState().phase, "ORDER_CREATED")) {
+        dispatchPayment({ type: "RESET" });
+      }
+      if (!dispatchPayment({ type: "ORDER_CREATED", orderId: order.id })) {
+        showAlert(t("products.orderFailed"));
+        return;
       }
+      navigate("/payment");
     },
     onError: (error) => {
-      let errorMessage = "주문 처리에 실패했습니다";
+      const apiError = toApiError(error);
 
-      if (isAxiosError(error) && error.response?.data) {
-        try {
-          const errorData = error.response.data;
-          if (errorData?.code && ERROR_CODES[errorData.code]) {
-            errorMessage = ERROR_CODES[errorData.code];
-          }
-        } catch (e) {
-          console.error("Error parsing response:", e);
-        }
-      }
-
-      showAlert(errorMessage);
+      showAlert(t(apiError.getMessageKey("products.orderFailed")));
       queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: PROMOTIONS_QUERY_KEY });
     },
   });
 
@@ -117,75 +223,363 @@ export default function ProductsScreen() {
     }, 3000);
   }, []);
 
-  const handleSecretTap = useCallback(() => {
-    const newCount = secretTapCount + 1;
-    setSecretTapCount(newCount);
+  const handleCartAdjusted = useCallback(
+    (productNames: string[]) => {
+      showAlert(t("products.cartAdjusted", { names: productNames.join(", ") }));
+    },
+    [showAlert, t]
+  );
+
+  const stockStatus = useStockUpdates(handleCartAdjusted);
 
-    if (newCount >= 7) {
-      if (confirm("이 키오스크의 연결을 해제하시겠습니까?")) {
-        signOut();
-        clearCart();
-        navigate("/login");
-      }
-      setSecretTapCount(0);
+  const handleLogoPressEnd = useCallback(() => {
+    if (longPressTimerRef.current) {
+      clearTimeout(longPressTimerRef.current);
+      longPressTimerRef.current = null;
     }
-  }, [secretTapCount, signOut, clearCart, navigate]);
+  }, []);
+
+  const handleLogoPressStart = useCallback(() => {
+    handleLogoPressEnd();
+    longPressTimerRef.current = window.setTimeout(() => {
+      longPressTimerRef.current = null;
+      setStaffStage("pin");
+    }, STAFF_LONG_PRESS_DURATION);
+  }, [handleLogoPressEnd]);
+
+  useEffect(() => handleLogoPressEnd, [handleLogoPressEnd]);
+
+  const needsStaffConfirmation = requiresStaffConfirmation(cart, products);
+
+  const submitOrder = useCallback(
+    (staffConfirmed: boolean) => {
+      const orderRequest: CreateOrderRequest = {
+        ...toOrderRequest(cart, pricing, coupon?.code ?? null),
+        ...(staffConfirmed && { staffConfirmed }),
+      };
+
+      orderMutation.mutate(orderRequest);
+    },
+    [cart, coupon, pricing, orderMutation]
+  );
 
   const handlePayment = useCallback(() => {
+    if (isOffline) {
+      showAlert(t("products.checkNetwork"));
+      return;
+    }
+
     if (cart.length === 0) {
-      showAlert("상품을 선택해주세요");
+      showAlert(t("products.selectProducts"));
       return;
     }
 
-    const orderRequest: CreateOrderRequest = {
-      items: cart.map((item) => ({
-        productId: item.id,
-        quantity: item.quantity,
-      })),
-    };
+    if (needsStaffConfirmation) {
+      setStaffStage("confirm");
+      return;
+    }
+
+    submitOrder(false);
+  }, [cart, isOffline, needsStaffConfirmation, submitOrder, showAlert, t]);
 
-    orderMutation.mutate(orderRequest);
-  }, [cart, orderMutation, showAlert]);
+  const showStockViolation = useCallback(
+    (violation: StockViolation) => {
+      showAlert(
+        violation === "SOLD_OUT"
+          ? t("products.soldOutAlert")
+          : t("errors.INSUFFICIENT_STOCK")
+      );
+    },
+    [showAlert, t]
+  );
+
+  const showLimitViolation = useCallback(
+    (violation: LimitViolation) => {
+      showAlert(
+        violation.type === "ORDER_LIMIT"
+          ? t("limits.orderLimitReached", { count: violation.limit })
+          : t("limits.productLimitReached", {
+              name: violation.productName,
+              count: violation.limit,
+            })
+      );
+    },
+    [showAlert, t]
+  );
 
   const handleAddToCart = useCallback(
     (product: ProductResponse) => {
-      if (product.status === "SOLD_OUT" || product.stock <= 0) {
-        showAlert("품절된 상품입니다");
+      const violation = checkAddToCart(product, cart, products);
+      if (violation) {
+        showStockViolation(violation);
         return;
       }
 
-      const existingItem = cart.find((item) => item.id === product.id);
-      const currentQuantity = existingItem ? existingItem.quantity : 0;
+      const components = isSetProduct(product)
+        ? getDefaultComponents(product, products, cart)
+        : [];
+      const limitViolation = checkPurchaseLimit(
+        { id: product.id, components },
+        cart,
+        products,
+        1,
+        config.maxOrderQuantity
+      );
+      if (limitViolation) {
+        showLimitViolation(limitViolation);
+        return;
+      }
 
-      if (currentQuantity >= product.stock) {
-        showAlert("재고가 부족합니다");
+      if (
+        (product.optionGroups && product.optionGroups.length > 0) ||
+        product.components?.some((slot) => slot.swaps && slot.swaps.length > 0)
+      ) {
+        setOptionProduct(product);
         return;
       }
 
-      addItem({
-        id: product.id,
-        name: product.name,
-        price: product.price,
-      });
+      addItem(
+        {
+          id: product.id,
+          name: product.name,
+          price: product.price,
+        },
+        [],
+        components
+      );
+    },
+    [
+      addItem,
+      cart,
+      products,
+      config.maxOrderQuantity,
+      showStockViolation,
+      showLimitViolation,
+    ]
+  );
+
+  const handleOptionConfirm = useCallback(
+    (options: SelectedOption[], components: SelectedComponent[]) => {
+      if (!optionProduct) return;
+
+      const violation = checkAddToCart(
+        optionProduct,
+        cart,
+        products,
+        components
+      );
+      const limitViolation = checkPurchaseLimit(
+        { id: optionProduct.id, components },
+        cart,
+        products,
+        1,
+        config.maxOrderQuantity
+      );
+      if (violation) {
+        showStockViolation(violation);
+      } else if (limitViolation) {
+        showLimitViolation(limitViolation);
+      } else {
+        addItem(
+          {
+            id: optionProduct.id,
+            name: optionProduct.name,
+            price: optionProduct.price,
+          },
+          options,
+          components
+        );
+      }
+
+      setOptionProduct(null);
     },
-    [cart, addItem, showAlert]
+    [
+      optionProduct,
+      addItem,
+      cart,
+      products,
+      config.maxOrderQuantity,
+      showStockViolation,
+      showLimitViolation,
+    ]
   );
 
   const handleQuantityUpdate = useCallback(
-    (id: number, newQuantity: number) => {
+    (key: string, newQuantity: number) => {
       if (newQuantity <= 0) {
-        updateQuantity(id, 0);
+        updateQuantity(key, 0);
+        return;
+      }
+
+      const item = cart.find((cartItem) => cartItem.key === key);
+      const product = item && products.find((p) => p.id === item.id);
+      const violation =
+        product &&
+        checkQuantityChange(product, cart, key, newQuantity, products);
+      if (violation) {
+        showStockViolation(violation);
         return;
       }
 
-      const product = products.find((p) => p.id === id);
-      if (product && newQuantity > product.stock) {
-        showAlert("재고가 부족합니다");
+      const limitViolation =
+        item &&
+        checkPurchaseLimit(
+          item,
+          cart,
+          products,
+          newQuantity - item.quantity,
+          config.maxOrderQuantity
+        );
+      if (limitViolation) {
+        showLimitViolation(limitViolation);
         return;
       }
-      updateQuantity(id, newQuantity);
+      updateQuantity(key, newQuantity);
+    },
+    [
+      cart,
+      products,
+      config.maxOrderQuantity,
+      updateQuantity,
+      showStockViolation,
+      showLimitViolation,
+    ]
+  );
+
+  const handleProductsScroll = useCallback(() => {
+    const container = productsContainerRef.current;
+    if (!container || !hasCategories) return;
+
+    let current: string | null = null;
+
+    if (container.scrollTop > 0) {
+      const threshold = container.scrollTop + CATEGORY_TAB_OFFSET;
+      categorySections.forEach((section) => {
+        const element = sectionRefs.current[section.name];
+        if (element && element.offsetTop <= threshold) {
+          current = section.name;
+        }
+      });
+    }
+
+    setActiveCategory(current);
+  }, [categorySections, hasCategories]);
+
+  const getCategoryLabel = useCallback(
+    (category: string) =>
+      category === FALLBACK_CATEGORY ? t("products.otherCategory") : category,
+    [t]
+  );
+
+  const handleCategorySelect = useCallback((category: string | null) => {
+    const container = productsContainerRef.current;
+    if (!container) return;
+
+    const element = category ? sectionRefs.current[category] : null;
+    container.scrollTo({
+      top: element ? element.offsetTop - CATEGORY_TAB_OFFSET + 8 : 0,
+      behavior: "smooth",
+    });
+    setActiveCategory(category);
+  }, []);
+
+  const renderProductCard = useCallback(
+    (product: ProductResponse) => {
+      const isSoldOut = isProductSoldOut(product);
+      const cartQuantity = getProductQuantity(product.id);
+      const inCart = cartQuantity > 0;
+
+      return (
+        <motion.div
+          key={product.id}
+          className={`
+            flex flex-col border rounded-xl overflow-hidden h-56 relative cursor-pointer
+            ${isSoldOut ? "opacity-70 cursor-not-allowed" : ""}
+            ${inCart ? "border-2 border-[#4F46E5]" : "border-[#E2E8F0]"}
+          `}
+          onClick={() => !isSoldOut && handleAddToCart(product)}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+          whileHover={
+            !isSoldOut ? { y: -5, boxShadow: "0 4px 6px rgba(0,0,0,0.1)" } : {}
+          }
+          whileTap={!isSoldOut ? { scale: 0.98 } : {}}
+        >
+          <div className="relative w-full h-36 bg-[#E2E8F0]">
+            <img
+              src={product.imageUrl || "/assets/images/placeholder.png"}
+              alt={product.name}
+              className="object-cover w-full h-full"
+            />
+            {isSoldOut && (
+              <div className="absolute inset-0 flex items-center justify-center bg-[#000000]/50">
+                <span className="px-4 py-2 text-lg font-bold text-[#FFFFFF] bg-[#000000]/60 rounded-full">
+                  {t("products.soldOut")}
+                </span>
+              </div>
+            )}
+            {(product.maxPerOrder != null ||
+              product.dailyLimitPerStudent != null ||
+              product.requiresStaffConfirmation) && (
+              <div className="absolute top-2 left-2 flex flex-col items-start gap-1">
+                {product.maxPerOrder != null && (
+                  <span className="px-2 py-0.5 text-xs font-semibold text-[#FFFFFF] bg-[#D97706] rounded-full">
+                    {t("limits.perOrder", { count: product.maxPerOrder })}
+                  </span>
+                )}
+                {product.dailyLimitPerStudent != null && (
+                  <span className="px-2 py-0.5 text-xs font-semibold text-[#FFFFFF] bg-[#D97706] rounded-full">
+                    {t("limits.perStudent", {
+                      count: product.dailyLimitPerStudent,
+                    })}
+                  </span>
+                )}
+                {product.requiresStaffConfirmation && (
+                  <span className="px-2 py-0.5 text-xs font-semibold text-[#FFFFFF] bg-[#DC2626] rounded-full">
+                    {t("limits.staffCheck")}
+                  </span>
+                )}
+              </div>
+            )}
+            {inCart && (
+              <motion.div
+                className="absolute top-2 right-2 flex items-center justify-center w-6 h-6 text-sm font-bold text-[#FFFFFF] bg-[#4F46E5] rounded-full"
+                initial={{ scale: 0 }}
+                animate={{ scale: 1 }}
+                transition={{
+                  type: "spring",
+                  stiffness: 500,
+                  damping: 20,
+                }}
+              >
+                {cartQuantity}
+              </motion.div>
+            )}
+          </div>
+          <div className="flex flex-col justify-between flex-1 p-3">
+            <h3 className="text-base font-semibold text-[#1E293B] truncate">
+              {product.name}
+            </h3>
+            <div>
+              <p
+                className={`text-base font-bold ${
+                  isSoldOut ? "text-[#64748B]" : "text-[#4F46E5]"
+                }`}
+              >
+                {formatPrice(product.price)}
+              </p>
+              {!isSoldOut && (
+                <p className="mt-1 text-xs text-[#64748B]">
+                  {t("products.stock", { count: product.stock })}
+                </p>
+              )}
+            </div>
+          </div>
+        </motion.div>
+      );
     },
-    [products, updateQuantity, showAlert]
+    [getProductQuantity, handleAddToCart, t, formatPrice]
   );
 
   return (
@@ -198,7 +592,10 @@ export default function ProductsScreen() {
       >
         <motion.div
           className="flex items-center cursor-pointer"
-          onClick={handleSecretTap}
+          onPointerDown={handleLogoPressStart}
+          onPointerUp={handleLogoPressEnd}
+          onPointerLeave={handleLogoPressEnd}
+          onContextMenu={(event) => event.preventDefault()}
           whileTap={{ scale: 0.97 }}
         >
           <img
@@ -212,24 +609,85 @@ export default function ProductsScreen() {
             </h1>
           </div>
         </motion.div>
+        <LanguagePicker className="ml-auto" />
       </motion.header>
 
       <div className="flex flex-1">
         {/* Products Section */}
         <motion.div
-          className="flex-grow p-5 bg-[#FFFFFF] overflow-auto"
+          ref={productsContainerRef}
+          className="relative flex-grow p-5 bg-[#FFFFFF] overflow-auto"
+          onScroll={handleProductsScroll}
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
           transition={{ duration: 0.3, delay: 0.1 }}
         >
+          {hasCategories && (
+            <nav className="sticky -top-5 z-10 flex gap-2 -mx-5 -mt-5 mb-4 px-5 py-3 overflow-x-auto bg-[#FFFFFF] border-b border-[#F1F5F9]">
+              {[null, ...categorySections.map((section) => section.name)].map(
+                (category) => {
+                  const isActive = activeCategory === category;
+
+                  return (
+                    <motion.button
+                      key={category ?? "all"}
+                      className={`shrink-0 px-4 py-2 text-sm font-semibold rounded-full ${
+                        isActive
+                          ? "text-[#FFFFFF] bg-[#4F46E5]"
+                          : "text-[#475569] bg-[#F1F5F9]"
+                      }`}
+                      onClick={() => handleCategorySelect(category)}
+                      whileTap={{ scale: 0.95 }}
+                    >
+                      {category === null
+                        ? t("products.allCategories")
+                        : getCategoryLabel(category)}
+                    </motion.button>
+                  );
+                }
+              )}
+            </nav>
+          )}
+          {isOffline && products.length > 0 && (
+            <div className="flex items-center px-4 py-3 mb-4 bg-[#FFFBEB] border border-[#FDE68A] rounded-xl">
+              <svg
+                className="w-5 h-5 text-[#D97706]"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+                />
+              </svg>
+              <span className="flex-1 ml-2 text-sm font-medium text-[#92400E]">
+                {t("products.offlineNotice", {
+                  time: formatTime(catalogUpdatedAt),
+                })}
+              </span>
+              <motion.button
+                className="px-3 py-1.5 text-sm font-semibold text-[#92400E] bg-[#FEF3C7] rounded-full"
+                onClick={() => refetch()}
+                disabled={isRefetching}
+                whileTap={{ scale: 0.95 }}
+              >
+                {isRefetching
+                  ? t("products.reconnecting")
+                  : t("products.reconnect")}
+              </motion.button>
+            </div>
+          )}
           {isLoading && !isRefetching ? (
             <div className="flex flex-col items-center justify-center h-full">
               <div className="w-10 h-10 border-4 border-[#4F46E5] border-t-transparent rounded-full animate-spin"></div>
               <p className="mt-4 text-base font-medium text-[#64748B]">
-                상품을 불러오는 중...
+                {t("products.loading")}
               </p>
             </div>
-          ) : isError ? (
+          ) : isError && products.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-full">
               <svg
                 className="w-12 h-12 text-[#EF4444]"
@@ -245,7 +703,7 @@ export default function ProductsScreen() {
                 />
               </svg>
               <p className="mt-4 mb-6 text-base font-medium text-[#EF4444]">
-                상품을 불러올 수 없습니다
+                {t("products.loadFailed")}
               </p>
               <motion.button
                 className="px-5 py-3 text-base font-semibold text-[#FFFFFF] bg-[#4F46E5] rounded-xl"
@@ -253,94 +711,32 @@ export default function ProductsScreen() {
                 whileHover={{ backgroundColor: "#4338CA" }}
                 whileTap={{ scale: 0.95 }}
               >
-                다시 시도
+                {t("common.retry")}
               </motion.button>
             </div>
           ) : (
-            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-3">
-              {products.map((product) => {
-                const isSoldOut =
-                  product.status === "SOLD_OUT" || product.stock <= 0;
-                const cartItem = cart.find(
-                  (cartItem) => cartItem.id === product.id
-                );
-                const inCart = cartItem !== undefined;
-
-                return (
-                  <motion.div
-                    key={product.id}
-                    className={`
-                      flex flex-col border rounded-xl overflow-hidden h-56 relative cursor-pointer
-                      ${isSoldOut ? "opacity-70 cursor-not-allowed" : ""}
-                      ${
-                        inCart
-                          ? "border-2 border-[#4F46E5]"
-                          : "border-[#E2E8F0]"
-                      }
-                    `}
-                    onClick={() => !isSoldOut && handleAddToCart(product)}
-                    initial={{ opacity: 0, y: 20 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ duration: 0.3 }}
-                    whileHover={
-                      !isSoldOut
-                        ? { y: -5, boxShadow: "0 4px 6px rgba(0,0,0,0.1)" }
-                        : {}
-                    }
-                    whileTap={!isSoldOut ? { scale: 0.98 } : {}}
+            <div className="flex flex-col gap-8">
+              {hasCategories ? (
+                categorySections.map((section) => (
+                  <section
+                    key={section.name}
+                    ref={(element) => {
+                      sectionRefs.current[section.name] = element;
+                    }}
                   >
-                    <div className="relative w-full h-36 bg-[#E2E8F0]">
-                      <img
-                        src={
-                          product.imageUrl || "/assets/images/placeholder.png"
-                        }
-                        alt={product.name}
-                        className="object-cover w-full h-full"
-                      />
-                      {isSoldOut && (
-                        <div className="absolute inset-0 flex items-center justify-center bg-[#000000]/50">
-                          <span className="px-4 py-2 text-lg font-bold text-[#FFFFFF] bg-[#000000]/60 rounded-full">
-                            품절
-                          </span>
-                        </div>
-                      )}
-                      {inCart && (
-                        <motion.div
-                          className="absolute top-2 right-2 flex items-center justify-center w-6 h-6 text-sm font-bold text-[#FFFFFF] bg-[#4F46E5] rounded-full"
-                          initial={{ scale: 0 }}
-                          animate={{ scale: 1 }}
-                          transition={{
-                            type: "spring",
-                            stiffness: 500,
-                            damping: 20,
-                          }}
-                        >
-                          {cartItem.quantity}
-                        </motion.div>
-                      )}
+                    <h2 className="mb-3 text-lg font-bold text-[#1E293B]">
+                      {getCategoryLabel(section.name)}
+                    </h2>
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-3">
+                      {section.products.map(renderProductCard)}
                     </div>
-                    <div className="flex flex-col justify-between flex-1 p-3">
-                      <h3 className="text-base font-semibold text-[#1E293B] truncate">
-                        {product.name}
-                      </h3>
-                      <div>
-                        <p
-                          className={`text-base font-bold ${
-                            isSoldOut ? "text-[#64748B]" : "text-[#4F46E5]"
-                          }`}
-                        >
-                          {product.price.toLocaleString()}원
-                        </p>
-                        {!isSoldOut && (
-                          <p className="mt-1 text-xs text-[#64748B]">
-                            재고: {product.stock}개
-                          </p>
-                        )}
-                      </div>
-                    </div>
-                  </motion.div>
-                );
-              })}
+                  </section>
+                ))
+              ) : (
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-3">
+                  {products.map(renderProductCard)}
+                </div>
+              )}
             </div>
           )}
         </motion.div>
@@ -353,7 +749,9 @@ export default function ProductsScreen() {
           transition={{ duration: 0.3, delay: 0.2 }}
         >
           <div className="flex justify-between items-center p-5 border-b border-[#F1F5F9] h-16">
-            <h2 className="text-xl font-bold text-[#1E293B]">장바구니</h2>
+            <h2 className="text-xl font-bold text-[#1E293B]">
+              {t("cart.title")}
+            </h2>
             {cart.length > 0 && (
               <motion.button
                 className="flex items-center px-3 py-1.5 text-sm font-medium text-[#FFFFFF] bg-[#EF4444] rounded-full"
@@ -377,7 +775,7 @@ export default function ProductsScreen() {
                     d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
                   />
                 </svg>
-                비우기
+                {t("cart.clear")}
               </motion.button>
             )}
           </div>
@@ -399,10 +797,10 @@ export default function ProductsScreen() {
                   />
                 </svg>
                 <p className="mt-4 text-base font-semibold text-[#64748B]">
-                  장바구니가 비어있습니다
+                  {t("cart.empty")}
                 </p>
                 <p className="mt-2 text-sm font-medium text-[#64748B]">
-                  상품을 선택해주세요
+                  {t("cart.emptyHint")}
                 </p>
               </div>
             ) : (
@@ -410,12 +808,30 @@ export default function ProductsScreen() {
                 <AnimatePresence>
                   {cart.map((item) => {
                     const product = products.find((p) => p.id === item.id);
+                    const limitViolation = checkPurchaseLimit(
+                      item,
+                      cart,
+                      products,
+                      1,
+                      config.maxOrderQuantity
+                    );
                     const maxReached =
-                      product && item.quantity >= product.stock;
+                      !!limitViolation ||
+                      (product &&
+                        checkQuantityChange(
+                          product,
+                          cart,
+                          item.key,
+                          item.quantity + 1,
+                          products
+                        ) !== null);
+                    const line = pricing.lines.find(
+                      (linePricing) => linePricing.key === item.key
+                    );
 
                     return (
                       <motion.div
-                        key={item.id}
+                        key={item.key}
                         className="flex justify-between items-center py-4 border-b border-[#F1F5F9]"
                         initial={{ opacity: 0, y: 10 }}
                         animate={{ opacity: 1, y: 0 }}
@@ -424,26 +840,51 @@ export default function ProductsScreen() {
                       >
                         <motion.div
                           className="flex-1 mr-2 cursor-pointer"
-                          onClick={() => updateQuantity(item.id, 0)}
+                          onClick={() => updateQuantity(item.key, 0)}
                           whileTap={{ scale: 0.98 }}
                         >
                           <h3 className="text-base font-semibold text-[#1E293B] truncate">
                             {item.name}
                           </h3>
+                          {getItemDetails(item).length > 0 && (
+                            <p className="text-xs text-[#64748B] truncate">
+                              {getItemDetails(item).join(", ")}
+                            </p>
+                          )}
                           <div className="flex items-center">
+                            {line?.discount && (
+                              <span className="mr-1 text-sm text-[#94A3B8] line-through">
+                                {formatPrice(line.subtotal)}
+                              </span>
+                            )}
                             <span className="text-[#4F46E5] text-base font-semibold">
-                              {(item.price * item.quantity).toLocaleString()}원
+                              {formatPrice(line?.total ?? 0)}
                             </span>
                             <span className="ml-1 text-xs text-[#64748B]">
-                              ({item.price.toLocaleString()}원/개)
+                              {t("common.unitPrice", {
+                                price: formatPrice(item.price),
+                              })}
                             </span>
                           </div>
+                          {line?.discount && (
+                            <p className="text-xs font-medium text-[#059669] truncate">
+                              {line.discount.name} -
+                              {formatPrice(line.discount.amount)}
+                            </p>
+                          )}
+                          {limitViolation?.type === "PRODUCT_LIMIT" && (
+                            <p className="text-xs font-medium text-[#D97706] truncate">
+                              {t("limits.perOrder", {
+                                count: limitViolation.limit,
+                              })}
+                            </p>
+                          )}
                         </motion.div>
                         <div className="flex items-center">
                           <motion.button
                             className="flex items-center justify-center w-7 h-7 bg-[#6366F1] text-[#FFFFFF] rounded-full"
                             onClick={() =>
-                              handleQuantityUpdate(item.id, item.quantity - 1)
+                              handleQuantityUpdate(item.key, item.quantity - 1)
                             }
                             whileHover={{ backgroundColor: "#4F46E5" }}
                             whileTap={{ scale: 0.9 }}
@@ -476,7 +917,7 @@ export default function ProductsScreen() {
                               maxReached ? "bg-[#CBD5E1]" : "bg-[#4F46E5]"
                             }`}
                             onClick={() =>
-                              handleQuantityUpdate(item.id, item.quantity + 1)
+                              handleQuantityUpdate(item.key, item.quantity + 1)
                             }
                             disabled={maxReached}
                             whileHover={
@@ -510,7 +951,7 @@ export default function ProductsScreen() {
           <div className="p-5 border-t border-[#F1F5F9] bg-[#FFFFFF]">
             <div className="flex justify-between mb-2.5">
               <span className="text-base font-medium text-[#64748B]">
-                총 수량
+                {t("cart.totalItems")}
               </span>
               <motion.span
                 className="text-base font-semibold text-[#1E293B]"
@@ -519,41 +960,121 @@ export default function ProductsScreen() {
                 animate={{ scale: 1 }}
                 transition={{ duration: 0.2 }}
               >
-                {getTotalItems()}개
+                {t("common.quantity", { count: getTotalItems() })}
               </motion.span>
             </div>
+            {getTotalItems() >= config.maxOrderQuantity && (
+              <p className="mb-2.5 text-sm font-medium text-[#D97706]">
+                {t("limits.orderLimitReached", {
+                  count: config.maxOrderQuantity,
+                })}
+              </p>
+            )}
+            {pricing.discountTotal > 0 && (
+              <>
+                <div className="flex justify-between mb-2.5">
+                  <span className="text-base font-medium text-[#64748B]">
+                    {t("promotions.subtotal")}
+                  </span>
+                  <span className="text-base font-semibold text-[#1E293B]">
+                    {formatPrice(pricing.subtotal)}
+                  </span>
+                </div>
+                {pricing.lineDiscount > 0 && (
+                  <div className="flex justify-between mb-2.5">
+                    <span className="text-base font-medium text-[#64748B]">
+                      {t("promotions.discount")}
+                    </span>
+                    <span className="text-base font-semibold text-[#059669]">
+                      -{formatPrice(pricing.lineDiscount)}
+                    </span>
+                  </div>
+                )}
+                {pricing.orderDiscount && (
+                  <div className="flex justify-between mb-2.5">
+                    <span className="text-base font-medium text-[#64748B] truncate">
+                      {pricing.orderDiscount.name}
+                    </span>
+                    <span className="text-base font-semibold text-[#059669]">
+                      -{formatPrice(pricing.orderDiscount.amount)}
+                    </span>
+                  </div>
+                )}
+              </>
+            )}
             <div className="flex justify-between mb-2.5">
               <span className="text-base font-medium text-[#64748B]">
-                총 금액
+                {t("cart.totalAmount")}
               </span>
               <motion.span
                 className="text-xl font-bold text-[#4F46E5]"
-                key={getTotalAmount()}
+                key={pricing.total}
                 initial={{ scale: 1.1 }}
                 animate={{ scale: 1 }}
                 transition={{ duration: 0.2 }}
               >
-                {getTotalAmount().toLocaleString()}원
+                {formatPrice(pricing.total)}
               </motion.span>
             </div>
+            {coupon ? (
+              <div className="flex items-center justify-between px-3 py-2 mt-3 bg-[#F8FAFC] rounded-lg">
+                <div className="min-w-0 mr-2">
+                  <p className="text-sm font-semibold text-[#1E293B] truncate">
+                    {coupon.name}
+                  </p>
+                  {!pricing.promotionIds.includes(coupon.id) && (
+                    <p className="text-xs text-[#64748B]">
+                      {t("promotions.couponNotApplicable")}
+                    </p>
+                  )}
+                </div>
+                <motion.button
+                  className="shrink-0 px-3 py-1.5 text-sm font-medium text-[#475569] bg-[#E2E8F0] rounded-full"
+                  onClick={removeCoupon}
+                  whileTap={{ scale: 0.95 }}
+                >
+                  {t("promotions.couponRemove")}
+                </motion.button>
+              </div>
+            ) : (
+              <motion.button
+                className="w-full py-2.5 mt-3 text-sm font-medium text-[#4F46E5] bg-[#EEF2FF] rounded-xl"
+                onClick={() => setCouponDialogOpen(true)}
+                whileTap={{ scale: 0.98 }}
+              >
+                {t("promotions.couponButton")}
+              </motion.button>
+            )}
+            {needsStaffConfirmation && (
+              <div className="px-3 py-2 mt-3 bg-[#FFFBEB] rounded-lg">
+                <p className="text-sm font-semibold text-[#B45309]">
+                  {t("limits.staffConfirmationTitle")}
+                </p>
+                <p className="text-xs text-[#92400E]">
+                  {t("limits.staffConfirmationHint")}
+                </p>
+              </div>
+            )}
             <motion.button
               className={`
                 flex items-center justify-center w-full py-4 mt-4 text-base font-semibold text-[#FFFFFF] rounded-xl
                 ${
-                  cart.length === 0 || orderMutation.isPending
+                  cart.length === 0 || orderMutation.isPending || isOffline
                     ? "bg-[#CBD5E1]"
                     : "bg-[#4F46E5]"
                 }
               `}
               onClick={handlePayment}
-              disabled={cart.length === 0 || orderMutation.isPending}
+              disabled={
+                cart.length === 0 || orderMutation.isPending || isOffline
+              }
               whileHover={
-                cart.length > 0 && !orderMutation.isPending
+                cart.length > 0 && !orderMutation.isPending && !isOffline
                   ? { backgroundColor: "#4338CA" }
                   : {}
               }
               whileTap={
-                cart.length > 0 && !orderMutation.isPending
+                cart.length > 0 && !orderMutation.isPending && !isOffline
                   ? { scale: 0.98 }
                   : {}
               }
@@ -575,7 +1096,7 @@ export default function ProductsScreen() {
                       d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z"
                     />
                   </svg>
-                  결제하기
+                  {t("cart.checkout")}
                 </>
               )}
             </motion.button>
@@ -583,6 +1104,60 @@ export default function ProductsScreen() {
         </motion.div>
       </div>
 
+      <AnimatePresence>
+        {optionProduct && (
+          <ProductOptionModal
+            key={optionProduct.id}
+            product={optionProduct}
+            catalog={products}
+            onConfirm={handleOptionConfirm}
+            onClose={() => setOptionProduct(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {couponDialogOpen && (
+          <CouponDialog
+            key="coupon"
+            onApplied={() => {
+              setCouponDialogOpen(false);
+              showAlert(t("promotions.couponApplied"));
+            }}
+            onClose={() => setCouponDialogOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {staffStage === "pin" && (
+          <StaffPinDialog
+            key="staff-pin"
+            onVerified={() => setStaffStage("panel")}
+            onClose={() => setStaffStage("closed")}
+          />
+        )}
+        {staffStage === "confirm" && (
+          <StaffPinDialog
+            key="staff-confirm"
+            description={t("limits.staffConfirmationTitle")}
+            onVerified={() => {
+              setStaffStage("closed");
+              submitOrder(true);
+            }}
+            onClose={() => setStaffStage("closed")}
+          />
+        )}
+        {staffStage === "panel" && (
+          <StaffPanel
+            key="staff-panel"
+            products={catalogProducts}
+            stockStatus={stockStatus}
+            onClose={() => setStaffStage("closed")}
+          />
+        )}
+      </AnimatePresence>
+
       <AnimatePresence>
         {alertVisible && (
           <motion.div
@@ -1,19 +1,16 @@
 import React, { useCallback, useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { motion } from "framer-motion";
-import { API_URL } from "@/constants/api";
-import axios from "axios";
 import { useAuthStore } from "@/stores/auth";
+import { registerKiosk } from "@/libs/endpoints";
 import { useMutation } from "@tanstack/react-query";
 import jsQR from "jsqr";
-
-interface QRRegistrationResponse {
-  accessToken: string;
-}
+import useTranslation from "@/hooks/use-translation";
 
 export default function QrScannerPage(): React.ReactElement {
   const { signIn } = useAuthStore();
   const navigate = useNavigate();
+  const { t } = useTranslation();
   const [permission, setPermission] = useState<
     "granted" | "denied" | "pending"
   >("pending");
@@ -29,24 +26,16 @@ export default function QrScannerPage(): React.ReactElement {
   const resetTimerRef = useRef<number | null>(null);
 
   const registerMutation = useMutation({
-    mutationFn: async (token: string) => {
-      const response = await axios.post<QRRegistrationResponse>(
-        `${API_URL}/kiosks/register`,
-        { registrationToken: token },
-        { timeout: 10000 }
-      );
-      return response.data;
-    },
-    onSuccess: async (data) => {
+    mutationFn: (token: string) => registerKiosk(token),
+    onSuccess: async (data, registrationToken) => {
       if (!isMounted.current) return;
 
-      if (data?.accessToken) {
-        await signIn(data.accessToken);
-        if (isMounted.current) {
-          navigate("/products");
-        }
-      } else {
-        resetScanState();
+      await signIn(data.accessToken, {
+        refreshToken: data.refreshToken ?? undefined,
+        registrationToken,
+      });
+      if (isMounted.current) {
+        navigate("/products");
       }
     },
     onError: (error) => {
@@ -89,7 +78,6 @@ export default function QrScannerPage(): React.ReactElement {
         videoRef.current.play();
         setIsStreaming(true);
         setPermission("granted");
-        scanQRCode();
       }
     } catch (error) {
       console.error("Error accessing camera:", error);
@@ -185,10 +173,19 @@ export default function QrScannerPage(): React.ReactElement {
     animationFrameRef.current = requestAnimationFrame(scanQRCode);
   }, [isStreaming, registerMutation, resetScanState, scanActive]);
 
+  // Scanning starts once the stream is live; scanQRCode itself waits for the
+  // first frame. A new scanQRCode replaces the running loop rather than
+  // starting a second one.
   useEffect(() => {
-    if (isStreaming && videoRef.current && videoRef.current.readyState >= 2) {
-      scanQRCode();
-    }
+    if (!isStreaming) return;
+
+    scanQRCode();
+    return () => {
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+        animationFrameRef.current = null;
+      }
+    };
   }, [isStreaming, scanQRCode]);
 
   const goBack = useCallback(() => {
@@ -208,7 +205,7 @@ export default function QrScannerPage(): React.ReactElement {
             transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
           />
           <p className="mt-4 text-base font-medium text-[#475569]">
-            카메라 권한을 확인하는 중입니다
+            {t("qrScanner.checkingPermission")}
           </p>
         </div>
       </div>
@@ -226,7 +223,7 @@ export default function QrScannerPage(): React.ReactElement {
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.3 }}
           >
-            카메라 권한이 필요합니다
+            {t("qrScanner.permissionRequired")}
           </motion.h2>
           <motion.p
             className="text-base font-medium text-[#475569] text-center mb-8"
@@ -234,7 +231,7 @@ export default function QrScannerPage(): React.ReactElement {
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.3, delay: 0.1 }}
           >
-            QR 코드를 스캔하려면 카메라 접근 권한이 필요합니다
+            {t("qrScanner.permissionDescription")}
           </motion.p>
           <motion.button
             className="bg-[#6366F1] text-[#FFFFFF] py-3.5 px-5 rounded-lg min-w-52 text-base font-semibold"
@@ -245,7 +242,7 @@ export default function QrScannerPage(): React.ReactElement {
             whileHover={{ backgroundColor: "#4F46E5" }}
             whileTap={{ scale: 0.95 }}
           >
-            다시 시도
+            {t("common.retry")}
           </motion.button>
         </div>
       </div>
@@ -300,7 +297,7 @@ export default function QrScannerPage(): React.ReactElement {
               animate={{ opacity: 1, y: 0 }}
               transition={{ duration: 0.3, delay: 0.2 }}
             >
-              QR 코드를 프레임 안에 위치시켜주세요
+              {t("qrScanner.alignCode")}
             </motion.p>
 
             {registerMutation.isPending && (
@@ -320,7 +317,7 @@ export default function QrScannerPage(): React.ReactElement {
                   }}
                 />
                 <p className="mt-3 text-base font-medium text-[#FFFFFF]">
-                  처리 중...
+                  {t("qrScanner.processing")}
                 </p>
               </motion.div>
             )}
@@ -336,6 +333,8 @@ interface HeaderProps {
 }
 
 function Header({ onBack }: HeaderProps): React.ReactElement {
+  const { t } = useTranslation();
+
   return (
     <div className="flex items-center justify-between px-4 py-3 h-14">
       <motion.button
@@ -358,7 +357,9 @@ function Header({ onBack }: HeaderProps): React.ReactElement {
           />
         </svg>
       </motion.button>
-      <h1 className="text-lg font-semibold text-[#1E293B]">QR 코드 스캔</h1>
+      <h1 className="text-lg font-semibold text-[#1E293B]">
+        {t("qrScanner.title")}
+      </h1>
       <div className="w-10"></div>
     </div>
   );
@@ -373,6 +374,8 @@ function HeaderLight({
   onBack,
   disabled = false,
 }: HeaderLightProps): React.ReactElement {
+  const { t } = useTranslation();
+
   return (
     <div className="flex items-center justify-between px-4 py-3 h-14 z-10">
       <motion.button
@@ -398,7 +401,9 @@ function HeaderLight({
           />
         </svg>
       </motion.button>
-      <h1 className="text-lg font-semibold text-[#FFFFFF]">QR 코드 스캔</h1>
+      <h1 className="text-lg font-semibold text-[#FFFFFF]">
+        {t("qrScanner.title")}
+      </h1>
       <div className="w-10"></div>
     </div>
   );
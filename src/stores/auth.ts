@@ -1,21 +1,157 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
+import {
+  DEFAULT_BOOTH_ID,
+  getActiveBoothId,
+  getBoothScopedKey,
+  setActiveBoothId,
+} from "../libs/booth-scope";
+import { toApiError } from "../libs/api";
+import { refreshKioskToken, registerKiosk } from "../libs/endpoints";
+import { getTokenExpiry, getTokenSubject } from "../libs/jwt";
+import { useCartStore } from "./cart";
+import { useConfigStore } from "./config";
+import { usePaymentStore } from "./payment";
+import { useSoldOutStore } from "./sold-out";
+
+export interface BoothProfile {
+  id: string;
+  name: string;
+  subject: string | null;
+  token: string;
+  refreshToken: string | null;
+  registrationToken: string | null;
+}
 
 interface AuthState {
+  profiles: BoothProfile[];
+  activeProfileId: string | null;
   token: string | null;
+  refreshToken: string | null;
+  registrationToken: string | null;
+  expiresAt: number | null;
   authenticated: boolean;
+  disconnected: boolean;
   initialized: boolean;
   loading: boolean;
   error: string | null;
 }
 
+interface SignInOptions {
+  profileName?: string;
+  refreshToken?: string | null;
+  registrationToken?: string | null;
+}
+
+/**
+ * Outcome of a token refresh. REJECTED means the server refused the
+ * credentials; UNAVAILABLE means it could not be reached and a retry may
+ * still succeed.
+ */
+export type RefreshResult = "REFRESHED" | "REJECTED" | "UNAVAILABLE";
+
 interface AuthActions {
   init: () => Promise<void>;
-  signIn: (token: string) => Promise<void>;
+  signIn: (token: string, options?: SignInOptions) => Promise<void>;
   signOut: () => Promise<void>;
+  switchProfile: (profileId: string) => Promise<boolean>;
+  detach: () => void;
+  removeProfile: (profileId: string) => void;
+  refresh: () => Promise<RefreshResult>;
+  disconnect: () => void;
   resetError: () => void;
 }
 
+const REFRESH_LEAD_TIME = 60 * 1000;
+const REFRESH_RETRY_DELAY = 30 * 1000;
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+let refreshTimer: number | null = null;
+let refreshPromise: Promise<RefreshResult> | null = null;
+
+const clearRefreshTimer = () => {
+  if (refreshTimer !== null) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+};
+
+const scheduleRefresh = (delay: number) => {
+  clearRefreshTimer();
+  refreshTimer = window.setTimeout(
+    () => {
+      refreshTimer = null;
+      useAuthStore.getState().refresh();
+    },
+    Math.min(Math.max(0, delay), MAX_TIMER_DELAY)
+  );
+};
+
+const scheduleRefreshBeforeExpiry = (expiresAt: number | null) => {
+  if (expiresAt === null) {
+    clearRefreshTimer();
+    return;
+  }
+  scheduleRefresh(expiresAt - Date.now() - REFRESH_LEAD_TIME);
+};
+
+const createProfileId = () =>
+  `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const getBoothStores = () => [
+  {
+    store: useCartStore,
+    reset: () => useCartStore.getState().clearCart(),
+  },
+  {
+    store: usePaymentStore,
+    reset: () => usePaymentStore.getState().resetPayment(),
+  },
+  {
+    store: useSoldOutStore,
+    reset: () => useSoldOutStore.getState().resetSoldOut(),
+  },
+];
+
+const hasStoredValue = (key: string) => {
+  try {
+    return localStorage.getItem(key) !== null;
+  } catch {
+    return false;
+  }
+};
+
+const rebindBoothStores = async (boothId: string) => {
+  if (getActiveBoothId() === boothId) return;
+
+  setActiveBoothId(boothId);
+  await Promise.all(
+    getBoothStores().map(async ({ store, reset }) => {
+      if (hasStoredValue(getBoothScopedKey(store.persist.getOptions().name!))) {
+        await store.persist.rehydrate();
+      } else {
+        reset();
+      }
+    })
+  );
+};
+
+const resetBoothStores = () => {
+  getBoothStores().forEach(({ reset }) => reset());
+};
+
+const clearBoothStorage = (boothId: string) => {
+  getBoothStores().forEach(({ store }) => {
+    try {
+      localStorage.removeItem(
+        getBoothScopedKey(store.persist.getOptions().name!, boothId)
+      );
+    } catch (error) {
+      console.error("Storage error:", error);
+    }
+  });
+};
+
 const webStorage = {
   getItem: async (name: string): Promise<string | null> => {
     try {
@@ -40,71 +176,273 @@ const webStorage = {
   },
 };
 
+const signedOutState = {
+  activeProfileId: null,
+  token: null,
+  refreshToken: null,
+  registrationToken: null,
+  expiresAt: null,
+  authenticated: false,
+  disconnected: false,
+};
+
 export const useAuthStore = create<AuthState & AuthActions>()(
   persist(
-    (set, get) => ({
-      token: null,
-      authenticated: false,
-      initialized: false,
-      loading: false,
-      error: null,
-
-      init: async () => {
-        try {
-          set({ loading: true, error: null });
-
-          const state = get();
-          if (state.token) {
-            set({ authenticated: true });
-          }
+    (set, get) => {
+      const activateProfile = async (profile: BoothProfile) => {
+        const expiresAt = getTokenExpiry(profile.token);
+        set({
+          activeProfileId: profile.id,
+          token: profile.token,
+          refreshToken: profile.refreshToken,
+          registrationToken: profile.registrationToken,
+          expiresAt,
+          authenticated: true,
+          disconnected: false,
+        });
+        await rebindBoothStores(profile.id);
 
-          set({ initialized: true, loading: false });
-        } catch (error) {
-          set({
-            initialized: true,
-            loading: false,
-            error: error instanceof Error ? error.message : "초기화 오류",
-          });
+        if (expiresAt !== null && expiresAt - Date.now() <= REFRESH_LEAD_TIME) {
+          const result = await get().refresh();
+          if (result === "REJECTED" && expiresAt <= Date.now()) {
+            get().disconnect();
+          }
+        } else {
+          scheduleRefreshBeforeExpiry(expiresAt);
         }
-      },
+      };
 
-      signIn: async (token) => {
-        try {
-          set({ loading: true, error: null });
-          set({ token, authenticated: true, loading: false });
-        } catch (error) {
-          set({
-            loading: false,
-            error: error instanceof Error ? error.message : "로그인 오류",
-          });
-          throw error;
-        }
-      },
+      return {
+        profiles: [],
+        ...signedOutState,
+        initialized: false,
+        loading: false,
+        error: null,
 
-      signOut: async () => {
-        try {
-          set({ loading: true, error: null });
-          set({ token: null, authenticated: false, loading: false });
-        } catch (error) {
-          set({
-            loading: false,
-            error: error instanceof Error ? error.message : "로그아웃 오류",
-          });
-          throw error;
-        }
-      },
+        init: async () => {
+          try {
+            set({ loading: true, error: null });
+            await useConfigStore.getState().load();
+
+            const { profiles, activeProfileId } = get();
+            const profile = profiles.find((p) => p.id === activeProfileId);
+            if (profile) {
+              await activateProfile(profile);
+            } else {
+              set({ ...signedOutState });
+            }
+
+            set({ initialized: true, loading: false });
+          } catch (error) {
+            set({
+              initialized: true,
+              loading: false,
+              error: error instanceof Error ? error.message : "초기화 오류",
+            });
+          }
+        },
+
+        signIn: async (token, options) => {
+          try {
+            set({ loading: true, error: null });
+
+            const { profiles } = get();
+            const subject = getTokenSubject(token);
+            const existing = profiles.find(
+              (p) =>
+                (subject !== null && p.subject === subject) ||
+                (!!options?.profileName && p.name === options.profileName)
+            );
+            const id =
+              existing?.id ??
+              (profiles.some((p) => p.id === DEFAULT_BOOTH_ID)
+                ? createProfileId()
+                : DEFAULT_BOOTH_ID);
+
+            const profile: BoothProfile = {
+              id,
+              name:
+                options?.profileName ??
+                existing?.name ??
+                `부스 ${profiles.length + 1}`,
+              subject,
+              token,
+              refreshToken: options?.refreshToken ?? null,
+              registrationToken: options?.registrationToken ?? null,
+            };
+
+            set({
+              profiles: existing
+                ? profiles.map((p) => (p.id === id ? profile : p))
+                : [...profiles, profile],
+            });
+            await activateProfile(profile);
+            set({ loading: false });
+          } catch (error) {
+            set({
+              loading: false,
+              error: error instanceof Error ? error.message : "로그인 오류",
+            });
+            throw error;
+          }
+        },
+
+        signOut: async () => {
+          try {
+            set({ loading: true, error: null });
+            clearRefreshTimer();
+
+            const { profiles, activeProfileId } = get();
+            set({
+              profiles: profiles.filter((p) => p.id !== activeProfileId),
+              ...signedOutState,
+              loading: false,
+            });
+
+            // The active booth id outlives the sign-out, so the stores still
+            // hold this booth's state in memory; a later sign-in landing on
+            // the same id would otherwise skip the rebind and inherit it.
+            resetBoothStores();
+            if (activeProfileId) {
+              clearBoothStorage(activeProfileId);
+            }
+          } catch (error) {
+            set({
+              loading: false,
+              error: error instanceof Error ? error.message : "로그아웃 오류",
+            });
+            throw error;
+          }
+        },
+
+        switchProfile: async (profileId) => {
+          const { profiles, activeProfileId } = get();
+          if (profileId === activeProfileId) return true;
+
+          const profile = profiles.find((p) => p.id === profileId);
+          if (!profile) return false;
 
-      resetError: () => set({ error: null }),
-    }),
+          clearRefreshTimer();
+          await activateProfile(profile);
+          return true;
+        },
+
+        detach: () => {
+          clearRefreshTimer();
+          set({ ...signedOutState });
+        },
+
+        removeProfile: (profileId) => {
+          const { profiles, activeProfileId } = get();
+          if (profileId === activeProfileId) return;
+
+          set({ profiles: profiles.filter((p) => p.id !== profileId) });
+          clearBoothStorage(profileId);
+        },
+
+        refresh: async () => {
+          if (refreshPromise) return refreshPromise;
+
+          const { activeProfileId, refreshToken, registrationToken } = get();
+          if (!activeProfileId || (!refreshToken && !registrationToken)) {
+            return "REJECTED";
+          }
+
+          refreshPromise = (async () => {
+            try {
+              const { accessToken, refreshToken: issuedRefreshToken } =
+                refreshToken
+                  ? await refreshKioskToken(refreshToken)
+                  : await registerKiosk(registrationToken ?? "");
+
+              if (get().activeProfileId !== activeProfileId) {
+                return "UNAVAILABLE";
+              }
+
+              const nextRefreshToken = issuedRefreshToken ?? refreshToken;
+              const expiresAt = getTokenExpiry(accessToken);
+              set((state) => ({
+                profiles: state.profiles.map((p) =>
+                  p.id === activeProfileId
+                    ? {
+                        ...p,
+                        token: accessToken,
+                        refreshToken: nextRefreshToken,
+                      }
+                    : p
+                ),
+                token: accessToken,
+                refreshToken: nextRefreshToken,
+                expiresAt,
+                disconnected: false,
+              }));
+              scheduleRefreshBeforeExpiry(expiresAt);
+              return "REFRESHED";
+            } catch (error) {
+              console.error("Token refresh error:", error);
+
+              const { status } = toApiError(error);
+              if (status !== null && status >= 400 && status < 500) {
+                return "REJECTED";
+              }
+              scheduleRefresh(REFRESH_RETRY_DELAY);
+              return "UNAVAILABLE";
+            } finally {
+              refreshPromise = null;
+            }
+          })();
+
+          return refreshPromise;
+        },
+
+        disconnect: () => {
+          clearRefreshTimer();
+          set({ disconnected: true });
+        },
+
+        resetError: () => set({ error: null }),
+      };
+    },
     {
       name: "kiosk-auth",
+      version: 1,
       storage: createJSONStorage(() => webStorage),
       onRehydrateStorage: () => (state) => {
         if (state) {
           state.init();
         }
       },
-      partialize: (state) => ({ token: state.token }),
+      partialize: (state) => ({
+        profiles: state.profiles,
+        activeProfileId: state.activeProfileId,
+      }),
+      migrate: (persistedState, version) => {
+        const state = persistedState as Record<string, unknown>;
+
+        if (version === 0 && state) {
+          const token = typeof state.token === "string" ? state.token : null;
+          const profiles: BoothProfile[] = token
+            ? [
+                {
+                  id: DEFAULT_BOOTH_ID,
+                  name: "부스 1",
+                  subject: getTokenSubject(token),
+                  token,
+                  refreshToken: (state.refreshToken as string) ?? null,
+                  registrationToken:
+                    (state.registrationToken as string) ?? null,
+                },
+              ]
+            : [];
+
+          return {
+            profiles,
+            activeProfileId: token ? DEFAULT_BOOTH_ID : null,
+          };
+        }
+
+        return state;
+      },
     }
   )
 );
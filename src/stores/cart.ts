@@ -1,18 +1,36 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
+import {
+  addToCart,
+  clampProductQuantity,
+  getCartItemCount,
+  getCartItemKey,
+  getCartTotal,
+  getProductQuantity,
+  setCartItemQuantity,
+  type CartItem,
+  type CartProduct,
+} from "@/domain/cart";
+import { getBoothScopedKey } from "@/libs/booth-scope";
+import type { SelectedComponent, SelectedOption } from "@/types/product";
+import type { PromotionResponse } from "@/types/promotion";
 
-interface CartItem {
-  id: number;
-  name: string;
-  price: number;
-  quantity: number;
-}
+export type { CartItem };
 
 interface CartState {
   items: CartItem[];
-  addItem: (product: { id: number; name: string; price: number }) => void;
-  updateQuantity: (id: number, quantity: number) => void;
+  coupon: PromotionResponse | null;
+  addItem: (
+    product: CartProduct,
+    options?: SelectedOption[],
+    components?: SelectedComponent[]
+  ) => void;
+  updateQuantity: (key: string, quantity: number) => void;
+  clampProductQuantity: (id: number, max: number) => boolean;
   clearCart: () => void;
+  applyCoupon: (coupon: PromotionResponse) => void;
+  removeCoupon: () => void;
+  getProductQuantity: (id: number) => number;
   getTotalAmount: () => number;
   getTotalItems: () => number;
 }
@@ -20,21 +38,21 @@ interface CartState {
 const webStorage = {
   getItem: async (name: string): Promise<string | null> => {
     try {
-      return localStorage.getItem(name);
+      return localStorage.getItem(getBoothScopedKey(name));
     } catch {
       return null;
     }
   },
   setItem: async (name: string, value: string): Promise<void> => {
     try {
-      localStorage.setItem(name, value);
+      localStorage.setItem(getBoothScopedKey(name), value);
     } catch (error) {
       console.error("Storage error:", error);
     }
   },
   removeItem: async (name: string): Promise<void> => {
     try {
-      localStorage.removeItem(name);
+      localStorage.removeItem(getBoothScopedKey(name));
     } catch (error) {
       console.error("Storage error:", error);
     }
@@ -45,73 +63,85 @@ export const useCartStore = create<CartState>()(
   persist(
     (set, get) => ({
       items: [],
+      coupon: null,
+
+      addItem: (product, options = [], components = []) => {
+        set((state) => ({
+          items: addToCart(state.items, product, options, components),
+        }));
+      },
 
-      addItem: (product) => {
-        set((state) => {
-          const productId = product.id;
-          const existingItem = state.items.find(
-            (item) => item.id === productId
-          );
-
-          if (existingItem) {
-            return {
-              items: state.items.map((item) =>
-                item.id === productId
-                  ? { ...item, quantity: item.quantity + 1 }
-                  : item
-              ),
-            };
-          } else {
-            return {
-              items: [
-                ...state.items,
-                {
-                  id: productId,
-                  name: product.name,
-                  price: product.price,
-                  quantity: 1,
-                },
-              ],
-            };
-          }
-        });
+      updateQuantity: (key, quantity) => {
+        set((state) => ({
+          items: setCartItemQuantity(state.items, key, quantity),
+        }));
       },
 
-      updateQuantity: (id, quantity) => {
-        set((state) => {
-          if (quantity <= 0) {
-            return {
-              items: state.items.filter((item) => item.id !== id),
-            };
-          } else {
-            return {
-              items: state.items.map((item) =>
-                item.id === id ? { ...item, quantity } : item
-              ),
-            };
-          }
-        });
+      clampProductQuantity: (id, max) => {
+        const { items, changed } = clampProductQuantity(get().items, id, max);
+
+        if (changed) {
+          set({ items });
+        }
+        return changed;
       },
 
       clearCart: () => {
-        set({ items: [] });
+        set({ items: [], coupon: null });
+      },
+
+      applyCoupon: (coupon) => {
+        set({ coupon });
+      },
+
+      removeCoupon: () => {
+        set({ coupon: null });
+      },
+
+      getProductQuantity: (id) => {
+        return getProductQuantity(get().items, id);
       },
 
       getTotalAmount: () => {
-        return get().items.reduce(
-          (total, item) => total + item.price * item.quantity,
-          0
-        );
+        return getCartTotal(get().items);
       },
 
       getTotalItems: () => {
-        return get().items.reduce((total, item) => total + item.quantity, 0);
+        return getCartItemCount(get().items);
       },
     }),
     {
       name: "kiosk-cart",
+      version: 2,
       storage: createJSONStorage(() => webStorage),
-      partialize: (state) => ({ items: state.items }),
+      partialize: (state) => ({ items: state.items, coupon: state.coupon }),
+      migrate: (persistedState, version) => {
+        const state = persistedState as { items?: CartItem[] };
+
+        if (version === 0 && state?.items) {
+          return {
+            items: state.items.map((item) => ({
+              ...item,
+              key: getCartItemKey(item.id),
+              basePrice: item.price,
+              options: [],
+            })),
+          };
+        }
+
+        // Option keys gained their group ids.
+        if (version === 1 && state?.items) {
+          return {
+            ...state,
+            items: state.items.map((item) => ({
+              ...item,
+              key: getCartItemKey(item.id, item.options, item.components),
+            })),
+          };
+        }
+
+        return state as { items: CartItem[] };
+      },
     }
   )
 );
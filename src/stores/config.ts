@@ -0,0 +1,180 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import { z } from "zod";
+import {
+  BUILD_CONFIG,
+  type KioskConfig,
+  type KioskFeatures,
+} from "../constants/config";
+
+export type KioskConfigOverrides = Partial<Omit<KioskConfig, "features">> & {
+  features?: Partial<KioskFeatures>;
+};
+
+interface ConfigState {
+  defaults: KioskConfig;
+  overrides: KioskConfigOverrides;
+  config: KioskConfig;
+  loaded: boolean;
+
+  load: () => Promise<void>;
+  setOverrides: (overrides: KioskConfigOverrides) => boolean;
+  resetOverrides: () => void;
+}
+
+const REMOTE_CONFIG_PATH = "/config.json";
+const REMOTE_CONFIG_TIMEOUT = 5000;
+
+export const configOverridesSchema = z.object({
+  apiUrl: z.string().url().optional(),
+  wsUrl: z.string().url().nullable().optional(),
+  paymentTimeout: z.number().int().positive().optional(),
+  idleTimeout: z.number().int().positive().optional(),
+  maxOrderQuantity: z.number().int().positive().optional(),
+  demoMode: z.boolean().optional(),
+  features: z
+    .object({
+      qrPayment: z.boolean(),
+      studentIdPayment: z.boolean(),
+      attractScreen: z.boolean(),
+      languagePicker: z.boolean(),
+    })
+    .partial()
+    .optional(),
+});
+
+const withoutUndefined = <T extends object>(value: T): Partial<T> =>
+  Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined)
+  ) as Partial<T>;
+
+const resolveConfig = (
+  base: KioskConfig,
+  { features, ...layer }: KioskConfigOverrides
+): KioskConfig => {
+  const config = {
+    ...base,
+    ...withoutUndefined(layer),
+    features: { ...base.features, ...withoutUndefined(features ?? {}) },
+  };
+
+  const { qrPayment, studentIdPayment } = config.features;
+  return qrPayment || studentIdPayment
+    ? config
+    : { ...config, features: { ...config.features, qrPayment: true } };
+};
+
+const webStorage = {
+  getItem: async (name: string): Promise<string | null> => {
+    try {
+      return localStorage.getItem(name);
+    } catch (error) {
+      console.error("localStorage getItem error:", error);
+      return null;
+    }
+  },
+  setItem: async (name: string, value: string): Promise<void> => {
+    try {
+      localStorage.setItem(name, value);
+    } catch (error) {
+      console.error("localStorage setItem error:", error);
+    }
+  },
+  removeItem: async (name: string): Promise<void> => {
+    try {
+      localStorage.removeItem(name);
+    } catch (error) {
+      console.error("localStorage removeItem error:", error);
+    }
+  },
+};
+
+const fetchRemoteConfig = async (): Promise<KioskConfigOverrides> => {
+  const controller = new AbortController();
+  const timeout = window.setTimeout(
+    () => controller.abort(),
+    REMOTE_CONFIG_TIMEOUT
+  );
+
+  try {
+    const response = await fetch(REMOTE_CONFIG_PATH, {
+      cache: "no-store",
+      signal: controller.signal,
+    });
+    if (!response.ok) return {};
+
+    const result = configOverridesSchema.safeParse(await response.json());
+    if (!result.success) {
+      console.warn("Remote config schema mismatch:", result.error.issues);
+      return {};
+    }
+    return result.data;
+  } catch (error) {
+    console.warn("Remote config load error:", error);
+    return {};
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+let loadPromise: Promise<void> | null = null;
+
+export const useConfigStore = create<ConfigState>()(
+  persist(
+    (set, get) => ({
+      defaults: BUILD_CONFIG,
+      overrides: {},
+      config: BUILD_CONFIG,
+      loaded: false,
+
+      load: () => {
+        if (!loadPromise) {
+          loadPromise = fetchRemoteConfig().then((remoteConfig) => {
+            const defaults = resolveConfig(BUILD_CONFIG, remoteConfig);
+            set({
+              defaults,
+              config: resolveConfig(defaults, get().overrides),
+              loaded: true,
+            });
+          });
+        }
+        return loadPromise;
+      },
+
+      setOverrides: (overrides) => {
+        const result = configOverridesSchema.safeParse(overrides);
+        if (!result.success) return false;
+
+        set({
+          overrides: result.data,
+          config: resolveConfig(get().defaults, result.data),
+        });
+        return true;
+      },
+
+      resetOverrides: () => {
+        set({ overrides: {}, config: get().defaults });
+      },
+    }),
+    {
+      name: "kiosk-config",
+      storage: createJSONStorage(() => webStorage),
+      partialize: (state) => ({ overrides: state.overrides }),
+      merge: (persistedState, currentState) => {
+        const result = configOverridesSchema.safeParse(
+          (persistedState as Partial<ConfigState> | undefined)?.overrides
+        );
+        const overrides = result.success ? result.data : {};
+
+        return {
+          ...currentState,
+          overrides,
+          config: resolveConfig(currentState.defaults, overrides),
+        };
+      },
+    }
+  )
+);
+
+export const getRuntimeConfig = (): KioskConfig =>
+  useConfigStore.getState().config;
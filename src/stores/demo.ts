@@ -0,0 +1,61 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+
+export type DemoPaymentOutcome = "COMPLETED" | "FAILED" | "EXPIRED" | "MANUAL";
+
+interface DemoState {
+  paymentOutcome: DemoPaymentOutcome;
+  paymentDelay: number;
+
+  setPaymentOutcome: (outcome: DemoPaymentOutcome) => void;
+  setPaymentDelay: (seconds: number) => void;
+}
+
+const DEFAULT_PAYMENT_DELAY = 5;
+
+const webStorage = {
+  getItem: async (name: string): Promise<string | null> => {
+    try {
+      return localStorage.getItem(name);
+    } catch (error) {
+      console.error("localStorage getItem error:", error);
+      return null;
+    }
+  },
+  setItem: async (name: string, value: string): Promise<void> => {
+    try {
+      localStorage.setItem(name, value);
+    } catch (error) {
+      console.error("localStorage setItem error:", error);
+    }
+  },
+  removeItem: async (name: string): Promise<void> => {
+    try {
+      localStorage.removeItem(name);
+    } catch (error) {
+      console.error("localStorage removeItem error:", error);
+    }
+  },
+};
+
+export const useDemoStore = create<DemoState>()(
+  persist(
+    (set) => ({
+      paymentOutcome: "COMPLETED",
+      paymentDelay: DEFAULT_PAYMENT_DELAY,
+
+      setPaymentOutcome: (paymentOutcome) => set({ paymentOutcome }),
+
+      setPaymentDelay: (seconds) =>
+        set({ paymentDelay: Math.max(0, Math.round(seconds)) }),
+    }),
+    {
+      name: "kiosk-demo",
+      storage: createJSONStorage(() => webStorage),
+      partialize: (state) => ({
+        paymentOutcome: state.paymentOutcome,
+        paymentDelay: state.paymentDelay,
+      }),
+    }
+  )
+);
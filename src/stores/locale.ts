@@ -0,0 +1,20 @@
+import { create } from "zustand";
+import { DEFAULT_LOCALE, type Locale } from "@/libs/i18n";
+
+interface LocaleState {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  resetLocale: () => void;
+}
+
+export const useLocaleStore = create<LocaleState>()((set) => ({
+  locale: DEFAULT_LOCALE,
+  setLocale: (locale) => {
+    document.documentElement.lang = locale;
+    set({ locale });
+  },
+  resetLocale: () => {
+    document.documentElement.lang = DEFAULT_LOCALE;
+    set({ locale: DEFAULT_LOCALE });
+  },
+}));
@@ -1,40 +1,53 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
-
-type PaymentRequestStatus = "PENDING" | "COMPLETED" | "FAILED" | "EXPIRED";
-type PaymentRequestMethod = "QR_CODE" | "STUDENT_ID";
+import { BUILD_CONFIG } from "@/constants/config";
+import { clampToDeadline, tickTimer } from "@/domain/timer";
+import { getBoothScopedKey } from "@/libs/booth-scope";
+import {
+  getNextPhase,
+  isPaymentInProgress,
+  type PaymentEvent,
+  type PaymentPhase,
+  type PaymentRequestMethod,
+} from "@/libs/payment-machine";
+import { getRuntimeConfig } from "@/stores/config";
 
 interface PaymentState {
+  phase: PaymentPhase;
   orderId: number | null;
   requestId: number | null;
   requestCode: string | null;
   requestMethod: PaymentRequestMethod | null;
   expiresAt: string | null;
   timer: number;
-  isActive: boolean;
-  status: PaymentRequestStatus | null;
-
-  createPayment: (orderId: number) => void;
-  setPaymentRequest: (
-    requestId: number,
-    requestCode: string,
-    status: PaymentRequestStatus,
-    requestMethod: PaymentRequestMethod,
-    expiresAt: string
-  ) => void;
-  setStatus: (status: PaymentRequestStatus) => void;
+
+  dispatch: (event: PaymentEvent) => boolean;
   decrementTimer: () => void;
+  syncTimer: () => void;
   resetPayment: () => void;
-  resetPaymentRequest: () => void;
-  cancelPayment: () => void;
 }
 
-const DEFAULT_TIMER = 900;
+const initialPaymentState = {
+  phase: "idle" as PaymentPhase,
+  orderId: null,
+  requestId: null,
+  requestCode: null,
+  requestMethod: null,
+  expiresAt: null,
+  timer: BUILD_CONFIG.paymentTimeout,
+};
+
+const emptyRequest = {
+  requestId: null,
+  requestCode: null,
+  requestMethod: null,
+  expiresAt: null,
+};
 
 const webStorage = {
   getItem: async (name: string): Promise<string | null> => {
     try {
-      return localStorage.getItem(name);
+      return localStorage.getItem(getBoothScopedKey(name));
     } catch (error) {
       console.error("localStorage getItem error:", error);
       return null;
@@ -42,14 +55,14 @@ const webStorage = {
   },
   setItem: async (name: string, value: string): Promise<void> => {
     try {
-      localStorage.setItem(name, value);
+      localStorage.setItem(getBoothScopedKey(name), value);
     } catch (error) {
       console.error("localStorage setItem error:", error);
     }
   },
   removeItem: async (name: string): Promise<void> => {
     try {
-      localStorage.removeItem(name);
+      localStorage.removeItem(getBoothScopedKey(name));
     } catch (error) {
       console.error("localStorage removeItem error:", error);
     }
@@ -59,132 +72,106 @@ const webStorage = {
 export const usePaymentStore = create<PaymentState>()(
   persist(
     (set, get) => ({
-      orderId: null,
-      requestId: null,
-      requestCode: null,
-      requestMethod: null,
-      expiresAt: null,
-      timer: DEFAULT_TIMER,
-      isActive: false,
-      status: null,
-
-      createPayment: (orderId) => {
-        set({
-          orderId,
-          timer: DEFAULT_TIMER,
-          isActive: true,
-          status: "PENDING",
-          requestId: null,
-          requestCode: null,
-          requestMethod: null,
-          expiresAt: null,
-        });
-      },
+      ...initialPaymentState,
 
-      setPaymentRequest: (
-        requestId,
-        requestCode,
-        status,
-        requestMethod,
-        expiresAt
-      ) => {
-        const { timer } = get();
-        let updatedTimer = timer;
-
-        if (expiresAt) {
-          const expiryTime = new Date(expiresAt).getTime();
-          const currentTime = new Date().getTime();
-          const timeLeftInSeconds = Math.max(
-            0,
-            Math.floor((expiryTime - currentTime) / 1000)
-          );
+      dispatch: (event) => {
+        const { phase, timer } = get();
+        const nextPhase = getNextPhase(phase, event.type);
 
-          if (timeLeftInSeconds < timer) {
-            updatedTimer = timeLeftInSeconds;
-          }
+        if (!nextPhase) {
+          console.warn(
+            `Illegal payment transition: ${phase} -(${event.type})-> ?`
+          );
+          return false;
         }
 
-        set({
-          requestId,
-          requestCode,
-          status,
-          requestMethod,
-          expiresAt,
-          isActive: status === "PENDING",
-          timer: updatedTimer,
-        });
-      },
+        switch (event.type) {
+          case "ORDER_CREATED":
+            set({
+              ...initialPaymentState,
+              phase: nextPhase,
+              orderId: event.orderId,
+              timer: getRuntimeConfig().paymentTimeout,
+            });
+            break;
+
+          case "REQUEST_CREATED":
+            set({
+              phase: nextPhase,
+              requestId: event.requestId,
+              requestCode: event.requestCode,
+              requestMethod: event.requestMethod,
+              expiresAt: event.expiresAt,
+              timer: clampToDeadline(timer, event.expiresAt),
+            });
+            break;
+
+          case "REQUEST_RESET":
+            set({ ...emptyRequest, phase: nextPhase });
+            break;
+
+          case "RESET":
+            set({ ...initialPaymentState });
+            break;
+
+          default:
+            set({ phase: nextPhase });
+        }
 
-      setStatus: (status) => {
-        set({
-          status,
-          isActive: status === "PENDING",
-        });
+        return true;
       },
 
       decrementTimer: () => {
-        const { timer, status } = get();
+        const { timer, phase, dispatch } = get();
+        if (!isPaymentInProgress(phase)) return;
 
         if (timer <= 0) {
-          set({ isActive: false, status: "EXPIRED" });
-        } else if (status === "PENDING") {
-          set({ timer: timer - 1 });
+          dispatch({ type: "EXPIRED" });
+        } else {
+          set({ timer: tickTimer(timer) });
         }
       },
 
-      resetPayment: () => {
-        set({
-          orderId: null,
-          requestId: null,
-          requestCode: null,
-          requestMethod: null,
-          expiresAt: null,
-          timer: DEFAULT_TIMER,
-          isActive: false,
-          status: null,
-        });
-      },
+      syncTimer: () => {
+        const { expiresAt, timer } = get();
+        if (!expiresAt) return;
 
-      resetPaymentRequest: () => {
-        const { orderId, timer } = get();
-        set({
-          orderId,
-          requestId: null,
-          requestCode: null,
-          requestMethod: null,
-          expiresAt: null,
-          timer,
-          isActive: true,
-          status: "PENDING",
-        });
+        set({ timer: clampToDeadline(timer, expiresAt) });
       },
 
-      cancelPayment: () => {
-        set({
-          isActive: false,
-          status: "EXPIRED",
-        });
+      resetPayment: () => {
+        get().dispatch({ type: "RESET" });
       },
     }),
     {
       name: "kiosk-payment",
+      version: 1,
       storage: createJSONStorage(() => webStorage),
       partialize: (state) => ({
+        phase: state.phase,
         orderId: state.orderId,
         requestId: state.requestId,
         requestCode: state.requestCode,
         requestMethod: state.requestMethod,
         expiresAt: state.expiresAt,
         timer: state.timer,
-        isActive: state.isActive,
-        status: state.status,
       }),
-      onRehydrateStorage: () => (state) => {
-        if (!state) return;
-
-        if (!state.isActive || state.status !== "PENDING" || state.timer <= 0) {
-          setTimeout(() => usePaymentStore.getState().resetPayment(), 0);
+      migrate: (persistedState, version) => {
+        const state = persistedState as Record<string, unknown>;
+
+        if (version === 0 && state) {
+          const isPending = state.isActive && state.status === "PENDING";
+          return {
+            ...state,
+            phase: isPending
+              ? state.requestId
+                ? "request-pending"
+                : "order-created"
+              : "idle",
+          };
         }
+
+        return state;
       },
     }
   )
@@ -0,0 +1,68 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import { getBoothScopedKey } from "@/libs/booth-scope";
+
+interface SoldOutState {
+  soldOutProductIds: number[];
+
+  toggleSoldOut: (productId: number) => boolean;
+  isSoldOut: (productId: number) => boolean;
+  resetSoldOut: () => void;
+}
+
+const webStorage = {
+  getItem: async (name: string): Promise<string | null> => {
+    try {
+      return localStorage.getItem(getBoothScopedKey(name));
+    } catch (error) {
+      console.error("localStorage getItem error:", error);
+      return null;
+    }
+  },
+  setItem: async (name: string, value: string): Promise<void> => {
+    try {
+      localStorage.setItem(getBoothScopedKey(name), value);
+    } catch (error) {
+      console.error("localStorage setItem error:", error);
+    }
+  },
+  removeItem: async (name: string): Promise<void> => {
+    try {
+      localStorage.removeItem(getBoothScopedKey(name));
+    } catch (error) {
+      console.error("localStorage removeItem error:", error);
+    }
+  },
+};
+
+// Products staff marked sold out on this kiosk, kept per booth.
+export const useSoldOutStore = create<SoldOutState>()(
+  persist(
+    (set, get) => ({
+      soldOutProductIds: [],
+
+      toggleSoldOut: (productId) => {
+        const soldOut = !get().isSoldOut(productId);
+        set((state) => ({
+          soldOutProductIds: soldOut
+            ? [...state.soldOutProductIds, productId]
+            : state.soldOutProductIds.filter((id) => id !== productId),
+        }));
+        return soldOut;
+      },
+
+      isSoldOut: (productId) => get().soldOutProductIds.includes(productId),
+
+      resetSoldOut: () => {
+        set({ soldOutProductIds: [] });
+      },
+    }),
+    {
+      name: "kiosk-sold-out",
+      storage: createJSONStorage(() => webStorage),
+      partialize: (state) => ({
+        soldOutProductIds: state.soldOutProductIds,
+      }),
+    }
+  )
+);
@@ -0,0 +1,117 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+
+export type PinVerifyResult = "OK" | "INVALID" | "LOCKED" | "NOT_SET";
+
+interface StaffState {
+  pinHash: string | null;
+  failedAttempts: number;
+  lockedUntil: number | null;
+
+  verifyPin: (pin: string) => Promise<PinVerifyResult>;
+  changePin: (pin: string) => Promise<void>;
+  hasPin: () => boolean;
+  getLockRemaining: () => number;
+}
+
+// The PIN belongs to the device, not a booth, so the login screen can tell
+// whether one still has to be chosen. Without a build-time PIN it is set there,
+// behind the booth credentials; there is no shared fallback PIN.
+const BUILD_PIN = import.meta.env.VITE_STAFF_PIN || null;
+const MAX_PIN_ATTEMPTS = 5;
+const LOCKOUT_DURATION = 5 * 60 * 1000;
+
+const hashPin = async (pin: string): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(`flick-place-staff:${pin}`)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+const webStorage = {
+  getItem: async (name: string): Promise<string | null> => {
+    try {
+      return localStorage.getItem(name);
+    } catch (error) {
+      console.error("localStorage getItem error:", error);
+      return null;
+    }
+  },
+  setItem: async (name: string, value: string): Promise<void> => {
+    try {
+      localStorage.setItem(name, value);
+    } catch (error) {
+      console.error("localStorage setItem error:", error);
+    }
+  },
+  removeItem: async (name: string): Promise<void> => {
+    try {
+      localStorage.removeItem(name);
+    } catch (error) {
+      console.error("localStorage removeItem error:", error);
+    }
+  },
+};
+
+export const useStaffStore = create<StaffState>()(
+  persist(
+    (set, get) => ({
+      pinHash: null,
+      failedAttempts: 0,
+      lockedUntil: null,
+
+      verifyPin: async (pin) => {
+        if (get().getLockRemaining() > 0) {
+          return "LOCKED";
+        }
+
+        const expectedHash =
+          get().pinHash ?? (BUILD_PIN ? await hashPin(BUILD_PIN) : null);
+        if (expectedHash === null) {
+          return "NOT_SET";
+        }
+
+        if ((await hashPin(pin)) === expectedHash) {
+          set({ failedAttempts: 0, lockedUntil: null });
+          return "OK";
+        }
+
+        const failedAttempts = get().failedAttempts + 1;
+        if (failedAttempts >= MAX_PIN_ATTEMPTS) {
+          set({
+            failedAttempts: 0,
+            lockedUntil: Date.now() + LOCKOUT_DURATION,
+          });
+          return "LOCKED";
+        }
+
+        set({ failedAttempts });
+        return "INVALID";
+      },
+
+      changePin: async (pin) => {
+        set({ pinHash: await hashPin(pin) });
+      },
+
+      hasPin: () => get().pinHash !== null || BUILD_PIN !== null,
+
+      getLockRemaining: () => {
+        const { lockedUntil } = get();
+        if (!lockedUntil) return 0;
+        return Math.max(0, Math.ceil((lockedUntil - Date.now()) / 1000));
+      },
+    }),
+    {
+      name: "kiosk-staff",
+      storage: createJSONStorage(() => webStorage),
+      partialize: (state) => ({
+        pinHash: state.pinHash,
+        failedAttempts: state.failedAttempts,
+        lockedUntil: state.lockedUntil,
+      }),
+    }
+  )
+);
@@ -0,0 +1,87 @@
+import { screen, within } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import {
+  addProduct,
+  bootSignedInKiosk,
+  openStaffPanel,
+  TEST_BOOTH,
+  type Kiosk,
+} from "./harness";
+
+const startAddingBooth = async (kiosk: Kiosk) => {
+  await kiosk.user.click(screen.getByRole("button", { name: "부스" }));
+  await kiosk.user.click(screen.getByRole("button", { name: "부스 추가" }));
+  await screen.findByPlaceholderText("아이디를 입력하세요");
+};
+
+const getProductCard = async (name: string) =>
+  within((await screen.findByAltText(name)).parentElement!);
+
+describe("booth profiles", () => {
+  it("keeps the current booth active until a new booth signs in", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "순대");
+    await openStaffPanel(kiosk);
+    await startAddingBooth(kiosk);
+
+    await kiosk.user.click(
+      screen.getByRole("button", { name: "현재 부스로 돌아가기" })
+    );
+
+    await screen.findByAltText("순대");
+    expect(window.location.pathname).toBe("/products");
+    expect(kiosk.useCartStore.getState().getTotalItems()).toBe(1);
+  });
+
+  it("keeps sold-out marks to the booth that set them", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await openStaffPanel(kiosk);
+    await kiosk.user.click(
+      screen.getAllByRole("button", { name: "판매 중" })[0]
+    );
+    expect(
+      (await getProductCard("떡볶이")).getByText("품절")
+    ).toBeInTheDocument();
+    await startAddingBooth(kiosk);
+
+    await kiosk.user.type(
+      screen.getByPlaceholderText("아이디를 입력하세요"),
+      "second-booth"
+    );
+    await kiosk.user.type(
+      screen.getByPlaceholderText("비밀번호를 입력하세요"),
+      "pw"
+    );
+    await kiosk.user.click(screen.getByRole("button", { name: "로그인" }));
+
+    expect(
+      (await getProductCard("떡볶이")).queryByText("품절")
+    ).not.toBeInTheDocument();
+  });
+
+  it("forgets a signed-out booth's sold-out marks on the next sign-in", async () => {
+    const kiosk = await bootSignedInKiosk();
+    const { user } = kiosk;
+    vi.spyOn(window, "confirm").mockReturnValue(true);
+
+    await openStaffPanel(kiosk);
+    await user.click(screen.getAllByRole("button", { name: "판매 중" })[0]);
+    await user.click(screen.getByRole("button", { name: "시스템" }));
+    await user.click(
+      screen.getByRole("button", { name: "키오스크 연결 해제" })
+    );
+
+    await user.type(
+      await screen.findByPlaceholderText("아이디를 입력하세요"),
+      TEST_BOOTH
+    );
+    await user.type(screen.getByPlaceholderText("비밀번호를 입력하세요"), "pw");
+    await user.click(screen.getByRole("button", { name: "로그인" }));
+
+    expect(
+      (await getProductCard("떡볶이")).queryByText("품절")
+    ).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,159 @@
+import fc from "fast-check";
+import { addToCart, type CartItem } from "@/domain/cart";
+import type { ProductResponse, SelectedOption } from "@/types/product";
+import type { PromotionResponse } from "@/types/promotion";
+
+export const price = () => fc.integer({ min: 0, max: 100_000 });
+
+export const selectedOption = () =>
+  fc.record<SelectedOption>({
+    groupId: fc.integer({ min: 1, max: 5 }),
+    groupName: fc.constant("옵션"),
+    optionId: fc.integer({ min: 1, max: 20 }),
+    optionName: fc.constant("선택"),
+    priceDelta: fc.integer({ min: 0, max: 2_000 }),
+  });
+
+export const selectedOptions = () =>
+  fc.uniqueArray(selectedOption(), {
+    maxLength: 4,
+    selector: (option) => option.optionId,
+  });
+
+export const cartProduct = () =>
+  fc.record({
+    id: fc.integer({ min: 1, max: 6 }),
+    name: fc.constant("상품"),
+    price: price(),
+  });
+
+// Carts are built through addToCart so they only hold lines the app can
+// produce: one line per product and option set, with matching prices.
+export const cart = () =>
+  fc
+    .array(fc.tuple(cartProduct(), selectedOptions()), { maxLength: 30 })
+    .map((additions) =>
+      additions.reduce<CartItem[]>(
+        (items, [product, options]) => addToCart(items, product, options),
+        []
+      )
+    );
+
+export const stockedProduct = () =>
+  fc.record<Pick<ProductResponse, "id" | "status" | "stock">>({
+    id: fc.integer({ min: 1, max: 6 }),
+    status: fc.constantFrom("AVAILABLE", "SOLD_OUT", "HIDDEN"),
+    stock: fc.integer({ min: -2, max: 40 }),
+  });
+
+export const catalog = () =>
+  fc
+    .tuple(
+      ...[1, 2, 3, 4, 5, 6].map((id) =>
+        fc.record({
+          id: fc.constant(id),
+          name: fc.constant(`상품 ${id}`),
+          status: fc.constantFrom("AVAILABLE", "AVAILABLE", "SOLD_OUT"),
+          stock: fc.integer({ min: 0, max: 12 }),
+        })
+      )
+    )
+    .map(
+      (products) =>
+        products as Pick<ProductResponse, "id" | "name" | "status" | "stock">[]
+    );
+
+export const setProduct = () =>
+  fc
+    .uniqueArray(
+      fc.record({
+        productId: fc.integer({ min: 1, max: 6 }),
+        quantity: fc.integer({ min: 1, max: 3 }),
+        swaps: fc.uniqueArray(
+          fc.record({
+            productId: fc.integer({ min: 1, max: 6 }),
+            priceDelta: fc.integer({ min: 0, max: 1_000 }),
+          }),
+          { maxLength: 2, selector: (swap) => swap.productId }
+        ),
+      }),
+      { minLength: 1, maxLength: 3, selector: (slot) => slot.productId }
+    )
+    .map(
+      (
+        slots
+      ): Pick<ProductResponse, "id" | "status" | "stock" | "components"> => ({
+        id: 100,
+        status: "AVAILABLE",
+        stock: 0,
+        components: slots.map((slot, index) => ({
+          ...slot,
+          id: index + 1,
+          name: `구성 ${index + 1}`,
+          swaps: slot.swaps.filter((swap) => swap.productId !== slot.productId),
+        })),
+      })
+    );
+
+const timeOfDay = () =>
+  fc
+    .tuple(fc.integer({ min: 0, max: 23 }), fc.integer({ min: 0, max: 59 }))
+    .map(
+      ([hours, minutes]) =>
+        `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`
+    );
+
+export const promotion = () =>
+  fc
+    .record({
+      id: fc.integer({ min: 1, max: 1_000 }),
+      code: fc.option(fc.constantFrom("1234", "5000"), { nil: null }),
+      productIds: fc.option(
+        fc.uniqueArray(fc.integer({ min: 1, max: 6 }), { maxLength: 3 }),
+        { nil: null }
+      ),
+      minOrderAmount: fc.option(fc.integer({ min: 0, max: 50_000 }), {
+        nil: null,
+      }),
+      rule: fc.oneof(
+        fc
+          .tuple(fc.integer({ min: 2, max: 5 }), fc.nat(5))
+          .map(([buyQuantity, pay]) => ({
+            type: "BUNDLE" as const,
+            buyQuantity,
+            payQuantity: Math.min(pay, buyQuantity - 1),
+          })),
+        fc.record({
+          type: fc.constant("TIME_WINDOW" as const),
+          startTime: timeOfDay(),
+          endTime: timeOfDay(),
+          percentOff: fc.integer({ min: 0, max: 100 }),
+        }),
+        fc.record({
+          type: fc.constant("PERCENTAGE" as const),
+          percentOff: fc.integer({ min: 0, max: 100 }),
+        }),
+        fc.record({
+          type: fc.constant("FIXED" as const),
+          amountOff: fc.integer({ min: 0, max: 20_000 }),
+        })
+      ),
+    })
+    .map(({ rule, ...base }): PromotionResponse => ({
+      ...base,
+      ...rule,
+      name: `프로모션 ${base.id}`,
+    }));
+
+export const promotions = () =>
+  fc.uniqueArray(promotion(), {
+    maxLength: 5,
+    selector: (promotion) => promotion.id,
+  });
+
+export const moment = () =>
+  fc.date({
+    min: new Date("2025-01-01T00:00:00"),
+    max: new Date("2025-12-31T23:59:59"),
+    noInvalidDate: true,
+  });
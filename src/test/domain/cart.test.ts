@@ -0,0 +1,161 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+  addToCart,
+  clampProductQuantity,
+  getCartItemCount,
+  getCartItemKey,
+  getCartTotal,
+  getLineTotal,
+  getProductQuantity,
+  getUnitPrice,
+  setCartItemQuantity,
+  toOrderItems,
+} from "@/domain/cart";
+import {
+  cart,
+  cartProduct,
+  price,
+  selectedOption,
+  selectedOptions,
+} from "./arbitraries";
+
+describe("cart math", () => {
+  it("keys a line by product and option set regardless of option order", () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1 }), selectedOptions(), (id, options) => {
+        expect(getCartItemKey(id, [...options].reverse())).toBe(
+          getCartItemKey(id, options)
+        );
+      })
+    );
+  });
+
+  it("keeps options with the same id in different groups apart", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1 }),
+        selectedOption(),
+        fc.integer({ min: 1, max: 5 }),
+        (id, option, otherGroupId) => {
+          fc.pre(otherGroupId !== option.groupId);
+
+          expect(getCartItemKey(id, [option])).not.toBe(
+            getCartItemKey(id, [{ ...option, groupId: otherGroupId }])
+          );
+        }
+      )
+    );
+  });
+
+  it("prices a unit as the base price plus every option delta", () => {
+    fc.assert(
+      fc.property(price(), selectedOptions(), (basePrice, options) => {
+        const deltas = options.map((option) => option.priceDelta);
+        expect(getUnitPrice(basePrice, options)).toBe(
+          deltas.reduce((sum, delta) => sum + delta, basePrice)
+        );
+      })
+    );
+  });
+
+  it("totals the cart as the sum of its lines", () => {
+    fc.assert(
+      fc.property(cart(), (items) => {
+        expect(getCartTotal(items)).toBe(
+          items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+        );
+        expect(getCartItemCount(items)).toBe(
+          items.reduce((sum, item) => sum + item.quantity, 0)
+        );
+      })
+    );
+  });
+
+  it("adds one unit at the line's unit price without touching the input", () => {
+    fc.assert(
+      fc.property(
+        cart(),
+        cartProduct(),
+        selectedOptions(),
+        (items, product, options) => {
+          const snapshot = structuredClone(items);
+          const next = addToCart(items, product, options);
+          const key = getCartItemKey(product.id, options);
+          const line = next.find((item) => item.key === key)!;
+
+          expect(items).toEqual(snapshot);
+          expect(getCartItemCount(next)).toBe(getCartItemCount(items) + 1);
+          expect(getCartTotal(next)).toBe(getCartTotal(items) + line.price);
+          expect(new Set(next.map((item) => item.key)).size).toBe(next.length);
+        }
+      )
+    );
+  });
+
+  it("sets a line's quantity and drops the line at zero or below", () => {
+    fc.assert(
+      fc.property(
+        cart().filter((items) => items.length > 0),
+        fc.nat(),
+        fc.integer({ min: -5, max: 20 }),
+        (items, index, quantity) => {
+          const target = items[index % items.length];
+          const next = setCartItemQuantity(items, target.key, quantity);
+          const line = next.find((item) => item.key === target.key);
+
+          if (quantity <= 0) {
+            expect(line).toBeUndefined();
+            expect(next).toHaveLength(items.length - 1);
+          } else {
+            expect(line?.quantity).toBe(quantity);
+            expect(getCartItemCount(next)).toBe(
+              getCartItemCount(items) - target.quantity + quantity
+            );
+          }
+        }
+      )
+    );
+  });
+
+  it("clamps a product to the limit and leaves other products alone", () => {
+    fc.assert(
+      fc.property(
+        cart(),
+        fc.integer({ min: 1, max: 6 }),
+        fc.integer({ min: -3, max: 30 }),
+        (items, id, max) => {
+          const before = getProductQuantity(items, id);
+          const { items: next, changed } = clampProductQuantity(items, id, max);
+
+          expect(getProductQuantity(next, id)).toBe(
+            Math.min(before, Math.max(0, max))
+          );
+          expect(changed).toBe(before > Math.max(0, max));
+          expect(next.every((item) => item.quantity > 0)).toBe(true);
+          expect(next.filter((item) => item.id !== id)).toEqual(
+            items.filter((item) => item.id !== id)
+          );
+          expect(clampProductQuantity(next, id, max).changed).toBe(false);
+        }
+      )
+    );
+  });
+
+  it("builds order items whose line prices add up to the cart total", () => {
+    fc.assert(
+      fc.property(cart(), (items) => {
+        const orderItems = toOrderItems(items);
+
+        expect(orderItems.reduce((sum, item) => sum + item.linePrice, 0)).toBe(
+          getCartTotal(items)
+        );
+        orderItems.forEach((item, index) => {
+          expect(item.productId).toBe(items[index].id);
+          expect(item.linePrice).toBe(item.unitPrice * item.quantity);
+          expect(item.linePrice).toBe(getLineTotal(items[index]));
+        });
+      })
+    );
+  });
+});
@@ -0,0 +1,84 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+  addToCart,
+  getCartItemCount,
+  getPurchasedQuantity,
+  type CartItem,
+} from "@/domain/cart";
+import { checkPurchaseLimit } from "@/domain/limits";
+import { cart } from "./arbitraries";
+
+const limitedProduct = () =>
+  fc.record({
+    id: fc.integer({ min: 1, max: 6 }),
+    name: fc.constant("상품"),
+    maxPerOrder: fc.option(fc.integer({ min: 1, max: 10 }), { nil: null }),
+  });
+
+const maxOrderQuantity = () => fc.integer({ min: 1, max: 40 });
+
+describe("purchase limits", () => {
+  it("never lets repeated adds pass the product or order limit", () => {
+    fc.assert(
+      fc.property(
+        limitedProduct(),
+        maxOrderQuantity(),
+        fc.integer({ min: 0, max: 60 }),
+        (product, max, attempts) => {
+          let items: CartItem[] = [];
+
+          for (let attempt = 0; attempt < attempts; attempt++) {
+            if (checkPurchaseLimit(product, items, [product], 1, max)) break;
+            items = addToCart(items, { ...product, price: 1 });
+          }
+
+          expect(getCartItemCount(items)).toBeLessThanOrEqual(max);
+          if (product.maxPerOrder !== null) {
+            expect(getPurchasedQuantity(items, product.id)).toBeLessThanOrEqual(
+              product.maxPerOrder
+            );
+          }
+        }
+      )
+    );
+  });
+
+  it("reports the order limit exactly when the cart would pass it", () => {
+    fc.assert(
+      fc.property(
+        cart(),
+        maxOrderQuantity(),
+        fc.integer({ min: 1, max: 10 }),
+        (items, max, added) => {
+          const violation = checkPurchaseLimit(
+            { id: 99 },
+            items,
+            [],
+            added,
+            max
+          );
+
+          expect(violation?.type === "ORDER_LIMIT").toBe(
+            getCartItemCount(items) + added > max
+          );
+        }
+      )
+    );
+  });
+
+  it("never blocks lowering a quantity", () => {
+    fc.assert(
+      fc.property(
+        limitedProduct(),
+        cart(),
+        fc.integer({ min: -10, max: 0 }),
+        (product, items, added) => {
+          expect(
+            checkPurchaseLimit(product, items, [product], added, 1)
+          ).toBeNull();
+        }
+      )
+    );
+  });
+});
@@ -0,0 +1,210 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { addToCart, getCartTotal, type CartItem } from "@/domain/cart";
+import {
+  isPromotionActive,
+  isWithinTimeWindow,
+  priceCart,
+  toOrderRequest,
+} from "@/domain/promotions";
+import type { PromotionResponse } from "@/types/promotion";
+import { cart, moment, promotion, promotions } from "./arbitraries";
+
+const couponCode = () => fc.option(fc.constantFrom("1234", "5000", "9999"));
+
+describe("promotions engine", () => {
+  it("charges the full price when nothing applies", () => {
+    fc.assert(
+      fc.property(cart(), (items) => {
+        const pricing = priceCart(items, []);
+
+        expect(pricing.discountTotal).toBe(0);
+        expect(pricing.total).toBe(getCartTotal(items));
+        expect(pricing.promotionIds).toEqual([]);
+      })
+    );
+  });
+
+  it("never discounts below zero and keeps the totals consistent", () => {
+    fc.assert(
+      fc.property(
+        cart(),
+        promotions(),
+        moment(),
+        couponCode(),
+        (items, rules, now, code) => {
+          const pricing = priceCart(items, rules, { now, couponCode: code });
+
+          expect(pricing.subtotal).toBe(getCartTotal(items));
+          expect(pricing.total).toBeGreaterThanOrEqual(0);
+          expect(pricing.total).toBe(pricing.subtotal - pricing.discountTotal);
+          expect(pricing.lineDiscount).toBe(
+            pricing.lines.reduce(
+              (sum, line) => sum + (line.discount?.amount ?? 0),
+              0
+            )
+          );
+          pricing.lines.forEach((line) => {
+            expect(line.total).toBeGreaterThanOrEqual(0);
+            expect(Number.isInteger(line.total)).toBe(true);
+          });
+        }
+      )
+    );
+  });
+
+  it("never raises the total when another promotion is offered", () => {
+    fc.assert(
+      fc.property(
+        cart(),
+        promotions(),
+        promotion(),
+        moment(),
+        (items, rules, extra, now) => {
+          const context = { now, couponCode: extra.code };
+          const without = priceCart(
+            items,
+            rules.filter((rule) => rule.id !== extra.id),
+            context
+          );
+          const withExtra = priceCart(
+            items,
+            [...rules.filter((rule) => rule.id !== extra.id), extra],
+            context
+          );
+
+          expect(withExtra.total).toBeLessThanOrEqual(without.total);
+        }
+      )
+    );
+  });
+
+  it("applies a coupon only with its code", () => {
+    fc.assert(
+      fc.property(promotion(), moment(), couponCode(), (rule, now, code) => {
+        if (rule.code && rule.code !== code) {
+          expect(isPromotionActive(rule, { now, couponCode: code })).toBe(
+            false
+          );
+        }
+      })
+    );
+  });
+
+  it("gives one free unit for every full bundle", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 2, max: 5 }),
+        fc.integer({ min: 1, max: 20 }),
+        fc.integer({ min: 100, max: 5_000 }),
+        (buyQuantity, quantity, price) => {
+          const bundle: PromotionResponse = {
+            id: 1,
+            name: "묶음",
+            type: "BUNDLE",
+            productIds: [1],
+            buyQuantity,
+            payQuantity: buyQuantity - 1,
+          };
+          let items = addToCart([], { id: 1, name: "상품", price });
+          for (let unit = 1; unit < quantity; unit++) {
+            items = addToCart(items, { id: 1, name: "상품", price });
+          }
+
+          expect(priceCart(items, [bundle]).discountTotal).toBe(
+            Math.floor(quantity / buyQuantity) * price
+          );
+        }
+      )
+    );
+  });
+
+  it("counts a bundle across option lines and frees the cheapest units", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 2, max: 5 }),
+        fc.array(fc.constantFrom(0, 500, 1_000), {
+          minLength: 1,
+          maxLength: 20,
+        }),
+        fc.integer({ min: 100, max: 5_000 }),
+        (buyQuantity, priceDeltas, price) => {
+          const bundle: PromotionResponse = {
+            id: 1,
+            name: "묶음",
+            type: "BUNDLE",
+            productIds: [1],
+            buyQuantity,
+            payQuantity: buyQuantity - 1,
+          };
+          const items = priceDeltas.reduce(
+            (cartItems, priceDelta) =>
+              addToCart(cartItems, { id: 1, name: "상품", price }, [
+                {
+                  groupId: 1,
+                  groupName: "옵션",
+                  optionId: priceDelta,
+                  optionName: `+${priceDelta}`,
+                  priceDelta,
+                },
+              ]),
+            [] as CartItem[]
+          );
+          const freeUnits = Math.floor(priceDeltas.length / buyQuantity);
+          const cheapest = [...priceDeltas]
+            .sort((a, b) => a - b)
+            .slice(0, freeUnits)
+            .reduce<number>((sum, priceDelta) => sum + price + priceDelta, 0);
+
+          expect(priceCart(items, [bundle]).discountTotal).toBe(cheapest);
+        }
+      )
+    );
+  });
+
+  it("splits the day between a window and its complement", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 1439 }),
+        fc.integer({ min: 0, max: 1439 }),
+        moment(),
+        (start, end, now) => {
+          fc.pre(start !== end);
+          const format = (minutes: number) =>
+            `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(
+              minutes % 60
+            ).padStart(2, "0")}`;
+
+          expect(isWithinTimeWindow(format(start), format(end), now)).not.toBe(
+            isWithinTimeWindow(format(end), format(start), now)
+          );
+        }
+      )
+    );
+  });
+
+  it("sends the same discount it shows", () => {
+    fc.assert(
+      fc.property(
+        cart(),
+        promotions(),
+        moment(),
+        couponCode(),
+        (items, rules, now, code) => {
+          const pricing = priceCart(items, rules, { now, couponCode: code });
+          const request = toOrderRequest(items, pricing, code);
+          const lineDiscounts = request.items.reduce(
+            (sum, item) => sum + (item.discountAmount ?? 0),
+            0
+          );
+
+          expect(lineDiscounts).toBe(pricing.lineDiscount);
+          expect(request.discount?.amount ?? 0).toBe(pricing.discountTotal);
+          expect(request.discount === undefined).toBe(
+            pricing.discountTotal === 0
+          );
+        }
+      )
+    );
+  });
+});
@@ -0,0 +1,134 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+  addToCart,
+  clampProductQuantity,
+  getStockUsage,
+  toOrderItems,
+  type CartItem,
+} from "@/domain/cart";
+import {
+  checkAddToCart,
+  getAvailableStock,
+  getDefaultComponents,
+  getSetStock,
+  getSlotChoices,
+  resolveSetProducts,
+} from "@/domain/stock";
+import { catalog, price, setProduct } from "./arbitraries";
+
+describe("set menus", () => {
+  it("sells a set out exactly when a slot has no stocked choice", () => {
+    fc.assert(
+      fc.property(catalog(), setProduct(), (products, set) => {
+        const resolved = resolveSetProducts([...products, set]).find(
+          (product) => product.id === set.id
+        )!;
+        const slotRunsOut = set.components!.some((slot) =>
+          getSlotChoices(slot).every((productId) => {
+            const product = products.find((p) => p.id === productId)!;
+            return getAvailableStock(product) < slot.quantity;
+          })
+        );
+
+        expect(resolved.stock).toBe(getSetStock(set, products));
+        expect(resolved.status === "SOLD_OUT").toBe(slotRunsOut);
+      })
+    );
+  });
+
+  it("never lets repeated set adds use more than the component stock", () => {
+    fc.assert(
+      fc.property(
+        catalog(),
+        setProduct(),
+        fc.integer({ min: 0, max: 40 }),
+        (products, set, attempts) => {
+          const [resolved] = resolveSetProducts([set, ...products]);
+
+          let items: CartItem[] = [];
+          for (let attempt = 0; attempt < attempts; attempt++) {
+            if (checkAddToCart(resolved, items, products)) break;
+
+            const components = getDefaultComponents(set, products, items);
+            if (checkAddToCart(resolved, items, products, components)) break;
+            items = addToCart(
+              items,
+              { id: set.id, name: "세트", price: 1 },
+              [],
+              components
+            );
+          }
+
+          products.forEach((product) => {
+            expect(getStockUsage(items, product.id)).toBeLessThanOrEqual(
+              getAvailableStock(product)
+            );
+          });
+        }
+      )
+    );
+  });
+
+  it("trims set lines when one of their components runs short", () => {
+    fc.assert(
+      fc.property(
+        catalog(),
+        setProduct(),
+        fc.integer({ min: 1, max: 6 }),
+        fc.integer({ min: 1, max: 8 }),
+        fc.integer({ min: 1, max: 6 }),
+        fc.nat(20),
+        (products, set, sets, plain, productId, max) => {
+          const components = getDefaultComponents(set, products);
+          let items: CartItem[] = [];
+          for (let unit = 0; unit < sets; unit++) {
+            items = addToCart(
+              items,
+              { id: set.id, name: "세트", price: 1 },
+              [],
+              components
+            );
+          }
+          for (let unit = 0; unit < plain; unit++) {
+            items = addToCart(items, { id: productId, name: "상품", price: 1 });
+          }
+
+          const clamped = clampProductQuantity(items, productId, max);
+
+          expect(getStockUsage(clamped.items, productId)).toBeLessThanOrEqual(
+            max
+          );
+          expect(clamped.changed).toBe(getStockUsage(items, productId) > max);
+        }
+      )
+    );
+  });
+
+  it("expands a set line into its components in the order request", () => {
+    fc.assert(
+      fc.property(catalog(), setProduct(), price(), (products, set, base) => {
+        const components = getDefaultComponents(set, products);
+        const [item] = toOrderItems(
+          addToCart(
+            [],
+            { id: set.id, name: "세트", price: base },
+            [],
+            components
+          )
+        );
+
+        expect(item.productId).toBe(set.id);
+        expect(item.components).toEqual(
+          set.components!.map((slot) => ({
+            slotId: slot.id,
+            productId: components.find((c) => c.slotId === slot.id)!.productId,
+          }))
+        );
+        expect(item.unitPrice).toBe(
+          base + components.reduce((sum, c) => sum + c.priceDelta, 0)
+        );
+      })
+    );
+  });
+});
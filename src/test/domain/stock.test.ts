@@ -0,0 +1,111 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { addToCart, getProductQuantity } from "@/domain/cart";
+import {
+  checkAddToCart,
+  checkQuantityChange,
+  getAvailableStock,
+  getRemainingStock,
+  isSoldOut,
+} from "@/domain/stock";
+import { cart, stockedProduct } from "./arbitraries";
+
+describe("stock constraints", () => {
+  it("only offers stock for available products", () => {
+    fc.assert(
+      fc.property(stockedProduct(), (product) => {
+        const available = getAvailableStock(product);
+
+        expect(available).toBeGreaterThanOrEqual(0);
+        expect(available).toBeLessThanOrEqual(Math.max(0, product.stock));
+        if (product.status !== "AVAILABLE") expect(available).toBe(0);
+      })
+    );
+  });
+
+  it("never reports negative remaining stock", () => {
+    fc.assert(
+      fc.property(stockedProduct(), cart(), (product, items) => {
+        const remaining = getRemainingStock(product, items);
+
+        expect(remaining).toBeGreaterThanOrEqual(0);
+        expect(remaining).toBe(
+          Math.max(
+            0,
+            getAvailableStock(product) - getProductQuantity(items, product.id)
+          )
+        );
+      })
+    );
+  });
+
+  it("allows an add exactly when a unit remains", () => {
+    fc.assert(
+      fc.property(stockedProduct(), cart(), (product, items) => {
+        const violation = checkAddToCart(product, items);
+
+        if (isSoldOut(product)) {
+          expect(violation).toBe("SOLD_OUT");
+        } else if (getRemainingStock(product, items) > 0) {
+          expect(violation).toBeNull();
+        } else {
+          expect(violation).toBe("INSUFFICIENT_STOCK");
+        }
+      })
+    );
+  });
+
+  it("never lets repeated adds exceed the available stock", () => {
+    fc.assert(
+      fc.property(
+        stockedProduct(),
+        fc.integer({ min: 0, max: 60 }),
+        (product, attempts) => {
+          let items = addToCart([], { id: 99, name: "다른 상품", price: 1 });
+
+          for (let attempt = 0; attempt < attempts; attempt++) {
+            if (checkAddToCart(product, items)) break;
+            items = addToCart(items, { ...product, name: "상품", price: 1 });
+          }
+
+          expect(getProductQuantity(items, product.id)).toBeLessThanOrEqual(
+            getAvailableStock(product)
+          );
+        }
+      )
+    );
+  });
+
+  it("rejects a quantity change only when it raises the product past its stock", () => {
+    fc.assert(
+      fc.property(
+        stockedProduct(),
+        cart().filter((items) => items.length > 0),
+        fc.nat(),
+        fc.integer({ min: -2, max: 50 }),
+        (product, items, index, quantity) => {
+          const target = items[index % items.length];
+          const line = { ...product, id: target.id };
+          const violation = checkQuantityChange(
+            line,
+            items,
+            target.key,
+            quantity
+          );
+          const after =
+            getProductQuantity(items, target.id) -
+            target.quantity +
+            Math.max(0, quantity);
+
+          if (quantity <= target.quantity) {
+            expect(violation).toBeNull();
+          } else {
+            expect(violation).toBe(
+              after > getAvailableStock(line) ? "INSUFFICIENT_STOCK" : null
+            );
+          }
+        }
+      )
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+  STUDENT_ID_LENGTH,
+  applyStudentIdKey,
+  formatStudentId,
+  isValidStudentId,
+  parseStudentId,
+} from "@/domain/student-id";
+
+const validStudentId = () =>
+  fc.record({
+    grade: fc.integer({ min: 1, max: 9 }),
+    room: fc.integer({ min: 1, max: 9 }),
+    number: fc.integer({ min: 1, max: 99 }),
+  });
+
+const keypadKey = () =>
+  fc.oneof(
+    fc.constantFrom("delete", "clear"),
+    fc.integer({ min: 0, max: 9 }).map(String)
+  );
+
+describe("student id parsing", () => {
+  it("parses what it formats", () => {
+    fc.assert(
+      fc.property(validStudentId(), (studentId) => {
+        const formatted = formatStudentId(studentId);
+
+        expect(formatted).toHaveLength(STUDENT_ID_LENGTH);
+        expect(parseStudentId(formatted)).toEqual(studentId);
+      })
+    );
+  });
+
+  it("formats what it parses", () => {
+    fc.assert(
+      fc.property(fc.string(), (value) => {
+        const parsed = parseStudentId(value);
+        if (parsed) expect(formatStudentId(parsed)).toBe(value);
+      })
+    );
+  });
+
+  it("rejects a zero grade, room or number", () => {
+    fc.assert(
+      fc.property(
+        validStudentId(),
+        fc.constantFrom("grade", "room", "number"),
+        (studentId, field) => {
+          expect(
+            isValidStudentId(formatStudentId({ ...studentId, [field]: 0 }))
+          ).toBe(false);
+        }
+      )
+    );
+  });
+
+  it("rejects anything that is not exactly four digits", () => {
+    fc.assert(
+      fc.property(
+        fc.string().filter((value) => !/^\d{4}$/.test(value)),
+        (value) => {
+          expect(isValidStudentId(value)).toBe(false);
+        }
+      )
+    );
+  });
+
+  it("keeps keypad input to at most four digits", () => {
+    fc.assert(
+      fc.property(fc.array(keypadKey(), { maxLength: 20 }), (keys) => {
+        const value = keys.reduce(applyStudentIdKey, "");
+        expect(value).toMatch(new RegExp(`^\\d{0,${STUDENT_ID_LENGTH}}$`));
+      })
+    );
+  });
+
+  it("types a valid id digit by digit", () => {
+    fc.assert(
+      fc.property(validStudentId(), (studentId) => {
+        const formatted = formatStudentId(studentId);
+        const typed = [...formatted, "1"].reduce(applyStudentIdKey, "");
+
+        expect(typed).toBe(formatted);
+        expect(applyStudentIdKey(typed, "delete")).toBe(formatted.slice(0, -1));
+        expect(applyStudentIdKey(typed, "clear")).toBe("");
+      })
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+  clampToDeadline,
+  formatCountdown,
+  getSecondsUntil,
+  tickTimer,
+} from "@/domain/timer";
+
+const NOW = Date.parse("2025-05-01T12:00:00.000Z");
+
+const offsetMs = () => fc.integer({ min: -3_600_000, max: 3_600_000 });
+
+describe("timer math", () => {
+  it("counts whole seconds left until a deadline and never goes negative", () => {
+    fc.assert(
+      fc.property(offsetMs(), (offset) => {
+        const expiresAt = new Date(NOW + offset).toISOString();
+        const seconds = getSecondsUntil(expiresAt, NOW);
+
+        expect(Number.isInteger(seconds)).toBe(true);
+        expect(seconds).toBe(Math.max(0, Math.floor(offset / 1000)));
+      })
+    );
+  });
+
+  it("only ever shortens the local countdown to the server deadline", () => {
+    fc.assert(
+      fc.property(fc.nat(3_600), offsetMs(), (timer, offset) => {
+        const expiresAt = new Date(NOW + offset).toISOString();
+        const clamped = clampToDeadline(timer, expiresAt, NOW);
+
+        expect(clamped).toBeLessThanOrEqual(timer);
+        expect(clamped).toBeLessThanOrEqual(getSecondsUntil(expiresAt, NOW));
+        expect(clampToDeadline(timer, null, NOW)).toBe(timer);
+      })
+    );
+  });
+
+  it("ticks down to zero and stays there", () => {
+    fc.assert(
+      fc.property(fc.nat(600), fc.nat(700), (timer, ticks) => {
+        let value = timer;
+        for (let tick = 0; tick < ticks; tick++) value = tickTimer(value);
+
+        expect(value).toBe(Math.max(0, timer - ticks));
+      })
+    );
+  });
+
+  it("formats a countdown as zero-padded minutes and seconds", () => {
+    fc.assert(
+      fc.property(fc.nat(5_999), (seconds) => {
+        const formatted = formatCountdown(seconds);
+        const [mins, secs] = formatted.split(":").map(Number);
+
+        expect(formatted).toMatch(/^\d{2}:[0-5]\d$/);
+        expect(mins * 60 + secs).toBe(seconds);
+      })
+    );
+    expect(formatCountdown(-5)).toBe("00:00");
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  act,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+  within,
+} from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { expect, vi } from "vitest";
+
+export const TEST_BOOTH = "test-booth";
+
+// Each boot drops the module registry, so stores rehydrate from localStorage
+// and the mock backend reloads its persisted database, like a page reload.
+export const bootKiosk = async (path: string = "/login") => {
+  vi.resetModules();
+
+  // Imported one at a time: the app's modules import each other in a cycle,
+  // and evaluating that graph from parallel imports can deadlock.
+  const { default: App } = await import("@/App");
+  const backend = await import("@/mocks/backend");
+  const socket = await import("@/mocks/socket");
+  const endpoints = await import("@/libs/endpoints");
+  const { useCartStore } = await import("@/stores/cart");
+  const { useDemoStore } = await import("@/stores/demo");
+  const { usePaymentStore } = await import("@/stores/payment");
+
+  useDemoStore.setState({ paymentOutcome: "MANUAL" });
+  window.history.pushState({}, "", path);
+
+  const user = userEvent.setup();
+  const view = render(<App />);
+
+  return {
+    ...view,
+    user,
+    backend,
+    socket,
+    endpoints,
+    useCartStore,
+    usePaymentStore,
+  };
+};
+
+export type Kiosk = Awaited<ReturnType<typeof bootKiosk>>;
+
+export const bootSignedInKiosk = async () => {
+  const kiosk = await bootKiosk("/login");
+  const { user } = kiosk;
+
+  await user.type(
+    await screen.findByPlaceholderText("아이디를 입력하세요"),
+    TEST_BOOTH
+  );
+  await user.type(screen.getByPlaceholderText("비밀번호를 입력하세요"), "pw");
+  await user.click(screen.getByRole("button", { name: "로그인" }));
+
+  await screen.findByRole("heading", { name: "순대" });
+  return kiosk;
+};
+
+export const addProduct = async ({ user }: Kiosk, name: string) => {
+  await user.click(await screen.findByAltText(name));
+};
+
+export const checkout = async ({ user, usePaymentStore }: Kiosk) => {
+  await user.click(screen.getByRole("button", { name: /결제하기/ }));
+  await waitFor(() =>
+    expect(usePaymentStore.getState().phase).toBe("order-created")
+  );
+};
+
+export const waitForQrRequest = async ({ usePaymentStore }: Kiosk) => {
+  await screen.findByText("QR 코드를 스캔하여 결제해 주세요");
+  await waitFor(() =>
+    expect(usePaymentStore.getState().phase).toBe("request-pending")
+  );
+  await screen.findByText("실시간");
+};
+
+export const requestStudentIdPayment = async (
+  kiosk: Kiosk,
+  studentId: string
+) => {
+  const { user } = kiosk;
+
+  await waitForQrRequest(kiosk);
+  await user.click(await screen.findByRole("button", { name: /학번 결제/ }));
+  await screen.findByText("4자리 학번을 입력해주세요");
+
+  for (const digit of studentId) {
+    await user.click(screen.getByRole("button", { name: digit }));
+  }
+  await user.click(screen.getByRole("button", { name: "결제 요청하기" }));
+};
+
+export const settlePayments = async (
+  { backend }: Kiosk,
+  status: Parameters<Kiosk["backend"]["settleMockPayments"]>[0]
+) => {
+  await act(async () => {
+    backend.settleMockPayments(status);
+  });
+};
+
+export const openStaffPanel = async ({ user }: Kiosk, pin: string = "0000") => {
+  fireEvent.pointerDown(screen.getByAltText("Logo"));
+  const dialog = within(
+    (await screen.findByText("관리자 PIN", {}, { timeout: 5000 }))
+      .parentElement!
+  );
+
+  for (const digit of pin) {
+    await user.click(dialog.getByRole("button", { name: digit }));
+  }
+  await screen.findByRole("button", { name: "부스" });
+};
@@ -0,0 +1,91 @@
+import { act, screen, waitFor, within } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import {
+  addProduct,
+  bootSignedInKiosk,
+  requestStudentIdPayment,
+  type Kiosk,
+} from "./harness";
+
+const ENERGY_DRINK_ID = 10;
+const ENERGY_DRINK = "에너지 드링크";
+
+const confirmAsStaff = async ({ user, usePaymentStore }: Kiosk) => {
+  await user.click(screen.getByRole("button", { name: /결제하기/ }));
+  const dialog = within((await screen.findByText("관리자 PIN")).parentElement!);
+
+  for (const digit of "0000") {
+    await user.click(dialog.getByRole("button", { name: digit }));
+  }
+  await waitFor(() =>
+    expect(usePaymentStore.getState().phase).toBe("order-created")
+  );
+};
+
+describe("purchase limits", () => {
+  it("stops at the per-order limit and explains it", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    expect(screen.getByText("1회 최대 2개")).toBeInTheDocument();
+    expect(screen.getByText("학번당 하루 3개")).toBeInTheDocument();
+
+    await addProduct(kiosk, ENERGY_DRINK);
+    await addProduct(kiosk, ENERGY_DRINK);
+    await addProduct(kiosk, ENERGY_DRINK);
+
+    await screen.findByText(
+      "에너지 드링크 상품은 한 번에 최대 2개까지 주문할 수 있습니다"
+    );
+    expect(
+      kiosk.useCartStore.getState().getProductQuantity(ENERGY_DRINK_ID)
+    ).toBe(2);
+    expect(screen.getAllByText("1회 최대 2개")).toHaveLength(2);
+  });
+
+  it("asks for staff confirmation before ordering a restricted item", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, ENERGY_DRINK);
+    await screen.findByText("직원에게 확인을 받은 뒤 결제가 진행됩니다");
+
+    await confirmAsStaff(kiosk);
+
+    const order = await kiosk.endpoints.fetchOrder(
+      kiosk.usePaymentStore.getState().orderId!
+    );
+    expect(order.items?.[0].productId).toBe(ENERGY_DRINK_ID);
+  });
+
+  it("refuses a student ID that already reached today's limit", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await act(async () => {
+      const earlier = await kiosk.endpoints.createOrder({
+        items: [
+          {
+            productId: ENERGY_DRINK_ID,
+            quantity: 2,
+            options: [],
+            unitPrice: 2000,
+            linePrice: 4000,
+          },
+        ],
+        staffConfirmed: true,
+      });
+      await kiosk.endpoints.createStudentIdPayment(earlier.id, "1101");
+      kiosk.backend.settleMockPayments("COMPLETED");
+    });
+
+    await addProduct(kiosk, ENERGY_DRINK);
+    await addProduct(kiosk, ENERGY_DRINK);
+    await confirmAsStaff(kiosk);
+
+    await screen.findByText("에너지 드링크 · 학번당 하루 3개");
+    await requestStudentIdPayment(kiosk, "1101");
+
+    await screen.findAllByText(
+      "이 학번으로 오늘 더 구매할 수 없습니다: 에너지 드링크 (학번당 하루 3개)"
+    );
+    expect(kiosk.usePaymentStore.getState().phase).not.toBe("request-pending");
+  });
+});
@@ -0,0 +1,128 @@
+import { act, screen, waitFor } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import {
+  addProduct,
+  bootSignedInKiosk,
+  checkout,
+  requestStudentIdPayment,
+  settlePayments,
+  waitForQrRequest,
+} from "./harness";
+
+describe("order to payment flow", () => {
+  it("completes a QR payment and shows the paid order", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "순대");
+    await addProduct(kiosk, "순대");
+    await checkout(kiosk);
+    await waitForQrRequest(kiosk);
+
+    await settlePayments(kiosk, "COMPLETED");
+
+    await screen.findByText("결제 완료");
+    expect(window.location.pathname).toBe("/payment-complete");
+
+    const { orderId } = kiosk.usePaymentStore.getState();
+    const order = await kiosk.endpoints.fetchOrder(orderId!);
+    expect(order).toMatchObject({
+      status: "PAID",
+      pickupNumber: "1",
+      totalAmount: 7000,
+    });
+  });
+
+  it("completes a student-id payment", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "어묵꼬치");
+    await checkout(kiosk);
+    await requestStudentIdPayment(kiosk, "2315");
+
+    await screen.findByText("학번 결제가 요청되었습니다");
+    expect(kiosk.usePaymentStore.getState()).toMatchObject({
+      phase: "request-pending",
+      requestMethod: "STUDENT_ID",
+    });
+
+    await settlePayments(kiosk, "COMPLETED");
+
+    await screen.findByText("결제 완료");
+    expect(kiosk.usePaymentStore.getState().phase).toBe("completed");
+  });
+
+  it("explains an unregistered student id and lets the customer retry", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "어묵꼬치");
+    await checkout(kiosk);
+    await requestStudentIdPayment(kiosk, "2399");
+
+    expect(
+      await screen.findAllByText("등록되지 않은 학번입니다")
+    ).not.toHaveLength(0);
+    expect(kiosk.usePaymentStore.getState().phase).toBe("order-created");
+
+    await kiosk.user.click(screen.getByRole("button", { name: "다시 시도" }));
+    await screen.findByText("4자리 학번을 입력해주세요");
+  });
+
+  it("shows a failed payment and keeps the order open", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "생수");
+    await checkout(kiosk);
+    await waitForQrRequest(kiosk);
+
+    await settlePayments(kiosk, "FAILED");
+
+    await screen.findByText("결제 실패");
+    expect(screen.getByText("데모 결제가 거절되었습니다")).toBeInTheDocument();
+    expect(kiosk.usePaymentStore.getState().phase).toBe("failed");
+
+    const { orderId } = kiosk.usePaymentStore.getState();
+    expect((await kiosk.endpoints.fetchOrder(orderId!)).status).toBe("PENDING");
+  });
+
+  it("cancels the order, clears the cart and releases the stock", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "순대");
+    await checkout(kiosk);
+    await waitForQrRequest(kiosk);
+
+    const { orderId } = kiosk.usePaymentStore.getState();
+    await kiosk.user.click(screen.getByRole("button", { name: "결제 취소" }));
+
+    await screen.findByText("장바구니가 비어있습니다");
+    expect(window.location.pathname).toBe("/products");
+    expect(kiosk.usePaymentStore.getState().phase).toBe("cancelled");
+    expect((await kiosk.endpoints.fetchOrder(orderId!)).status).toBe(
+      "CANCELLED"
+    );
+
+    const products = await kiosk.endpoints.fetchAvailableProducts();
+    expect(products.find((product) => product.id === 2)?.stock).toBe(20);
+  });
+
+  it("cancels an abandoned order on the server before placing a new one", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "순대");
+    await checkout(kiosk);
+    await waitForQrRequest(kiosk);
+    const { orderId: abandonedId } = kiosk.usePaymentStore.getState();
+
+    act(() => window.history.back());
+    await screen.findByAltText("순대");
+    await kiosk.user.click(screen.getByRole("button", { name: /결제하기/ }));
+
+    await waitFor(() =>
+      expect(kiosk.usePaymentStore.getState().orderId).not.toBe(abandonedId)
+    );
+    expect(kiosk.usePaymentStore.getState().phase).toBe("order-created");
+    expect((await kiosk.endpoints.fetchOrder(abandonedId!)).status).toBe(
+      "CANCELLED"
+    );
+  });
+});
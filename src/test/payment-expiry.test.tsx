@@ -0,0 +1,79 @@
+import { act, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import {
+  addProduct,
+  bootSignedInKiosk,
+  checkout,
+  settlePayments,
+  waitForQrRequest,
+} from "./harness";
+
+describe("payment expiry", () => {
+  it("counts the timer down while a request is pending", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "생수");
+    await checkout(kiosk);
+    await waitForQrRequest(kiosk);
+
+    act(() => kiosk.usePaymentStore.setState({ timer: 65 }));
+    await screen.findByText("01:05");
+    act(() => kiosk.usePaymentStore.getState().decrementTimer());
+    await screen.findByText("01:04");
+  });
+
+  it("expires the payment once decrementTimer runs out and cancels the order", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "생수");
+    await checkout(kiosk);
+    await waitForQrRequest(kiosk);
+
+    const { orderId, decrementTimer } = kiosk.usePaymentStore.getState();
+    act(() => {
+      kiosk.usePaymentStore.setState({ timer: 0 });
+      decrementTimer();
+    });
+
+    await screen.findByText("결제 시간이 초과되었습니다.");
+    await screen.findByText("장바구니가 비어있습니다");
+    expect(kiosk.usePaymentStore.getState().phase).toBe("expired");
+    expect(window.location.pathname).toBe("/products");
+    expect((await kiosk.endpoints.fetchOrder(orderId!)).status).toBe(
+      "CANCELLED"
+    );
+  });
+
+  it("does not expire a payment that is no longer in progress", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "생수");
+    await checkout(kiosk);
+    await waitForQrRequest(kiosk);
+    await settlePayments(kiosk, "COMPLETED");
+    await screen.findByText("결제 완료");
+
+    act(() => {
+      kiosk.usePaymentStore.setState({ timer: 0 });
+      kiosk.usePaymentStore.getState().decrementTimer();
+    });
+
+    expect(kiosk.usePaymentStore.getState().phase).toBe("completed");
+  });
+
+  it("expires the payment when the server reports it expired", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "생수");
+    await checkout(kiosk);
+    await waitForQrRequest(kiosk);
+
+    const { orderId } = kiosk.usePaymentStore.getState();
+    await settlePayments(kiosk, "EXPIRED");
+
+    await screen.findByText("장바구니가 비어있습니다");
+    expect((await kiosk.endpoints.fetchOrder(orderId!)).status).toBe(
+      "CANCELLED"
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import { act, cleanup, screen, waitFor } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { bootKiosk, bootSignedInKiosk } from "./harness";
+
+const createAudioContextStub = () => {
+  const started = vi.fn();
+  const param = {
+    setValueAtTime: vi.fn(),
+    exponentialRampToValueAtTime: vi.fn(),
+  };
+
+  class AudioContextStub {
+    currentTime = 0;
+    destination = {};
+    createOscillator = () => ({
+      type: "sine",
+      frequency: { value: 0 },
+      connect: vi.fn(),
+      start: started,
+      stop: vi.fn(),
+    });
+    createGain = () => ({ gain: param, connect: vi.fn() });
+    close = vi.fn(async () => {});
+  }
+
+  return { AudioContextStub, started };
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("pickup board", () => {
+  it("chimes for an order that turned ready while the socket was down", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    const orderId = await act(async () => {
+      const { id } = await kiosk.endpoints.createOrder({
+        items: [
+          {
+            productId: 2,
+            quantity: 1,
+            options: [],
+            unitPrice: 3500,
+            linePrice: 3500,
+          },
+        ],
+      });
+      await kiosk.endpoints.createStudentIdPayment(id, "1101");
+      kiosk.backend.settleMockPayments("COMPLETED");
+      return id;
+    });
+
+    const { AudioContextStub, started } = createAudioContextStub();
+    vi.stubGlobal("AudioContext", AudioContextStub);
+    localStorage.setItem("pickup-board-chime", "on");
+    cleanup();
+    const board = await bootKiosk("/pickup-board");
+
+    await screen.findByText("1");
+    act(() => {
+      board.socket.dropMockSockets();
+    });
+    await act(async () => {
+      await board.endpoints.updateOrderFulfillment(orderId, "READY");
+    });
+
+    await waitFor(() => expect(started).toHaveBeenCalled(), {
+      timeout: 10000,
+    });
+  });
+});
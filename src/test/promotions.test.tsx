@@ -0,0 +1,82 @@
+import { screen, within } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { addProduct, bootSignedInKiosk, checkout, type Kiosk } from "./harness";
+
+const enterCoupon = async ({ user }: Kiosk, code: string) => {
+  await user.click(screen.getByRole("button", { name: "쿠폰 입력" }));
+  const dialog = within(
+    (await screen.findByText("쿠폰 번호 입력")).parentElement!
+  );
+
+  for (const digit of code) {
+    await user.click(dialog.getByRole("button", { name: digit }));
+  }
+  await user.click(dialog.getByRole("button", { name: "적용하기" }));
+};
+
+const fetchCreatedOrder = ({ endpoints, usePaymentStore }: Kiosk) =>
+  endpoints.fetchOrder(usePaymentStore.getState().orderId!);
+
+describe("promotions", () => {
+  it("applies an automatic bundle to the cart line and the order", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    for (let unit = 0; unit < 3; unit++) {
+      await addProduct(kiosk, "어묵꼬치");
+    }
+
+    await screen.findByText("어묵꼬치 2+1 -1,000원");
+    expect(screen.getByText("-1,000원")).toBeInTheDocument();
+
+    await checkout(kiosk);
+    expect(await fetchCreatedOrder(kiosk)).toMatchObject({
+      totalAmount: 2000,
+      discountAmount: 1000,
+    });
+  });
+
+  it("applies a coupon entered on the keypad as an order discount", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "순대");
+    await addProduct(kiosk, "순대");
+    await enterCoupon(kiosk, "1234");
+
+    await screen.findByText("쿠폰이 적용되었습니다");
+    expect(screen.getByText("-700원")).toBeInTheDocument();
+    expect(screen.getByText("6,300원")).toBeInTheDocument();
+
+    await checkout(kiosk);
+    expect(await fetchCreatedOrder(kiosk)).toMatchObject({
+      totalAmount: 6300,
+      discountAmount: 700,
+    });
+    expect(await screen.findByText("-700원")).toBeInTheDocument();
+  });
+
+  it("keeps a coupon that the cart does not qualify for yet", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "어묵꼬치");
+    await enterCoupon(kiosk, "1234");
+
+    await screen.findByText("현재 주문에는 적용되지 않는 쿠폰입니다");
+
+    await addProduct(kiosk, "순대");
+    await addProduct(kiosk, "순대");
+    await screen.findByText("-800원");
+    expect(
+      screen.queryByText("현재 주문에는 적용되지 않는 쿠폰입니다")
+    ).not.toBeInTheDocument();
+  });
+
+  it("rejects an unknown coupon code", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "순대");
+    await enterCoupon(kiosk, "9999");
+
+    await screen.findByText("사용할 수 없는 쿠폰 번호입니다");
+    expect(kiosk.useCartStore.getState().coupon).toBeNull();
+  });
+});
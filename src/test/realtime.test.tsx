@@ -0,0 +1,44 @@
+import { act, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import {
+  addProduct,
+  bootSignedInKiosk,
+  checkout,
+  settlePayments,
+  waitForQrRequest,
+} from "./harness";
+
+describe("payment channel", () => {
+  it("reconnects after the socket drops and still delivers the result", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "생수");
+    await checkout(kiosk);
+    await waitForQrRequest(kiosk);
+
+    act(() => {
+      kiosk.socket.dropMockSockets();
+    });
+    await screen.findByText("주기 확인");
+    await screen.findByText("실시간");
+
+    await settlePayments(kiosk, "COMPLETED");
+    await screen.findByText("결제 완료");
+  });
+
+  it("picks up a result that was sent while the socket was down", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "생수");
+    await checkout(kiosk);
+    await waitForQrRequest(kiosk);
+
+    act(() => {
+      kiosk.socket.dropMockSockets();
+    });
+    await settlePayments(kiosk, "COMPLETED");
+
+    await screen.findByText("결제 완료");
+    expect(kiosk.usePaymentStore.getState().phase).toBe("completed");
+  });
+});
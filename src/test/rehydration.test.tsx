@@ -0,0 +1,88 @@
+import { cleanup, screen, waitFor } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import {
+  addProduct,
+  bootKiosk,
+  bootSignedInKiosk,
+  checkout,
+  settlePayments,
+  waitForQrRequest,
+} from "./harness";
+
+const reload = async () => {
+  cleanup();
+  return await bootKiosk("/products");
+};
+
+describe("rehydration from persisted stores", () => {
+  it("restores the signed-in booth and its cart", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "순대");
+    await addProduct(kiosk, "어묵꼬치");
+
+    const reloaded = await reload();
+
+    await screen.findByAltText("순대");
+    expect(window.location.pathname).toBe("/products");
+    await waitFor(() =>
+      expect(reloaded.useCartStore.getState().getTotalItems()).toBe(2)
+    );
+  });
+
+  it("resumes a pending payment after a reload", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "순대");
+    await checkout(kiosk);
+    await waitForQrRequest(kiosk);
+    const { orderId, requestId } = kiosk.usePaymentStore.getState();
+
+    const reloaded = await reload();
+
+    await waitForQrRequest(reloaded);
+    expect(window.location.pathname).toBe("/payment");
+    expect(reloaded.usePaymentStore.getState()).toMatchObject({
+      orderId,
+      requestId,
+    });
+
+    await settlePayments(reloaded, "COMPLETED");
+    await screen.findByText("결제 완료");
+  });
+
+  it("shows the completed order when it was paid while the kiosk was down", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "순대");
+    await checkout(kiosk);
+    await waitForQrRequest(kiosk);
+
+    cleanup();
+    kiosk.backend.settleMockPayments("COMPLETED");
+    const reloaded = await bootKiosk("/products");
+
+    await screen.findByText("결제 완료");
+    expect(window.location.pathname).toBe("/payment-complete");
+    expect(reloaded.usePaymentStore.getState().phase).toBe("completed");
+  });
+
+  it("drops a pending order whose payment expired while the kiosk was down", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "순대");
+    await checkout(kiosk);
+    await waitForQrRequest(kiosk);
+    const { orderId } = kiosk.usePaymentStore.getState();
+
+    cleanup();
+    kiosk.backend.settleMockPayments("EXPIRED");
+    const reloaded = await bootKiosk("/products");
+
+    await screen.findByText("이전 주문이 취소되었습니다");
+    expect(window.location.pathname).toBe("/products");
+    expect((await reloaded.endpoints.fetchOrder(orderId!)).status).toBe(
+      "CANCELLED"
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import { screen, waitFor, within } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { addProduct, bootSignedInKiosk, checkout, type Kiosk } from "./harness";
+
+const FISHCAKE_ID = 3;
+const ICED_TEA_ID = 6;
+const FISHCAKE_SET_ID = 8;
+const FISHCAKE_SET = "어묵 + 음료 세트";
+
+const getProductCard = async (name: string) =>
+  within((await screen.findByAltText(name)).parentElement!);
+
+const addSetWithIcedTea = async (kiosk: Kiosk) => {
+  await addProduct(kiosk, FISHCAKE_SET);
+  await kiosk.user.click(
+    await screen.findByRole("button", { name: /아이스티/ })
+  );
+  await kiosk.user.click(screen.getByRole("button", { name: /3,000원 담기/ }));
+};
+
+describe("set menus", () => {
+  it("keeps a set as one cart line and expands it in the order", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addSetWithIcedTea(kiosk);
+
+    await screen.findByText("어묵꼬치 x2, 아이스티");
+    expect(kiosk.useCartStore.getState().items).toHaveLength(1);
+
+    await checkout(kiosk);
+    const order = await kiosk.endpoints.fetchOrder(
+      kiosk.usePaymentStore.getState().orderId!
+    );
+    expect(order.totalAmount).toBe(3000);
+    expect(order.items?.[0].components).toEqual([
+      { productId: FISHCAKE_ID, productName: "어묵꼬치", quantity: 2 },
+      { productId: ICED_TEA_ID, productName: "아이스티", quantity: 1 },
+    ]);
+
+    await waitFor(async () => {
+      const products = await kiosk.endpoints.fetchAvailableProducts();
+      expect(products.find((p) => p.id === FISHCAKE_ID)?.stock).toBe(48);
+      expect(products.find((p) => p.id === ICED_TEA_ID)?.stock).toBe(39);
+    });
+  });
+
+  it("shows a set as sold out when a component runs out", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    expect(
+      (await getProductCard("간식 세트")).getByText("품절")
+    ).toBeInTheDocument();
+    expect(
+      (await getProductCard(FISHCAKE_SET)).queryByText("품절")
+    ).not.toBeInTheDocument();
+
+    await waitFor(async () => {
+      kiosk.backend.updateMockProduct(FISHCAKE_ID, { stock: 1 });
+      expect(
+        (await getProductCard(FISHCAKE_SET)).getByText("품절")
+      ).toBeInTheDocument();
+    });
+  });
+
+  it("trims set lines when a component's stock drops", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addSetWithIcedTea(kiosk);
+    await addSetWithIcedTea(kiosk);
+
+    await waitFor(() => {
+      kiosk.backend.updateMockProduct(FISHCAKE_ID, { stock: 3 });
+      expect(
+        kiosk.useCartStore.getState().getProductQuantity(FISHCAKE_SET_ID)
+      ).toBe(1);
+    });
+    await screen.findByText(
+      "재고 변경으로 장바구니가 조정되었습니다: 어묵꼬치"
+    );
+  });
+});
@@ -0,0 +1,42 @@
+import "@testing-library/jest-dom/vitest";
+import { cleanup, configure } from "@testing-library/react";
+import { IDBFactory } from "fake-indexeddb";
+import { afterEach, beforeEach, vi } from "vitest";
+
+configure({ asyncUtilTimeout: 5000 });
+
+// jsdom has no matchMedia; react-hot-toast queries it when positioning toasts.
+Object.defineProperty(window, "matchMedia", {
+  writable: true,
+  value: (query: string): MediaQueryList =>
+    ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: () => {},
+      removeListener: () => {},
+      addEventListener: () => {},
+      removeEventListener: () => {},
+      dispatchEvent: () => false,
+    }) as MediaQueryList,
+});
+
+beforeEach(() => {
+  localStorage.clear();
+
+  // jsdom has no IndexedDB; the catalog cache needs one, fresh per test like
+  // localStorage.
+  vi.stubGlobal("indexedDB", new IDBFactory());
+
+  // The kiosk fetches /config.json on boot; jsdom has no server to answer it.
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => new Response(null, { status: 404 }))
+  );
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
@@ -0,0 +1,31 @@
+import { screen } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { bootKiosk, openStaffPanel, TEST_BOOTH } from "./harness";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("staff PIN", () => {
+  it("has the PIN chosen at sign-in when the build sets none", async () => {
+    vi.stubEnv("VITE_STAFF_PIN", "");
+    const kiosk = await bootKiosk("/login");
+    const { user } = kiosk;
+
+    await user.type(
+      await screen.findByPlaceholderText("아이디를 입력하세요"),
+      TEST_BOOTH
+    );
+    await user.type(screen.getByPlaceholderText("비밀번호를 입력하세요"), "pw");
+    expect(screen.getByRole("button", { name: "로그인" })).toBeDisabled();
+
+    await user.type(
+      screen.getByPlaceholderText("처음 사용할 숫자 4자리"),
+      "4821"
+    );
+    await user.click(screen.getByRole("button", { name: "로그인" }));
+
+    await screen.findByRole("heading", { name: "순대" });
+    await openStaffPanel(kiosk, "4821");
+  });
+});
@@ -0,0 +1,75 @@
+import { act, screen, waitFor } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { addProduct, bootSignedInKiosk, checkout, type Kiosk } from "./harness";
+
+const SUNDAE_ID = 2;
+
+// The stock channel connects shortly after the menu renders, so the update is
+// re-sent until the menu reflects it.
+const pushStock = (kiosk: Kiosk, stock: number) =>
+  waitFor(() => {
+    kiosk.backend.updateMockProduct(SUNDAE_ID, { stock });
+    expect(screen.getByText(`재고: ${stock}개`)).toBeInTheDocument();
+  });
+
+describe("stock handling", () => {
+  it("stops adding more than the remaining stock", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await pushStock(kiosk, 2);
+
+    await addProduct(kiosk, "순대");
+    await addProduct(kiosk, "순대");
+    await addProduct(kiosk, "순대");
+
+    await screen.findByText("재고가 부족합니다");
+    expect(kiosk.useCartStore.getState().getProductQuantity(SUNDAE_ID)).toBe(2);
+  });
+
+  it("trims the cart when a stock update arrives", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "순대");
+    await addProduct(kiosk, "순대");
+    await addProduct(kiosk, "순대");
+
+    await pushStock(kiosk, 1);
+
+    await screen.findByText("재고 변경으로 장바구니가 조정되었습니다: 순대");
+    expect(kiosk.useCartStore.getState().getProductQuantity(SUNDAE_ID)).toBe(1);
+  });
+
+  it("keeps the customer on the menu when the server rejects the stock", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "순대");
+    await addProduct(kiosk, "순대");
+
+    act(() =>
+      kiosk.backend.updateMockProduct(
+        SUNDAE_ID,
+        { stock: 1 },
+        { broadcast: false }
+      )
+    );
+    await kiosk.user.click(screen.getByRole("button", { name: /결제하기/ }));
+
+    await screen.findByText("재고가 부족합니다");
+    await screen.findByText("재고: 1개");
+    expect(window.location.pathname).toBe("/products");
+    expect(kiosk.usePaymentStore.getState().phase).toBe("idle");
+  });
+
+  it("reserves stock for a created order", async () => {
+    const kiosk = await bootSignedInKiosk();
+
+    await addProduct(kiosk, "순대");
+    await addProduct(kiosk, "순대");
+    await checkout(kiosk);
+
+    await waitFor(async () => {
+      const products = await kiosk.endpoints.fetchAvailableProducts();
+      expect(products.find((p) => p.id === SUNDAE_ID)?.stock).toBe(18);
+    });
+  });
+});
@@ -0,0 +1,9 @@
+export interface KioskLoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface KioskTokenResponse {
+  accessToken: string;
+  refreshToken?: string | null;
+}
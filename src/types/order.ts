@@ -0,0 +1,81 @@
+export type OrderStatus = "PENDING" | "PAID" | "CANCELLED";
+
+export type OrderFulfillmentStatus =
+  "RECEIVED" | "PREPARING" | "READY" | "PICKED_UP";
+
+export interface OrderItemOptionResponse {
+  optionId: number;
+  optionName: string;
+}
+
+export interface OrderItemComponentResponse {
+  productId: number;
+  productName: string;
+  quantity: number;
+}
+
+export interface OrderItemResponse {
+  productId: number;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  linePrice: number;
+  options?: OrderItemOptionResponse[];
+  components?: OrderItemComponentResponse[];
+}
+
+export interface OrderResponse {
+  id: number;
+  status: OrderStatus;
+  totalAmount: number;
+  discountAmount?: number | null;
+  fulfillmentStatus?: OrderFulfillmentStatus;
+  pickupNumber?: string | null;
+  items?: OrderItemResponse[];
+  receiptUrl?: string | null;
+  createdAt: string;
+}
+
+export interface CreateOrderItemOptionRequest {
+  groupId: number;
+  optionId: number;
+}
+
+export interface CreateOrderItemComponentRequest {
+  slotId: number;
+  productId: number;
+}
+
+export interface CreateOrderItemRequest {
+  productId: number;
+  quantity: number;
+  options: CreateOrderItemOptionRequest[];
+  components?: CreateOrderItemComponentRequest[];
+  unitPrice: number;
+  linePrice: number;
+  discountAmount?: number;
+}
+
+export interface OrderDiscountRequest {
+  promotionIds: number[];
+  couponCode?: string | null;
+  amount: number;
+}
+
+export interface CreateOrderRequest {
+  items: CreateOrderItemRequest[];
+  discount?: OrderDiscountRequest;
+  staffConfirmed?: boolean;
+}
+
+export interface CreatedOrderResponse {
+  id: number;
+}
+
+export interface ReceiptLine {
+  key: string;
+  name: string;
+  options: string[];
+  quantity: number;
+  linePrice: number;
+}
@@ -0,0 +1,24 @@
+export type PaymentRequestStatus =
+  "PENDING" | "COMPLETED" | "FAILED" | "EXPIRED";
+
+export type SettledPaymentRequestStatus = Exclude<
+  PaymentRequestStatus,
+  "PENDING"
+>;
+
+export interface PaymentRequestResponse {
+  id: number;
+  token: string;
+  expiresAt: string;
+}
+
+export interface StudentIdPaymentRequestResponse {
+  id: number;
+  token?: string | null;
+  expiresAt: string;
+}
+
+export interface PaymentRequestStatusResponse {
+  status: PaymentRequestStatus;
+  message?: string;
+}
@@ -0,0 +1,63 @@
+export interface ProductOptionResponse {
+  id: number;
+  name: string;
+  priceDelta: number;
+}
+
+export interface ProductOptionGroupResponse {
+  id: number;
+  name: string;
+  required: boolean;
+  multiple: boolean;
+  maxSelections?: number | null;
+  options: ProductOptionResponse[];
+}
+
+export interface ProductComponentSwapResponse {
+  productId: number;
+  priceDelta: number;
+}
+
+export interface ProductComponentResponse {
+  id: number;
+  name: string;
+  productId: number;
+  quantity: number;
+  swaps?: ProductComponentSwapResponse[] | null;
+}
+
+export interface ProductResponse {
+  id: number;
+  name: string;
+  price: number;
+  description?: string | null;
+  imageUrl?: string | null;
+  category?: string | null;
+  optionGroups?: ProductOptionGroupResponse[];
+  components?: ProductComponentResponse[] | null;
+  status: "AVAILABLE" | "SOLD_OUT" | "HIDDEN";
+  stock: number;
+  maxPerOrder?: number | null;
+  dailyLimitPerStudent?: number | null;
+  requiresStaffConfirmation?: boolean | null;
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SelectedOption {
+  groupId: number;
+  groupName: string;
+  optionId: number;
+  optionName: string;
+  priceDelta: number;
+}
+
+export interface SelectedComponent {
+  slotId: number;
+  slotName: string;
+  productId: number;
+  productName: string;
+  quantity: number;
+  priceDelta: number;
+}
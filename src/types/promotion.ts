@@ -0,0 +1,35 @@
+export type PromotionType = "BUNDLE" | "TIME_WINDOW" | "PERCENTAGE" | "FIXED";
+
+interface PromotionBase {
+  id: number;
+  name: string;
+  code?: string | null;
+  productIds?: number[] | null;
+  minOrderAmount?: number | null;
+}
+
+export interface BundlePromotion extends PromotionBase {
+  type: "BUNDLE";
+  buyQuantity: number;
+  payQuantity: number;
+}
+
+export interface TimeWindowPromotion extends PromotionBase {
+  type: "TIME_WINDOW";
+  startTime: string;
+  endTime: string;
+  percentOff: number;
+}
+
+export interface PercentagePromotion extends PromotionBase {
+  type: "PERCENTAGE";
+  percentOff: number;
+}
+
+export interface FixedPromotion extends PromotionBase {
+  type: "FIXED";
+  amountOff: number;
+}
+
+export type PromotionResponse =
+  BundlePromotion | TimeWindowPromotion | PercentagePromotion | FixedPromotion;
@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  readonly VITE_WS_URL?: string;
+  readonly VITE_PAYMENT_TIMEOUT?: string;
+  readonly VITE_IDLE_TIMEOUT?: string;
+  readonly VITE_MAX_ORDER_QUANTITY?: string;
+  readonly VITE_DISABLED_FEATURES?: string;
+  readonly VITE_DEMO_MODE?: string;
+  readonly VITE_STAFF_PIN?: string;
+}